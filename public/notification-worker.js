@@ -0,0 +1,43 @@
+// Service worker for go-live notifications (see src/services/liveNotifications.ts).
+// Shows notifications the server pushes and opens the channel when one is clicked.
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('push', (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = {};
+  }
+  if (payload.type !== 'stream_live' || !payload.username) return;
+
+  // Same title, body and tag as showLiveNotification() in the app
+  event.waitUntil(
+    self.registration.showNotification(`${payload.username} is live`, {
+      body: payload.title || 'Started streaming',
+      icon: payload.profilePicture || '/favicon.ico',
+      tag: `live-${payload.username}`,
+      data: { url: `/${encodeURIComponent(payload.username)}` },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL((event.notification.data && event.notification.data.url) || '/', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => client.url === url);
+      if (existing) return existing.focus();
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -1,4 +1,4 @@
-import { useEffect, useState, useRef, useCallback } from 'react';
+import { useContext, useEffect, useState, useRef, useCallback } from 'react';
 import { Line } from 'react-chartjs-2';
 import {
   Chart as ChartJS,
@@ -10,11 +10,41 @@ import {
   Tooltip,
   Legend,
   Filler,
+  type ChartData,
   type ChartOptions,
   type TooltipItem
 } from 'chart.js';
 import { io, Socket } from 'socket.io-client';
 import { useDarkMode } from '../contexts/DarkModeContext';
+import AuthContext from '../contexts/AuthContext';
+import {
+  DEFAULT_INGEST_HEALTH_SETTINGS,
+  clearIngestIncidents,
+  getIngestHealthSettings,
+  loadIngestIncidents,
+  playIngestAlertSound,
+  saveIngestIncidents,
+  updateIngestHealthSettings,
+  type IngestHealthSettings,
+  type IngestIncident,
+  type IngestIncidentKind,
+} from '../services/ingestHealth';
+import {
+  TELEMETRY_METRICS,
+  TELEMETRY_METRIC_ORDER,
+  buildTelemetryScales,
+  formatBitrate,
+  formatResolution,
+  formatTelemetryTime,
+  formatTelemetryValue,
+  getResolutionChanges,
+  getTelemetryWarnings,
+  hasTelemetryMetric,
+  toTelemetryPoint,
+  toggleTelemetryMetric,
+  type TelemetryMetric,
+  type TelemetryPoint,
+} from '../services/ingestTelemetry';
 
 // Register Chart.js components
 ChartJS.register(
@@ -28,12 +58,21 @@ ChartJS.register(
   Filler
 );
 
-interface BitrateDataPoint {
-  timestamp: number;
-  bitrate: number;
-  streamId?: number;
-  username?: string;
-}
+// Channel status polls can briefly report offline after a failed request;
+// the incident log is only cleared once the channel stays offline this long
+const OFFLINE_GRACE_MS = 3 * 60 * 1000;
+
+const INCIDENT_LABELS: Record<IngestIncidentKind, string> = {
+  poor_quality: 'Poor quality',
+  no_signal: 'No signal',
+};
+
+const formatIncidentDuration = (milliseconds: number): string => {
+  const seconds = Math.max(0, Math.round(milliseconds / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${(seconds % 60).toString().padStart(2, '0')}s`;
+};
 
 interface BitrateGraphProps {
   streamUsername?: string;
@@ -51,14 +90,29 @@ export default function BitrateGraph({
   visible = true 
 }: BitrateGraphProps) {
   const { isDarkMode } = useDarkMode();
-  const [bitrateData, setBitrateData] = useState<BitrateDataPoint[]>([]);
+  const { token } = useContext(AuthContext);
+  const [bitrateData, setBitrateData] = useState<TelemetryPoint[]>([]);
   const [bitrateQuality, setBitrateQuality] = useState<'good' | 'intermittent' | 'poor' | 'unknown'>('unknown');
   const [isLoading, setIsLoading] = useState(false);
   const socketRef = useRef<Socket | null>(null);
   const [connectionStatus, setConnectionStatus] = useState<'connecting' | 'connected' | 'disconnected'>('disconnected');
+  // Channel alert thresholds; read through a ref so quality analysis keeps a stable identity
+  const [healthSettings, setHealthSettings] = useState<IngestHealthSettings>(DEFAULT_INGEST_HEALTH_SETTINGS);
+  const healthSettingsRef = useRef<IngestHealthSettings>(DEFAULT_INGEST_HEALTH_SETTINGS);
+  const [settingsDraft, setSettingsDraft] = useState<IngestHealthSettings>(DEFAULT_INGEST_HEALTH_SETTINGS);
+  const [showAlertSettings, setShowAlertSettings] = useState(false);
+  const [savingSettings, setSavingSettings] = useState(false);
+  const [settingsMessage, setSettingsMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+  // Health incidents raised during the current broadcast
+  const [incidents, setIncidents] = useState<IngestIncident[]>(() => (streamUsername ? loadIngestIncidents(streamUsername).incidents : []));
+  // Stream the logged incidents belong to; readings from another stream start a new log
+  const incidentStreamIdRef = useRef<number | undefined>(streamUsername ? loadIngestIncidents(streamUsername).streamId : undefined);
+  const [dismissedIncidentIds, setDismissedIncidentIds] = useState<string[]>([]);
+  // Series plotted in the full view; each gets its own axis
+  const [selectedMetrics, setSelectedMetrics] = useState<TelemetryMetric[]>(['bitrate']);
 
   // Analyze bitrate quality based on recent data
-  const analyzeBitrateQuality = useCallback((data: BitrateDataPoint[]) => {
+  const analyzeBitrateQuality = useCallback((data: TelemetryPoint[]) => {
     if (data.length < 3) {
       setBitrateQuality('unknown');
       return;
@@ -87,12 +141,13 @@ export default function BitrateGraph({
       stability: Math.round(stability * 100) / 100
     });
     
-    // Enhanced quality thresholds
-    if (average >= 3000 && dropPercentage < 0.15 && severeDropPercentage === 0) {
-      // GOOD: >3Mbps average, <15% drops, no severe drops
+    // Enhanced quality thresholds, configurable per channel
+    const { goodKbps, minimumKbps } = healthSettingsRef.current;
+    if (average >= goodKbps && dropPercentage < 0.15 && severeDropPercentage === 0) {
+      // GOOD: at least goodKbps average, <15% drops, no severe drops
       setBitrateQuality('good');
-    } else if (average >= 1500 && dropPercentage < 0.35 && severeDropPercentage < 0.1) {
-      // INTERMITTENT: >1.5Mbps average, <35% drops, <10% severe drops  
+    } else if (average >= minimumKbps && dropPercentage < 0.35 && severeDropPercentage < 0.1) {
+      // INTERMITTENT: at least minimumKbps average, <35% drops, <10% severe drops
       setBitrateQuality('intermittent');
     } else {
       // POOR: Low average, frequent drops, or many severe drops
@@ -128,9 +183,9 @@ export default function BitrateGraph({
       console.log('🔗 Bitrate WebSocket connected');
       setConnectionStatus('connected');
       
-      // Subscribe to bitrate updates
+      // Subscribe to bitrate updates, with encoder telemetry (FPS, keyframes, audio, resolution, dropped frames)
       console.log('📡 Emitting subscribe_bitrate for username:', streamUsername);
-      socket.emit('subscribe_bitrate', { username: streamUsername });
+      socket.emit('subscribe_bitrate', { username: streamUsername, telemetry: true });
     });
 
     socket.on('disconnect', (reason) => {
@@ -143,18 +198,13 @@ export default function BitrateGraph({
       setConnectionStatus('disconnected');
     });
 
-    // Listen for real-time bitrate updates
-    socket.on('bitrate_update', (data: BitrateDataPoint) => {
+    // Listen for real-time bitrate and telemetry updates
+    socket.on('bitrate_update', (data: TelemetryPoint) => {
       console.log('📊 Received bitrate update:', data);
       
       setBitrateData(prev => {
         // Keep last 60 data points (5 minutes at 5-second intervals)
-        const newData = [...prev, {
-          timestamp: data.timestamp,
-          bitrate: data.bitrate,
-          streamId: data.streamId,
-          username: data.username
-        }].slice(-60);
+        const newData = [...prev, toTelemetryPoint(data)].slice(-60);
         
         // Analyze quality after updating data
         analyzeBitrateQuality(newData);
@@ -257,10 +307,11 @@ export default function BitrateGraph({
       
       if (data.history && data.history.length > 0) {
         console.log('✅ Setting bitrate data with', data.history.length, 'points');
-        setBitrateData(data.history);
+        const history = data.history.map(toTelemetryPoint);
+        setBitrateData(history);
         
         // Analyze initial quality
-        analyzeBitrateQuality(data.history);
+        analyzeBitrateQuality(history);
       } else {
         console.log('📊 No historical data available, trying current endpoint...');
         // Try current endpoint as fallback
@@ -270,12 +321,7 @@ export default function BitrateGraph({
           const currentData = await currentResponse.json();
           console.log('📊 Current data:', currentData);
           if (currentData.bitrate !== undefined) {
-            const currentPoint = {
-              timestamp: Date.now(),
-              bitrate: currentData.bitrate,
-              streamId: currentData.streamId,
-              username: currentData.username
-            };
+            const currentPoint = toTelemetryPoint({ ...currentData, timestamp: Date.now() });
             setBitrateData([currentPoint]);
             console.log('✅ Set single current data point with bitrate:', currentData.bitrate);
           }
@@ -363,9 +409,10 @@ export default function BitrateGraph({
           });
           
           if (data.history) {
-            setBitrateData(data.history);
-            if (data.history.length > 0) {
-              analyzeBitrateQuality(data.history);
+            const history = data.history.map(toTelemetryPoint);
+            setBitrateData(history);
+            if (history.length > 0) {
+              analyzeBitrateQuality(history);
               console.log('✅ Updated graph with', data.history.length, 'data points at', new Date().toLocaleTimeString());
             } else {
               console.log('📊 History endpoint returned empty array - no data points yet');
@@ -389,16 +436,151 @@ export default function BitrateGraph({
     };
   }, [isLive, streamUsername, visible, analyzeBitrateQuality]);
 
-  // Format bitrate for display
-  const formatBitrate = (bitrate: number): string => {
-    if (bitrate >= 1000) {
-      return `${Math.round(bitrate / 1000 * 10) / 10}M`;
+  // Load the channel's alert thresholds
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+
+    getIngestHealthSettings(token)
+      .then(settings => {
+        if (cancelled) return;
+        setHealthSettings(settings);
+        setSettingsDraft(settings);
+      })
+      .catch(error => console.error('❌ Failed to load alert settings:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  // Re-grade the data on screen whenever the thresholds change
+  useEffect(() => {
+    healthSettingsRef.current = healthSettings;
+    setBitrateData(prev => {
+      analyzeBitrateQuality(prev);
+      return prev;
+    });
+  }, [healthSettings, analyzeBitrateQuality]);
+
+  // The incident log belongs to one broadcast; start over once it has really ended
+  useEffect(() => {
+    if (!streamUsername) return;
+    if (isLive) {
+      const log = loadIngestIncidents(streamUsername);
+      incidentStreamIdRef.current = log.streamId;
+      setIncidents(log.incidents);
+      return;
+    }
+    const timer = setTimeout(() => {
+      clearIngestIncidents(streamUsername);
+      incidentStreamIdRef.current = undefined;
+      setIncidents([]);
+      setDismissedIncidentIds([]);
+    }, OFFLINE_GRACE_MS);
+    return () => clearTimeout(timer);
+  }, [streamUsername, isLive]);
+
+  // Open and close incidents as the readings cross the thresholds
+  useEffect(() => {
+    if (!isLive || !streamUsername || bitrateData.length === 0) return;
+
+    const latest = bitrateData[bitrateData.length - 1];
+    // Start of the trailing run of zero readings, if the latest reading is zero
+    let firstZero: TelemetryPoint | null = null;
+    for (let i = bitrateData.length - 1; i >= 0 && bitrateData[i].bitrate <= 0; i--) {
+      firstZero = bitrateData[i];
+    }
+    const noSignal = !!firstZero && latest.timestamp - firstZero.timestamp >= healthSettings.zeroBitrateSeconds * 1000;
+    // Lowest reading on screen from an incident's start onward
+    const lowestSince = (timestamp: number) =>
+      Math.max(0, Math.min(...bitrateData.filter(point => point.timestamp >= timestamp).map(point => point.bitrate)));
+
+    // A new stream id means a new broadcast, whose log starts from scratch
+    const streamId = latest.streamId;
+    const newBroadcast = streamId !== undefined && incidentStreamIdRef.current !== undefined && streamId !== incidentStreamIdRef.current;
+    if (streamId !== undefined) incidentStreamIdRef.current = streamId;
+    const previous = newBroadcast ? [] : incidents;
+
+    const conditions: Record<IngestIncidentKind, { active: boolean; startedAt: number }> = {
+      no_signal: { active: noSignal, startedAt: firstZero?.timestamp ?? latest.timestamp },
+      // Zero bitrate drags quality to poor too; report it once, as no signal
+      poor_quality: { active: bitrateQuality === 'poor' && !noSignal, startedAt: latest.timestamp },
+    };
+
+    let next = previous;
+    let raised = false;
+    (Object.keys(conditions) as IngestIncidentKind[]).forEach(kind => {
+      const { active, startedAt } = conditions[kind];
+      const open = next.find(incident => incident.kind === kind && incident.endedAt === undefined);
+      if (active && !open) {
+        next = [...next, { id: `${kind}-${startedAt}`, kind, startedAt, lowestKbps: lowestSince(startedAt) }];
+        raised = true;
+      } else if (active && open && lowestSince(open.startedAt) < open.lowestKbps) {
+        next = next.map(incident => (incident === open ? { ...incident, lowestKbps: lowestSince(open.startedAt) } : incident));
+      } else if (!active && open) {
+        next = next.map(incident => (incident === open ? { ...incident, endedAt: latest.timestamp } : incident));
+      }
+    });
+
+    if (newBroadcast) setDismissedIncidentIds([]);
+    if (!newBroadcast && next === incidents) return;
+    if (raised) {
+      console.warn('🚨 Ingest health alert raised for', streamUsername);
+      if (healthSettings.soundEnabled) playIngestAlertSound();
+    }
+    setIncidents(next);
+    saveIngestIncidents(streamUsername, { streamId: incidentStreamIdRef.current, incidents: next });
+  }, [bitrateData, bitrateQuality, healthSettings, incidents, isLive, streamUsername]);
+
+  const activeAlerts = incidents.filter(incident => incident.endedAt === undefined && !dismissedIncidentIds.includes(incident.id));
+
+  const saveAlertSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+    if (settingsDraft.minimumKbps <= 0 || settingsDraft.goodKbps <= settingsDraft.minimumKbps) {
+      setSettingsMessage({ type: 'error', text: 'The good bitrate must be higher than the minimum bitrate' });
+      return;
+    }
+    if (settingsDraft.zeroBitrateSeconds < 1) {
+      setSettingsMessage({ type: 'error', text: 'The no-signal delay must be at least 1 second' });
+      return;
+    }
+
+    setSavingSettings(true);
+    setSettingsMessage(null);
+    try {
+      const saved = await updateIngestHealthSettings(token, settingsDraft);
+      setHealthSettings(saved);
+      setSettingsDraft(saved);
+      setSettingsMessage({ type: 'success', text: 'Alert settings saved' });
+    } catch (error) {
+      console.error('❌ Failed to save alert settings:', error);
+      setSettingsMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save alert settings' });
+    } finally {
+      setSavingSettings(false);
     }
-    return `${Math.round(bitrate)}k`;
   };
 
+  // Older ingest servers only report bitrate; offer the other series once they show up
+  const availableMetrics = TELEMETRY_METRIC_ORDER.filter(metric => metric === 'bitrate' || hasTelemetryMetric(bitrateData, metric));
+  const selectedAvailable = selectedMetrics.filter(metric => availableMetrics.includes(metric));
+  const shownMetrics: TelemetryMetric[] = compact || selectedAvailable.length === 0 ? ['bitrate'] : selectedAvailable;
+  const resolutionChanges = getResolutionChanges(bitrateData);
+  const telemetryWarnings = getTelemetryWarnings(bitrateData);
+  const latestPoint = bitrateData.length > 0 ? bitrateData[bitrateData.length - 1] : null;
+
+  const toggleMetric = (metric: TelemetryMetric) => {
+    setSelectedMetrics(prev => toggleTelemetryMetric(prev, metric));
+  };
+
+  // Resolution changes are marked on the first plotted series
+  const changeIndices = new Set(resolutionChanges.map(change => change.index));
+  const markerMetric = shownMetrics[0];
+  const showResolutionMarkers = !compact && resolutionChanges.length > 0;
+
   // Prepare chart data
-  const chartData = {
+  const chartData: ChartData<'line', (number | null)[]> = {
     labels: bitrateData.map(point => {
       const date = new Date(point.timestamp);
       return date.toLocaleTimeString('en-US', { 
@@ -408,25 +590,47 @@ export default function BitrateGraph({
       });
     }),
     datasets: [
-      {
-        label: 'Bitrate (kbps)',
-        data: bitrateData.map(point => point.bitrate),
-        borderColor: '#3b82f6',
-        backgroundColor: isDarkMode 
-          ? 'rgba(59, 130, 246, 0.1)' 
-          : 'rgba(59, 130, 246, 0.05)',
-        borderWidth: 2,
-        fill: true,
-        tension: 0.2,
-        pointRadius: 0,
-        pointHoverRadius: 6,
-        pointHoverBackgroundColor: '#3b82f6',
-        pointHoverBorderColor: '#ffffff',
-        pointHoverBorderWidth: 2,
-      }
+      ...shownMetrics.map(metric => {
+        const { label, unit, color } = TELEMETRY_METRICS[metric];
+        const isBitrate = metric === 'bitrate';
+        return {
+          label: `${label} (${unit})`,
+          data: bitrateData.map(point => point[metric] ?? null),
+          yAxisID: `y-${metric}`,
+          borderColor: color,
+          backgroundColor: isBitrate
+            ? isDarkMode ? 'rgba(59, 130, 246, 0.1)' : 'rgba(59, 130, 246, 0.05)'
+            : color,
+          borderWidth: 2,
+          // Filling several series would hide the ones underneath
+          fill: isBitrate && shownMetrics.length === 1,
+          // Keyframe interval and dropped frames are counts, not a trend
+          stepped: metric === 'keyframeInterval' || metric === 'droppedFrames',
+          spanGaps: true,
+          tension: 0.2,
+          pointRadius: 0,
+          pointHoverRadius: 6,
+          pointHoverBackgroundColor: color,
+          pointHoverBorderColor: '#ffffff',
+          pointHoverBorderWidth: 2,
+        };
+      }),
+      ...(showResolutionMarkers ? [{
+        label: 'Resolution change',
+        data: bitrateData.map((point, index) => (changeIndices.has(index) ? point[markerMetric] ?? null : null)),
+        yAxisID: `y-${markerMetric}`,
+        borderColor: '#ec4899',
+        backgroundColor: '#ec4899',
+        showLine: false,
+        pointStyle: 'triangle' as const,
+        pointRadius: 7,
+        pointHoverRadius: 9,
+      }] : []),
     ]
   };
 
+  const metricScales = buildTelemetryScales(shownMetrics, { isDarkMode, compact });
+
   // Chart options
   const chartOptions: ChartOptions<'line'> = {
     responsive: true,
@@ -446,7 +650,9 @@ export default function BitrateGraph({
         bodyColor: isDarkMode ? '#e5e7eb' : '#374151',
         borderColor: isDarkMode ? '#374151' : '#d1d5db',
         borderWidth: 1,
-        displayColors: false,
+        displayColors: chartData.datasets.length > 1,
+        // Gaps and the resolution markers between changes have no value to show
+        filter: (tooltipItem: TooltipItem<'line'>) => tooltipItem.parsed.y !== null && !Number.isNaN(tooltipItem.parsed.y),
         callbacks: {
           title: (tooltipItems: TooltipItem<'line'>[]) => {
             if (tooltipItems.length > 0) {
@@ -464,7 +670,21 @@ export default function BitrateGraph({
             return '';
           },
           label: (context: TooltipItem<'line'>) => {
-            return `Bitrate: ${formatBitrate(context.parsed.y)}`;
+            const metric = shownMetrics[context.datasetIndex];
+            if (!metric) {
+              const change = resolutionChanges.find(item => item.index === context.dataIndex);
+              return change ? `Resolution: ${change.from} → ${change.to}` : '';
+            }
+            const value = formatTelemetryValue(metric, context.parsed.y ?? 0);
+            return metric === 'bitrate' && shownMetrics.length === 1
+              ? `Bitrate: ${value}`
+              : `${TELEMETRY_METRICS[metric].label}: ${value}${metric === 'fps' || metric === 'droppedFrames' ? ` ${TELEMETRY_METRICS[metric].unit}` : ''}`;
+          },
+          footer: (tooltipItems: TooltipItem<'line'>[]) => {
+            if (compact || tooltipItems.length === 0) return '';
+            const point = bitrateData[tooltipItems[0].dataIndex];
+            const resolution = point ? formatResolution(point) : null;
+            return resolution ?? '';
           },
         },
       },
@@ -483,23 +703,7 @@ export default function BitrateGraph({
           maxTicksLimit: compact ? 3 : 6,
         },
       },
-      y: {
-        display: !compact,
-        beginAtZero: true,
-        grid: {
-          color: isDarkMode ? '#374151' : '#e5e7eb',
-        },
-        ticks: {
-          color: isDarkMode ? '#9ca3af' : '#6b7280',
-          font: {
-            size: compact ? 10 : 12,
-          },
-          callback: function(value) {
-            return formatBitrate(Number(value));
-          },
-          maxTicksLimit: compact ? 3 : 5,
-        },
-      },
+      ...metricScales,
     },
     animation: {
       duration: 750,
@@ -512,6 +716,45 @@ export default function BitrateGraph({
     },
   };
 
+  const latestTimestamp = bitrateData.length > 0 ? bitrateData[bitrateData.length - 1].timestamp : Date.now();
+
+  // Banner for incidents that are still going on
+  const alertBanner = activeAlerts.length > 0 && (
+    <div className="space-y-2 mb-4">
+      {activeAlerts.map(incident => (
+        <div
+          key={incident.id}
+          role="alert"
+          className={`flex items-start justify-between gap-3 p-3 rounded-md text-sm ${
+            isDarkMode ? 'bg-red-900/20 border border-red-800 text-red-400' : 'bg-red-50 border border-red-200 text-red-700'
+          }`}
+        >
+          <div>
+            <div className="font-semibold">
+              {incident.kind === 'no_signal' ? 'No video signal' : 'Stream quality is poor'}
+            </div>
+            {!compact && (
+              <div>
+                {incident.kind === 'no_signal'
+                  ? `Bitrate has been 0 kbps since ${formatTelemetryTime(incident.startedAt)}. Check your encoder and network connection.`
+                  : `Bitrate is averaging below ${formatBitrate(healthSettings.minimumKbps)}bps or dropping often. Viewers may see buffering.`}
+              </div>
+            )}
+          </div>
+          <button
+            onClick={() => setDismissedIncidentIds(prev => [...prev, incident.id])}
+            className="flex-shrink-0 opacity-75 hover:opacity-100"
+            aria-label="Dismiss alert"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+
   // Status indicator component
   const StatusIndicator = () => {
     if (!isLive) return null;
@@ -559,6 +802,8 @@ export default function BitrateGraph({
 
           {isLive && streamUsername ? (
             <>
+              {alertBanner}
+
               {/* Quality Indicator */}
               <div className="mb-2">
                 <div className={`inline-flex items-center space-x-2 px-2 py-1 rounded-full text-xs ${
@@ -631,6 +876,20 @@ export default function BitrateGraph({
             </h3>
             <div className="flex items-center space-x-3">
               <StatusIndicator />
+              {token && (
+                <button
+                  onClick={() => setShowAlertSettings(!showAlertSettings)}
+                  className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+                    showAlertSettings
+                      ? 'bg-blue-600 text-white'
+                      : isDarkMode
+                        ? 'bg-gray-800 text-gray-300 hover:bg-gray-700 hover:text-white'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  Alert settings
+                </button>
+              )}
               {isLive && (
                 <div className={`flex items-center space-x-2 px-2 py-1 rounded-full text-xs ${
                   isDarkMode ? 'bg-red-900 text-red-300' : 'bg-red-100 text-red-700'
@@ -644,8 +903,103 @@ export default function BitrateGraph({
         </div>
 
         <div className="p-4">
+          {/* Alert Settings */}
+          {showAlertSettings && (
+            <form onSubmit={saveAlertSettings} className={`mb-6 p-4 rounded-lg border space-y-4 ${
+              isDarkMode ? 'border-gray-800 bg-gray-950' : 'border-gray-200 bg-gray-50'
+            }`}>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                  <label htmlFor="health-good-kbps" className={`block text-sm font-medium mb-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                    Good above (kbps)
+                  </label>
+                  <input
+                    id="health-good-kbps"
+                    type="number"
+                    min={1}
+                    step={100}
+                    value={settingsDraft.goodKbps}
+                    onChange={(e) => setSettingsDraft(prev => ({ ...prev, goodKbps: Number(e.target.value) }))}
+                    className={`w-full px-3 py-2 rounded-md border text-sm ${
+                      isDarkMode ? 'bg-gray-800 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+                    } focus:outline-none focus:ring-2 focus:ring-blue-500`}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="health-minimum-kbps" className={`block text-sm font-medium mb-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                    Poor below (kbps)
+                  </label>
+                  <input
+                    id="health-minimum-kbps"
+                    type="number"
+                    min={1}
+                    step={100}
+                    value={settingsDraft.minimumKbps}
+                    onChange={(e) => setSettingsDraft(prev => ({ ...prev, minimumKbps: Number(e.target.value) }))}
+                    className={`w-full px-3 py-2 rounded-md border text-sm ${
+                      isDarkMode ? 'bg-gray-800 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+                    } focus:outline-none focus:ring-2 focus:ring-blue-500`}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="health-zero-seconds" className={`block text-sm font-medium mb-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                    No signal after (s)
+                  </label>
+                  <input
+                    id="health-zero-seconds"
+                    type="number"
+                    min={1}
+                    value={settingsDraft.zeroBitrateSeconds}
+                    onChange={(e) => setSettingsDraft(prev => ({ ...prev, zeroBitrateSeconds: Number(e.target.value) }))}
+                    className={`w-full px-3 py-2 rounded-md border text-sm ${
+                      isDarkMode ? 'bg-gray-800 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+                    } focus:outline-none focus:ring-2 focus:ring-blue-500`}
+                  />
+                </div>
+              </div>
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="flex items-center gap-4">
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={settingsDraft.soundEnabled}
+                      onChange={(e) => setSettingsDraft(prev => ({ ...prev, soundEnabled: e.target.checked }))}
+                      className="h-4 w-4 rounded text-blue-600 focus:ring-blue-500"
+                    />
+                    <span className={`text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>Play a sound on alerts</span>
+                  </label>
+                  <button
+                    type="button"
+                    onClick={playIngestAlertSound}
+                    className="text-sm font-medium text-blue-500 hover:text-blue-400"
+                  >
+                    Test sound
+                  </button>
+                </div>
+                <button
+                  type="submit"
+                  disabled={savingSettings}
+                  className="px-4 py-2 rounded-md text-sm font-semibold bg-blue-600 text-white hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  {savingSettings ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+              {settingsMessage && (
+                <div className={`p-3 rounded-md text-sm ${
+                  settingsMessage.type === 'success'
+                    ? isDarkMode ? 'bg-green-900/20 border border-green-800 text-green-400' : 'bg-green-50 border border-green-200 text-green-700'
+                    : isDarkMode ? 'bg-red-900/20 border border-red-800 text-red-400' : 'bg-red-50 border border-red-200 text-red-700'
+                }`}>
+                  {settingsMessage.text}
+                </div>
+              )}
+            </form>
+          )}
+
           {isLive && streamUsername ? (
             <>
+              {alertBanner}
+
               {/* Quality Status and Data Points */}
               <div className="mb-6">
                 <div className="flex items-center justify-between mb-4">
@@ -676,8 +1030,64 @@ export default function BitrateGraph({
                     {bitrateData.length} data points
                   </div>
                 </div>
+
+                {/* Latest encoder readings */}
+                {latestPoint && availableMetrics.length > 1 && (
+                  <div className={`flex flex-wrap gap-x-4 gap-y-1 text-sm ${
+                    isDarkMode ? 'text-gray-400' : 'text-gray-600'
+                  }`}>
+                    {formatResolution(latestPoint) && <span>{formatResolution(latestPoint)}</span>}
+                    {latestPoint.fps !== undefined && <span>{formatTelemetryValue('fps', latestPoint.fps)} fps</span>}
+                    {latestPoint.keyframeInterval !== undefined && <span>Keyframes every {formatTelemetryValue('keyframeInterval', latestPoint.keyframeInterval)}</span>}
+                    {latestPoint.audioBitrate !== undefined && <span>Audio {formatBitrate(latestPoint.audioBitrate)}bps</span>}
+                    {latestPoint.droppedFrames !== undefined && <span>{formatTelemetryValue('droppedFrames', latestPoint.droppedFrames)} dropped</span>}
+                  </div>
+                )}
+
+                {/* Encoder misconfiguration warnings */}
+                {telemetryWarnings.length > 0 && (
+                  <div className="space-y-2 mt-4">
+                    {telemetryWarnings.map(warning => (
+                      <div
+                        key={warning.id}
+                        className={`p-3 rounded-md text-sm ${
+                          isDarkMode ? 'bg-yellow-900/20 border border-yellow-800 text-yellow-400' : 'bg-yellow-50 border border-yellow-200 text-yellow-700'
+                        }`}
+                      >
+                        {warning.message}
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
 
+              {/* Metric Selector */}
+              {availableMetrics.length > 1 && (
+                <div className="flex flex-wrap gap-2 mb-3" role="group" aria-label="Metrics to plot">
+                  {availableMetrics.map(metric => {
+                    const selected = shownMetrics.includes(metric);
+                    return (
+                      <button
+                        key={metric}
+                        onClick={() => toggleMetric(metric)}
+                        aria-pressed={selected}
+                        className={`inline-flex items-center gap-2 px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                          selected
+                            ? isDarkMode ? 'bg-gray-800 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+                            : isDarkMode ? 'border-gray-800 text-gray-500 hover:text-gray-300' : 'border-gray-200 text-gray-400 hover:text-gray-700'
+                        }`}
+                      >
+                        <span
+                          className="w-2 h-2 rounded-full"
+                          style={{ backgroundColor: selected ? TELEMETRY_METRICS[metric].color : 'transparent', border: `1px solid ${TELEMETRY_METRICS[metric].color}` }}
+                        />
+                        {TELEMETRY_METRICS[metric].label}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+
               {/* Chart */}
               <div className={`relative h-80 rounded-lg border ${
                 isDarkMode ? 'border-gray-800 bg-gray-950' : 'border-gray-200 bg-gray-50'
@@ -716,7 +1126,69 @@ export default function BitrateGraph({
               <div className={`mt-3 text-xs text-center ${
                 isDarkMode ? 'text-gray-500' : 'text-gray-600'
               }`}>
-                Real-time bitrate monitoring via WebSocket • Last 5 minutes
+                Real-time ingest telemetry via WebSocket • Last 5 minutes
+              </div>
+
+              {/* Resolution Changes */}
+              {resolutionChanges.length > 0 && (
+                <div className="mt-6">
+                  <h4 className={`text-sm font-semibold mb-2 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+                    Resolution Changes
+                  </h4>
+                  <ul className={`divide-y rounded-lg border text-sm ${
+                    isDarkMode ? 'divide-gray-800 border-gray-800' : 'divide-gray-200 border-gray-200'
+                  }`}>
+                    {[...resolutionChanges].reverse().map(change => (
+                      <li key={`${change.timestamp}-${change.to}`} className="flex items-center justify-between gap-3 px-3 py-2">
+                        <span className={`font-medium ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+                          {change.from} → {change.to}
+                        </span>
+                        <span className={isDarkMode ? 'text-gray-500' : 'text-gray-400'}>
+                          at {formatTelemetryTime(change.timestamp)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Incident Log */}
+              <div className="mt-6">
+                <h4 className={`text-sm font-semibold mb-2 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+                  Health Incidents This Broadcast
+                </h4>
+                {incidents.length === 0 ? (
+                  <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                    No incidents so far.
+                  </p>
+                ) : (
+                  <ul className={`divide-y rounded-lg border text-sm ${
+                    isDarkMode ? 'divide-gray-800 border-gray-800' : 'divide-gray-200 border-gray-200'
+                  }`}>
+                    {[...incidents].reverse().map(incident => (
+                      <li key={incident.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                        <div className="flex items-center gap-2">
+                          <div className={`w-2 h-2 rounded-full ${incident.kind === 'no_signal' ? 'bg-red-500' : 'bg-yellow-500'}`} />
+                          <span className={`font-medium ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+                            {INCIDENT_LABELS[incident.kind]}
+                          </span>
+                          <span className={isDarkMode ? 'text-gray-500' : 'text-gray-400'}>
+                            at {formatTelemetryTime(incident.startedAt)}
+                          </span>
+                        </div>
+                        <div className={`text-right ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                          {incident.endedAt === undefined ? (
+                            <span className="text-red-500 font-medium">Ongoing</span>
+                          ) : (
+                            formatIncidentDuration(incident.endedAt - incident.startedAt)
+                          )}
+                          {incident.endedAt === undefined && ` • ${formatIncidentDuration(latestTimestamp - incident.startedAt)}`}
+                          {' • '}low {formatBitrate(incident.lowestKbps)}bps
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
             </>
           ) : (
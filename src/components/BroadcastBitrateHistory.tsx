@@ -0,0 +1,448 @@
+import { useContext, useEffect, useRef, useState } from 'react';
+import { Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Filler,
+  type ChartData,
+  type ChartOptions,
+  type TooltipItem
+} from 'chart.js';
+import { useDarkMode } from '../contexts/DarkModeContext';
+import AuthContext from '../contexts/AuthContext';
+import {
+  MAX_KEYFRAME_INTERVAL_SECONDS,
+  TELEMETRY_METRICS,
+  TELEMETRY_METRIC_ORDER,
+  buildTelemetryCsv,
+  buildTelemetryJson,
+  buildTelemetryScales,
+  downsampleTelemetry,
+  formatBitrate,
+  formatResolution,
+  formatTelemetryTime,
+  formatTelemetryValue,
+  getBroadcastTelemetry,
+  getResolutionChanges,
+  hasTelemetryMetric,
+  toggleTelemetryMetric,
+  type BroadcastTelemetrySource,
+  type TelemetryMetric,
+  type TelemetryPoint,
+} from '../services/ingestTelemetry';
+import { downloadFile } from '../services/download';
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Filler
+);
+
+// More points than this are thinned before charting; exports keep every reading
+const MAX_CHART_POINTS = 600;
+// Narrowest range a drag can zoom into
+const MIN_ZOOM_POINTS = 5;
+
+interface BroadcastBitrateHistoryProps {
+  source: BroadcastTelemetrySource;
+  // Broadcast title, used for export file names
+  title: string;
+  className?: string;
+}
+
+const formatDuration = (milliseconds: number): string => {
+  const totalSeconds = Math.max(0, Math.round(milliseconds / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}h ${minutes.toString().padStart(2, '0')}m`;
+  if (minutes > 0) return `${minutes}m ${seconds.toString().padStart(2, '0')}s`;
+  return `${seconds}s`;
+};
+
+const toFileSlug = (title: string) =>
+  title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'broadcast';
+
+// Ingest history for a whole past broadcast: every reading the server kept,
+// with drag-to-zoom and CSV/JSON export for troubleshooting
+export default function BroadcastBitrateHistory({ source, title, className = '' }: BroadcastBitrateHistoryProps) {
+  const { isDarkMode } = useDarkMode();
+  const { token } = useContext(AuthContext);
+  const [points, setPoints] = useState<TelemetryPoint[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [selectedMetrics, setSelectedMetrics] = useState<TelemetryMetric[]>(['bitrate']);
+  // Zoomed time range (inclusive timestamps); null shows the whole broadcast
+  const [range, setRange] = useState<{ start: number; end: number } | null>(null);
+  // Drag selection in pixels from the chart's left edge
+  const [dragSelection, setDragSelection] = useState<{ from: number; to: number } | null>(null);
+  const chartRef = useRef<ChartJS<'line', (number | null)[], string>>(null);
+  const chartAreaRef = useRef<HTMLDivElement>(null);
+
+  const videoId = 'videoId' in source ? source.videoId : undefined;
+  const streamUsername = 'username' in source ? source.username : undefined;
+  const streamId = 'streamId' in source ? source.streamId : undefined;
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    setLoading(true);
+    setError('');
+    setRange(null);
+
+    const request = videoId
+      ? getBroadcastTelemetry(token, { videoId })
+      : getBroadcastTelemetry(token, { username: streamUsername ?? '', streamId: streamId ?? '' });
+
+    request
+      .then(history => {
+        if (!cancelled) setPoints(history);
+      })
+      .catch(err => {
+        console.error('❌ Failed to load bitrate history:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load bitrate history');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, videoId, streamUsername, streamId]);
+
+  const visiblePoints = range
+    ? points.filter(point => point.timestamp >= range.start && point.timestamp <= range.end)
+    : points;
+  const chartPoints = downsampleTelemetry(visiblePoints, MAX_CHART_POINTS);
+  const availableMetrics = TELEMETRY_METRIC_ORDER.filter(metric => metric === 'bitrate' || hasTelemetryMetric(points, metric));
+  const selectedAvailable = selectedMetrics.filter(metric => availableMetrics.includes(metric));
+  const shownMetrics: TelemetryMetric[] = selectedAvailable.length === 0 ? ['bitrate'] : selectedAvailable;
+
+  const toggleMetric = (metric: TelemetryMetric) => {
+    setSelectedMetrics(prev => toggleTelemetryMetric(prev, metric));
+  };
+
+  // Summary of the range on screen
+  const firstPoint = visiblePoints[0];
+  const lastPoint = visiblePoints[visiblePoints.length - 1];
+  const averageKbps = visiblePoints.length > 0
+    ? visiblePoints.reduce((sum, point) => sum + point.bitrate, 0) / visiblePoints.length
+    : 0;
+  // Reduced rather than spread: a long broadcast has more readings than a call takes arguments
+  const lowestKbps = visiblePoints.length > 0
+    ? visiblePoints.reduce((lowest, point) => Math.min(lowest, point.bitrate), Infinity)
+    : 0;
+  // Time from each zero reading to the next one
+  const noSignalMs = visiblePoints.reduce((sum, point, index) => {
+    const next = visiblePoints[index + 1];
+    return point.bitrate <= 0 && next ? sum + (next.timestamp - point.timestamp) : sum;
+  }, 0);
+  const droppedFrames = visiblePoints.reduce((sum, point) => sum + (point.droppedFrames ?? 0), 0);
+  const longestKeyframeInterval = visiblePoints.reduce<number | undefined>((longest, point) => {
+    if (point.keyframeInterval === undefined) return longest;
+    return longest === undefined ? point.keyframeInterval : Math.max(longest, point.keyframeInterval);
+  }, undefined);
+  const resolutionChanges = getResolutionChanges(visiblePoints);
+
+  // Turn a pixel position over the chart into an index into chartPoints
+  const pixelToIndex = (pixel: number): number | null => {
+    const xScale = chartRef.current?.scales.x;
+    if (!xScale) return null;
+    const value = xScale.getValueForPixel(pixel);
+    if (value === undefined) return null;
+    return Math.min(chartPoints.length - 1, Math.max(0, Math.round(value)));
+  };
+
+  const getChartX = (event: React.MouseEvent<HTMLDivElement>) => {
+    const rect = chartAreaRef.current?.getBoundingClientRect();
+    return rect ? event.clientX - rect.left : 0;
+  };
+
+  const finishDrag = () => {
+    if (!dragSelection) return;
+    setDragSelection(null);
+    const startIndex = pixelToIndex(Math.min(dragSelection.from, dragSelection.to));
+    const endIndex = pixelToIndex(Math.max(dragSelection.from, dragSelection.to));
+    if (startIndex === null || endIndex === null) return;
+    const start = chartPoints[startIndex].timestamp;
+    const end = chartPoints[endIndex].timestamp;
+    // A click or tiny drag isn't a zoom
+    if (visiblePoints.filter(point => point.timestamp >= start && point.timestamp <= end).length < MIN_ZOOM_POINTS) return;
+    setRange({ start, end });
+  };
+
+  const zoomOut = () => {
+    if (!range || points.length === 0) return;
+    const span = range.end - range.start;
+    const start = range.start - span / 2;
+    const end = range.end + span / 2;
+    if (start <= points[0].timestamp && end >= points[points.length - 1].timestamp) {
+      setRange(null);
+      return;
+    }
+    setRange({ start, end });
+  };
+
+  const exportSeries = (type: 'csv' | 'json') => {
+    if (visiblePoints.length === 0) return;
+    const date = new Date(visiblePoints[0].timestamp).toISOString().slice(0, 10);
+    const filename = `bitrate-${toFileSlug(title)}-${date}${range ? '-selection' : ''}.${type}`;
+    if (type === 'csv') {
+      downloadFile(filename, buildTelemetryCsv(visiblePoints), 'text/csv;charset=utf-8');
+    } else {
+      downloadFile(filename, buildTelemetryJson(visiblePoints), 'application/json;charset=utf-8');
+    }
+  };
+
+  const chartData: ChartData<'line', (number | null)[], string> = {
+    labels: chartPoints.map(point => formatTelemetryTime(point.timestamp)),
+    datasets: shownMetrics.map(metric => {
+      const { label, unit, color } = TELEMETRY_METRICS[metric];
+      const isBitrate = metric === 'bitrate';
+      return {
+        label: `${label} (${unit})`,
+        data: chartPoints.map(point => point[metric] ?? null),
+        yAxisID: `y-${metric}`,
+        borderColor: color,
+        backgroundColor: isBitrate
+          ? isDarkMode ? 'rgba(59, 130, 246, 0.1)' : 'rgba(59, 130, 246, 0.05)'
+          : color,
+        borderWidth: 2,
+        fill: isBitrate && shownMetrics.length === 1,
+        stepped: metric === 'keyframeInterval' || metric === 'droppedFrames',
+        spanGaps: true,
+        tension: 0.2,
+        pointRadius: 0,
+        pointHoverRadius: 5,
+      };
+    }),
+  };
+
+  const metricScales = buildTelemetryScales(shownMetrics, { isDarkMode });
+
+  const chartOptions: ChartOptions<'line'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    // Whole broadcasts are long; skip the redraw animation on zoom
+    animation: false,
+    interaction: {
+      intersect: false,
+      mode: 'index',
+    },
+    plugins: {
+      legend: {
+        display: false,
+      },
+      tooltip: {
+        backgroundColor: isDarkMode ? '#1f2937' : '#ffffff',
+        titleColor: isDarkMode ? '#e5e7eb' : '#374151',
+        bodyColor: isDarkMode ? '#e5e7eb' : '#374151',
+        footerColor: isDarkMode ? '#9ca3af' : '#6b7280',
+        borderColor: isDarkMode ? '#374151' : '#d1d5db',
+        borderWidth: 1,
+        displayColors: shownMetrics.length > 1,
+        filter: (tooltipItem: TooltipItem<'line'>) => tooltipItem.parsed.y !== null && !Number.isNaN(tooltipItem.parsed.y),
+        callbacks: {
+          label: (context: TooltipItem<'line'>) => {
+            const metric = shownMetrics[context.datasetIndex];
+            return `${TELEMETRY_METRICS[metric].label}: ${formatTelemetryValue(metric, context.parsed.y ?? 0)}`;
+          },
+          footer: (tooltipItems: TooltipItem<'line'>[]) => {
+            const point = tooltipItems.length > 0 ? chartPoints[tooltipItems[0].dataIndex] : undefined;
+            return point ? formatResolution(point) ?? '' : '';
+          },
+        },
+      },
+    },
+    scales: {
+      x: {
+        grid: {
+          color: isDarkMode ? '#374151' : '#e5e7eb',
+        },
+        ticks: {
+          color: isDarkMode ? '#9ca3af' : '#6b7280',
+          maxTicksLimit: 8,
+        },
+      },
+      ...metricScales,
+    },
+  };
+
+  const secondaryButtonClassName = `px-3 py-1 rounded-md text-xs font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+    isDarkMode
+      ? 'bg-gray-800 text-gray-300 hover:bg-gray-700 hover:text-white'
+      : 'bg-gray-100 text-gray-700 hover:bg-gray-200 hover:text-gray-900'
+  }`;
+
+  const statClassName = `p-3 rounded-lg border ${isDarkMode ? 'border-gray-800 bg-gray-950' : 'border-gray-200 bg-gray-50'}`;
+  const statLabelClassName = `text-xs ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`;
+  const statValueClassName = `text-sm font-semibold ${isDarkMode ? 'text-white' : 'text-gray-900'}`;
+
+  if (loading) {
+    return (
+      <div className={`py-12 text-center ${className}`}>
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mx-auto mb-2"></div>
+        <div className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+          Loading bitrate history...
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className={`p-3 rounded-md text-sm ${
+        isDarkMode ? 'bg-red-900/20 border border-red-800 text-red-400' : 'bg-red-50 border border-red-200 text-red-700'
+      } ${className}`}>
+        {error}
+      </div>
+    );
+  }
+
+  if (points.length === 0) {
+    return (
+      <p className={`py-8 text-sm text-center ${isDarkMode ? 'text-gray-400' : 'text-gray-600'} ${className}`}>
+        No bitrate readings were recorded for this broadcast.
+      </p>
+    );
+  }
+
+  return (
+    <div className={className}>
+      {/* Range and actions */}
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <div className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+          {firstPoint && lastPoint && (
+            <>
+              {formatTelemetryTime(firstPoint.timestamp)} – {formatTelemetryTime(lastPoint.timestamp)}
+              {' • '}{formatDuration(lastPoint.timestamp - firstPoint.timestamp)}
+              {range ? ' selected' : ' (whole broadcast)'}
+            </>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={zoomOut} disabled={!range} className={secondaryButtonClassName}>
+            Zoom out
+          </button>
+          <button onClick={() => setRange(null)} disabled={!range} className={secondaryButtonClassName}>
+            Reset zoom
+          </button>
+          <button onClick={() => exportSeries('csv')} className={secondaryButtonClassName}>
+            Export CSV
+          </button>
+          <button onClick={() => exportSeries('json')} className={secondaryButtonClassName}>
+            Export JSON
+          </button>
+        </div>
+      </div>
+
+      {/* Metric Selector */}
+      {availableMetrics.length > 1 && (
+        <div className="flex flex-wrap gap-2 mb-3" role="group" aria-label="Metrics to plot">
+          {availableMetrics.map(metric => {
+            const selected = shownMetrics.includes(metric);
+            return (
+              <button
+                key={metric}
+                onClick={() => toggleMetric(metric)}
+                aria-pressed={selected}
+                className={`inline-flex items-center gap-2 px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                  selected
+                    ? isDarkMode ? 'bg-gray-800 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+                    : isDarkMode ? 'border-gray-800 text-gray-500 hover:text-gray-300' : 'border-gray-200 text-gray-400 hover:text-gray-700'
+                }`}
+              >
+                <span
+                  className="w-2 h-2 rounded-full"
+                  style={{ backgroundColor: selected ? TELEMETRY_METRICS[metric].color : 'transparent', border: `1px solid ${TELEMETRY_METRICS[metric].color}` }}
+                />
+                {TELEMETRY_METRICS[metric].label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Chart; drag across it to zoom in */}
+      <div className={`rounded-lg border p-4 ${
+        isDarkMode ? 'border-gray-800 bg-gray-950' : 'border-gray-200 bg-gray-50'
+      }`}>
+        <div
+          ref={chartAreaRef}
+          className="relative h-72 cursor-crosshair select-none"
+          onMouseDown={(e) => {
+            const x = getChartX(e);
+            setDragSelection({ from: x, to: x });
+          }}
+          onMouseMove={(e) => {
+            if (!dragSelection) return;
+            const x = getChartX(e);
+            setDragSelection(prev => (prev ? { ...prev, to: x } : prev));
+          }}
+          onMouseUp={finishDrag}
+          onMouseLeave={finishDrag}
+        >
+          <Line ref={chartRef} data={chartData} options={chartOptions} />
+          {dragSelection && (
+            <div
+              className="absolute top-0 bottom-0 bg-blue-500/20 border-x border-blue-500 pointer-events-none"
+              style={{
+                left: Math.min(dragSelection.from, dragSelection.to),
+                width: Math.abs(dragSelection.to - dragSelection.from),
+              }}
+            />
+          )}
+        </div>
+      </div>
+      <div className={`mt-2 text-xs text-center ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+        Drag across the chart to zoom in. Exports include every reading in the range shown.
+      </div>
+
+      {/* Range Summary */}
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3 mt-4">
+        <div className={statClassName}>
+          <div className={statLabelClassName}>Average bitrate</div>
+          <div className={statValueClassName}>{formatBitrate(averageKbps)}bps</div>
+        </div>
+        <div className={statClassName}>
+          <div className={statLabelClassName}>Lowest bitrate</div>
+          <div className={statValueClassName}>{formatBitrate(lowestKbps)}bps</div>
+        </div>
+        <div className={statClassName}>
+          <div className={statLabelClassName}>Without signal</div>
+          <div className={`text-sm font-semibold ${noSignalMs > 0 ? 'text-red-500' : isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+            {formatDuration(noSignalMs)}
+          </div>
+        </div>
+        <div className={statClassName}>
+          <div className={statLabelClassName}>Dropped frames</div>
+          <div className={statValueClassName}>
+            {hasTelemetryMetric(visiblePoints, 'droppedFrames') ? droppedFrames.toLocaleString() : '—'}
+          </div>
+        </div>
+        <div className={statClassName}>
+          <div className={statLabelClassName}>Longest keyframe interval</div>
+          <div className={`text-sm font-semibold ${
+            longestKeyframeInterval !== undefined && longestKeyframeInterval > MAX_KEYFRAME_INTERVAL_SECONDS
+              ? 'text-yellow-500'
+              : isDarkMode ? 'text-white' : 'text-gray-900'
+          }`}>
+            {longestKeyframeInterval !== undefined ? formatTelemetryValue('keyframeInterval', longestKeyframeInterval) : '—'}
+          </div>
+        </div>
+        <div className={statClassName}>
+          <div className={statLabelClassName}>Resolution changes</div>
+          <div className={statValueClassName}>{resolutionChanges.length}</div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,28 @@
-import { useEffect, useState, useRef, useContext } from 'react';
+import { useEffect, useState, useRef, useContext, useMemo } from 'react';
 import { io, Socket } from 'socket.io-client';
 import { Link } from 'react-router-dom';
 import { useDarkMode } from '../contexts/DarkModeContext';
 import AuthContext from '../contexts/AuthContext';
+import {
+  getChatModes,
+  DEFAULT_CHAT_MODES,
+  DEFAULT_CHAT_OVERLAY_OPTIONS,
+  type ChatModes,
+  type ChatOverlayOptions,
+  type ChatReplayMessage,
+} from '../services/chatApi';
+import { checkFollowStatus, getUserSubscriptions, createStreamMarker } from '../services/streamApi';
+import { formatTimestamp } from '../services/timestamps';
+import { getGlobalEmotes, getChannelEmotes, buildEmoteMap, tokenizeEmotes, type Emote } from '../services/emoteApi';
+import EmotePicker from './EmotePicker';
+import ChatMessageList, { type ChatMessageListHandle } from './ChatMessageList';
+
+// Snapshot of the message being replied to, quoted above the reply
+type ChatReply = {
+  id: string;
+  username: string;
+  message: string;
+};
 
 type ChatMessage = {
   id: string;
@@ -12,16 +32,186 @@ type ChatMessage = {
   isStreamer?: boolean;
   isModerator?: boolean;
   isSystem?: boolean;
+  // Removed by a moderator; rendered as a placeholder instead of the text
+  isDeleted?: boolean;
+  replyTo?: ChatReply;
+  // Replay only: seconds into the broadcast, shown instead of the wall-clock time
+  offsetSeconds?: number;
+};
+
+// Message payload as sent by the chat server in new_message, joined_stream and previous-messages
+type RawChatMessage = {
+  id?: string;
+  username?: string;
+  message?: string;
+  timestamp?: string | number;
+  isStreamer?: boolean;
+  isModerator?: boolean;
+  isSystem?: boolean;
+  isDeleted?: boolean;
+  replyTo?: ChatReply;
+  // Older servers only echo the parent id; we resolve it from the messages we have
+  replyToId?: string;
+};
+
+// Moderation events broadcast to the stream room
+type ModerationEvent = {
+  username?: string;
+  messageId?: string;
+  moderator?: string;
+  duration?: number; // seconds, for timeouts
+  message?: string;
+};
+
+// Older messages are dropped once the buffer is full
+const MAX_CHAT_MESSAGES = 500;
+
+const appendMessages = (prev: ChatMessage[], added: ChatMessage[]): ChatMessage[] => {
+  const next = [...prev, ...added];
+  return next.length > MAX_CHAT_MESSAGES ? next.slice(-MAX_CHAT_MESSAGES) : next;
+};
+
+const TIMEOUT_OPTIONS = [
+  { label: '1m', seconds: 60 },
+  { label: '10m', seconds: 10 * 60 },
+  { label: '1h', seconds: 60 * 60 },
+];
+
+// Longest delay setTimeout accepts (about 24 days)
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+// Messages the server sent without an id still need a unique list key
+let localMessageCount = 0;
+
+const toChatMessage = (msg: RawChatMessage): ChatMessage => ({
+  id: msg.id || `local-${Date.now()}-${++localMessageCount}`,
+  username: msg.username || 'Unknown',
+  message: msg.message || '',
+  timestamp: new Date(msg.timestamp || Date.now()),
+  isStreamer: msg.isStreamer || false,
+  isModerator: msg.isModerator || false,
+  isSystem: msg.isSystem || false,
+  isDeleted: msg.isDeleted || false,
+  replyTo: msg.replyTo
+});
+
+const createSystemMessage = (message: string): ChatMessage => ({
+  id: `system-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  username: 'System',
+  message,
+  timestamp: new Date(),
+  isSystem: true
+});
+
+const formatDuration = (seconds: number): string => {
+  if (seconds >= 3600 && seconds % 3600 === 0) {
+    const hours = seconds / 3600;
+    return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+  }
+  if (seconds >= 60 && seconds % 60 === 0) {
+    const minutes = seconds / 60;
+    return `${minutes} ${minutes === 1 ? 'minute' : 'minutes'}`;
+  }
+  return `${seconds} ${seconds === 1 ? 'second' : 'seconds'}`;
+};
+
+const MAX_MENTION_SUGGESTIONS = 5;
+const MENTION_TOKEN_PATTERN = /(@[A-Za-z0-9_]+)/;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// True when someone else's message @mentions the username or replies to one of their messages
+const mentionsUser = (msg: ChatMessage, username?: string): boolean => {
+  if (!username || msg.isSystem) return false;
+  if (msg.username.toLowerCase() === username.toLowerCase()) return false;
+  if (msg.replyTo?.username.toLowerCase() === username.toLowerCase()) return true;
+  return new RegExp(`(^|[^A-Za-z0-9_])@${escapeRegExp(username)}(?![A-Za-z0-9_])`, 'i').test(msg.message);
+};
+
+// Usernames of people who chatted recently, most recent first
+const getRecentChatters = (messages: ChatMessage[], exclude?: string): string[] => {
+  const seen = new Set<string>();
+  const chatters: string[] = [];
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const { username, isSystem } = messages[i];
+    const key = username.toLowerCase();
+    if (isSystem || seen.has(key) || key === exclude?.toLowerCase()) continue;
+    seen.add(key);
+    chatters.push(username);
+  }
+  return chatters;
+};
+
+// The partial @mention being typed at the caret, if any
+const getMentionQuery = (text: string, caret: number): { query: string; start: number } | null => {
+  const match = text.slice(0, caret).match(/(^|\s)@([A-Za-z0-9_]*)$/);
+  if (!match) return null;
+  return { query: match[2], start: caret - match[2].length - 1 };
+};
+
+// Emote-only mode: every word must be a known emote or an emoji (pictographs
+// plus joiners, variation selectors, skin tones and flag letters)
+const isEmoteOnlyMessage = (text: string, emotes: Map<string, Emote>): boolean =>
+  tokenizeEmotes(text.trim(), emotes).every(token =>
+    token.type === 'emote' || /^(\p{Extended_Pictographic}|[\u{1F3FB}-\u{1F3FF}]|[\u{1F1E6}-\u{1F1FF}]|\u200d|\ufe0f|\s)+$/u.test(token.text)
+  );
+
+// Human-readable list of what changed between two sets of chat modes
+const describeChatModeChanges = (prev: ChatModes, next: ChatModes): string[] => {
+  const changes: string[] = [];
+  if (prev.slowModeSeconds !== next.slowModeSeconds) {
+    changes.push(next.slowModeSeconds > 0
+      ? `Slow mode is on: one message every ${formatDuration(next.slowModeSeconds)}.`
+      : 'Slow mode is off.');
+  }
+  if (prev.followersOnly !== next.followersOnly || prev.followersOnlyMinutes !== next.followersOnlyMinutes) {
+    if (!next.followersOnly) {
+      changes.push('Followers-only mode is off.');
+    } else {
+      changes.push(next.followersOnlyMinutes > 0
+        ? `Followers-only mode is on: you must follow for ${formatDuration(next.followersOnlyMinutes * 60)} to chat.`
+        : 'Followers-only mode is on.');
+    }
+  }
+  if (prev.subscribersOnly !== next.subscribersOnly) {
+    changes.push(`Subscribers-only mode is ${next.subscribersOnly ? 'on' : 'off'}.`);
+  }
+  if (prev.emoteOnly !== next.emoteOnly) {
+    changes.push(`Emote-only mode is ${next.emoteOnly ? 'on' : 'off'}.`);
+  }
+  return changes;
 };
 
 type ChatComponentProps = {
   streamId: string;
   streamName?: string;
   className?: string;
+  // embedded: next to the player; popout: the standalone /:username/chat window;
+  // overlay: transparent, header-less chat for OBS browser sources;
+  // replay: read-only chat for a past broadcast, rendered from replayMessages
+  variant?: 'embedded' | 'popout' | 'overlay' | 'replay';
+  overlayOptions?: ChatOverlayOptions;
+  replayMessages?: ChatReplayMessage[];
+  // Follow state from the host page's Follow button; a change re-checks followers-only chat
+  isFollowing?: boolean;
 };
 
-export default function ChatComponent({ streamId, streamName, className = '' }: ChatComponentProps) {
-  const { isDarkMode } = useDarkMode();
+export default function ChatComponent({
+  streamId,
+  streamName,
+  className = '',
+  variant = 'embedded',
+  overlayOptions = DEFAULT_CHAT_OVERLAY_OPTIONS,
+  replayMessages,
+  isFollowing,
+}: ChatComponentProps) {
+  const { isDarkMode: isDarkTheme } = useDarkMode();
+  const isOverlay = variant === 'overlay';
+  const isReplay = variant === 'replay';
+  // No replying or moderating from overlays and replays
+  const isReadOnly = isOverlay || isReplay;
+  // Overlays sit on top of video, so they always use the light-on-dark palette
+  const isDarkMode = isDarkTheme || isOverlay;
   const { user, token } = useContext(AuthContext);
   const [socket, setSocket] = useState<Socket | null>(null);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
@@ -30,35 +220,75 @@ export default function ChatComponent({ streamId, streamName, className = '' }:
   const [isLoading, setIsLoading] = useState(true);
   const [hasJoinedStream, setHasJoinedStream] = useState(false);
   const [connectionStatus, setConnectionStatus] = useState<'connected' | 'disconnected' | 'error' | 'session_expired'>('disconnected');
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Moderation: the server tells us on join whether this viewer is a channel moderator
+  const [isChannelModerator, setIsChannelModerator] = useState(false);
+  const [openActionMenuId, setOpenActionMenuId] = useState<string | null>(null);
+  const [bannedUsers, setBannedUsers] = useState<Set<string>>(new Set());
+  const [timeoutEndsAt, setTimeoutEndsAt] = useState<number | null>(null);
+  const [isBanned, setIsBanned] = useState(false);
+  // Chat modes set by the streamer, plus what we need to know to enforce them client-side
+  const [chatModes, setChatModes] = useState<ChatModes>(DEFAULT_CHAT_MODES);
+  const chatModesRef = useRef<ChatModes>(DEFAULT_CHAT_MODES);
+  const [slowModeUntil, setSlowModeUntil] = useState<number | null>(null);
+  const [cooldownSeconds, setCooldownSeconds] = useState(0);
+  const [followInfo, setFollowInfo] = useState<{ isFollowing: boolean; followedAt?: string } | null>(null);
+  const [isSubscriber, setIsSubscriber] = useState<boolean | null>(null);
+  // Bumped when a follower passes the followers-only minimum, so the input unlocks
+  const [followAgeChecks, setFollowAgeChecks] = useState(0);
+  const [globalEmotes, setGlobalEmotes] = useState<Emote[]>([]);
+  const [channelEmotes, setChannelEmotes] = useState<Emote[]>([]);
+  // Mentions and replies
+  const [replyingTo, setReplyingTo] = useState<ChatMessage | null>(null);
+  const [mentionQuery, setMentionQuery] = useState<{ query: string; start: number } | null>(null);
+  const [selectedSuggestionIndex, setSelectedSuggestionIndex] = useState(0);
+  const [unreadMentions, setUnreadMentions] = useState(0);
+  const isScrolledAwayRef = useRef(false);
+  const messageListRef = useRef<ChatMessageListHandle>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const messagesRef = useRef<ChatMessage[]>([]);
-  
+  // Incoming messages are queued and rendered together once per frame
+  const pendingMessagesRef = useRef<ChatMessage[]>([]);
+  const flushFrameRef = useRef<number | null>(null);
 
+  useEffect(() => {
+    messagesRef.current = messages; // Keep ref in sync with state
+  }, [messages]);
 
-  // Auto-scroll to bottom when new messages arrive
-  const scrollToBottom = () => {
-    if (messagesEndRef.current) {
-      // Use scrollIntoView with block: 'nearest' to prevent page scrolling
-      messagesEndRef.current.scrollIntoView({ 
-        behavior: 'smooth', 
-        block: 'nearest',
-        inline: 'nearest'
-      });
+  const flushPendingMessages = () => {
+    if (flushFrameRef.current !== null) {
+      cancelAnimationFrame(flushFrameRef.current);
+      flushFrameRef.current = null;
     }
+    const pending = pendingMessagesRef.current;
+    if (pending.length === 0) return;
+    pendingMessagesRef.current = [];
+    setMessages(prev => appendMessages(prev, pending));
   };
 
-  useEffect(() => {
-    console.log('Messages state updated, length:', messages.length, messages);
-    messagesRef.current = messages; // Keep ref in sync with state
-    scrollToBottom();
-  }, [messages]);
+  const queueMessages = (...added: ChatMessage[]) => {
+    pendingMessagesRef.current = appendMessages(pendingMessagesRef.current, added);
+    if (flushFrameRef.current === null) {
+      flushFrameRef.current = requestAnimationFrame(() => flushPendingMessages());
+    }
+  };
 
+  // Replace the whole buffer, e.g. with chat history on join
+  const resetMessages = (next: ChatMessage[]) => {
+    if (flushFrameRef.current !== null) {
+      cancelAnimationFrame(flushFrameRef.current);
+      flushFrameRef.current = null;
+    }
+    pendingMessagesRef.current = [];
+    setMessages(next.slice(-MAX_CHAT_MESSAGES));
+  };
 
 
 
   // Initialize Socket.IO connection
   useEffect(() => {
+    // Replays are rendered from recorded messages and never join the live room
+    if (isReplay) return;
+
     // Allow connection for non-authenticated users to view chat, but skip auth
     const isAuthenticated = user && token;
 
@@ -118,24 +348,22 @@ export default function ChatComponent({ streamId, streamName, className = '' }:
     });
 
     // Message handlers - listen for the correct backend event names
-    newSocket.on('new_message', (data: any) => {
+    newSocket.on('new_message', (data: RawChatMessage) => {
       console.log('Received new_message event:', data);
-      const newMessage: ChatMessage = {
-        id: data.id || Date.now().toString(),
-        username: data.username || 'Unknown',
-        message: data.message || '',
-        timestamp: new Date(data.timestamp || Date.now()),
-        isStreamer: data.isStreamer || false,
-        isModerator: data.isModerator || false,
-        isSystem: data.isSystem || false
-      };
-      
-      console.log('Adding message to state:', newMessage);
-      setMessages(prev => {
-        const updated = [...prev, newMessage];
-        console.log('Updated messages array:', updated);
-        return updated;
-      });
+      const newMessage = toChatMessage(data);
+      if (!newMessage.replyTo && data.replyToId) {
+        const parent = [...messagesRef.current, ...pendingMessagesRef.current].find(msg => msg.id === data.replyToId);
+        if (parent) {
+          newMessage.replyTo = { id: parent.id, username: parent.username, message: parent.message };
+        }
+      }
+
+      // Count mentions the viewer can't currently see
+      if (mentionsUser(newMessage, user?.username) && (document.hidden || isScrolledAwayRef.current)) {
+        setUnreadMentions(count => count + 1);
+      }
+
+      queueMessages(newMessage);
     });
 
     // Listen for successful room join and chat history
@@ -146,35 +374,26 @@ export default function ChatComponent({ streamId, streamName, className = '' }:
       
       // Mark that we successfully joined the stream
       setHasJoinedStream(true);
+      setIsChannelModerator(Boolean(data?.isModerator || data?.role === 'moderator'));
+      if (Array.isArray(data?.bannedUsers)) {
+        setBannedUsers(new Set<string>(data.bannedUsers.map((name: string) => name.toLowerCase())));
+      }
+      if (data?.chatModes) {
+        applyChatModes({ ...DEFAULT_CHAT_MODES, ...data.chatModes }, false);
+      }
       
       // If there's chat history in the response, load it
       if (data && data.history && Array.isArray(data.history)) {
         console.log('Loading chat history:', data.history);
-        const historyMessages: ChatMessage[] = data.history.map((msg: any) => ({
-          id: msg.id || Date.now().toString(),
-          username: msg.username || 'Unknown',
-          message: msg.message || '',
-          timestamp: new Date(msg.timestamp || Date.now()),
-          isStreamer: msg.isStreamer || false,
-          isModerator: msg.isModerator || false,
-          isSystem: msg.isSystem || false
-        }));
+        const historyMessages: ChatMessage[] = data.history.map(toChatMessage);
         
-        setMessages(historyMessages);
+        resetMessages(historyMessages);
       } else if (data && Array.isArray(data)) {
         // Handle case where data is directly an array of messages
         console.log('Loading chat history (direct array):', data);
-        const historyMessages: ChatMessage[] = data.map((msg: any) => ({
-          id: msg.id || Date.now().toString(),
-          username: msg.username || 'Unknown',
-          message: msg.message || '',
-          timestamp: new Date(msg.timestamp || Date.now()),
-          isStreamer: msg.isStreamer || false,
-          isModerator: msg.isModerator || false,
-          isSystem: msg.isSystem || false
-        }));
+        const historyMessages: ChatMessage[] = data.map(toChatMessage);
         
-        setMessages(historyMessages);
+        resetMessages(historyMessages);
       } else {
         // Add welcome message if no history
         const welcomeMessage = streamName 
@@ -187,7 +406,7 @@ export default function ChatComponent({ streamId, streamName, className = '' }:
           timestamp: new Date(),
           isSystem: true
         };
-        setMessages([systemMessage]);
+        resetMessages([systemMessage]);
       }
     });
 
@@ -212,7 +431,7 @@ export default function ChatComponent({ streamId, streamName, className = '' }:
           timestamp: new Date(),
           isSystem: true
         };
-        setMessages(prev => [...prev, errorMessage]);
+        queueMessages(errorMessage);
       }
     });
 
@@ -235,24 +454,112 @@ export default function ChatComponent({ streamId, streamName, className = '' }:
     });
 
     // Load previous messages if available
-    newSocket.on('previous-messages', (previousMessages: any[]) => {
-      const formattedMessages: ChatMessage[] = previousMessages.map(msg => ({
-        id: msg.id || Date.now().toString(),
-        username: msg.username,
-        message: msg.message,
-        timestamp: new Date(msg.timestamp),
-        isStreamer: msg.isStreamer || false,
-        isModerator: msg.isModerator || false,
-        isSystem: msg.isSystem || false
-      }));
-      setMessages(formattedMessages);
+    newSocket.on('previous-messages', (previousMessages: RawChatMessage[]) => {
+      resetMessages(previousMessages.map(toChatMessage));
+    });
+
+    // Moderation events - the server broadcasts these to everyone in the stream room
+    // Queued messages are flushed first so they're included in the update
+    const purgeUserMessages = (targetUsername: string) => {
+      flushPendingMessages();
+      setMessages(prev => prev.map(msg =>
+        !msg.isSystem && msg.username.toLowerCase() === targetUsername.toLowerCase()
+          ? { ...msg, isDeleted: true }
+          : msg
+      ));
+    };
+    const isCurrentUser = (targetUsername?: string) =>
+      Boolean(user && targetUsername && user.username.toLowerCase() === targetUsername.toLowerCase());
+
+    newSocket.on('message_deleted', (data: ModerationEvent) => {
+      console.log('🛡️ Message deleted:', data);
+      flushPendingMessages();
+      setMessages(prev => prev.map(msg => msg.id === data.messageId ? { ...msg, isDeleted: true } : msg));
+    });
+
+    newSocket.on('user_messages_purged', (data: ModerationEvent) => {
+      console.log('🛡️ User messages purged:', data);
+      if (data.username) purgeUserMessages(data.username);
+    });
+
+    newSocket.on('user_timed_out', (data: ModerationEvent) => {
+      console.log('🛡️ User timed out:', data);
+      if (!data.username) return;
+      const duration = data.duration || 60;
+      purgeUserMessages(data.username);
+      if (isCurrentUser(data.username)) {
+        setTimeoutEndsAt(Date.now() + duration * 1000);
+        queueMessages(createSystemMessage(`You have been timed out for ${formatDuration(duration)}.`));
+      } else {
+        queueMessages(createSystemMessage(`${data.username} has been timed out for ${formatDuration(duration)}.`));
+      }
+    });
+
+    newSocket.on('user_banned', (data: ModerationEvent) => {
+      console.log('🛡️ User banned:', data);
+      if (!data.username) return;
+      const bannedUsername = data.username;
+      purgeUserMessages(bannedUsername);
+      setBannedUsers(prev => new Set(prev).add(bannedUsername.toLowerCase()));
+      if (isCurrentUser(bannedUsername)) {
+        setIsBanned(true);
+        queueMessages(createSystemMessage('You have been banned from this chat.'));
+      } else {
+        queueMessages(createSystemMessage(`${bannedUsername} has been banned.`));
+      }
+    });
+
+    newSocket.on('user_unbanned', (data: ModerationEvent) => {
+      console.log('🛡️ User unbanned:', data);
+      if (!data.username) return;
+      const unbannedUsername = data.username;
+      setBannedUsers(prev => {
+        const next = new Set(prev);
+        next.delete(unbannedUsername.toLowerCase());
+        return next;
+      });
+      if (isCurrentUser(unbannedUsername)) {
+        setIsBanned(false);
+        setTimeoutEndsAt(null);
+        queueMessages(createSystemMessage('You have been unbanned and can chat again.'));
+      } else {
+        queueMessages(createSystemMessage(`${unbannedUsername} has been unbanned.`));
+      }
+    });
+
+    // Chat modes are broadcast to everyone in the room when the streamer changes them
+    newSocket.on('chat_modes_updated', (data: { modes?: Partial<ChatModes> } & Partial<ChatModes>) => {
+      console.log('⚙️ Chat modes updated:', data);
+      applyChatModes({ ...DEFAULT_CHAT_MODES, ...(data.modes ?? data) }, true);
+    });
+
+    // The server enforces chat modes too; show why a message didn't go through
+    newSocket.on('message_rejected', (data: { reason?: string; retryAfter?: number }) => {
+      console.log('🚫 Message rejected:', data);
+      if (data.retryAfter) {
+        setSlowModeUntil(Date.now() + data.retryAfter * 1000);
+      }
+      queueMessages(createSystemMessage(data.reason || 'Your message could not be sent.'));
+    });
+
+    newSocket.on('moderation_error', (data: ModerationEvent) => {
+      console.error('❌ Moderation action failed:', data);
+      queueMessages(createSystemMessage(data.message || 'Moderation action failed.'));
     });
 
     return () => {
       newSocket.close();
+      if (flushFrameRef.current !== null) {
+        cancelAnimationFrame(flushFrameRef.current);
+        flushFrameRef.current = null;
+      }
+      pendingMessagesRef.current = [];
       setHasJoinedStream(false);
+      setIsChannelModerator(false);
+      setIsBanned(false);
+      setTimeoutEndsAt(null);
     };
-  }, [streamId, token, user?.username]);
+  }, [streamId, token, user?.username, isReplay]);
 
   const sendMessage = (e?: React.FormEvent) => {
     if (e) {
@@ -260,7 +567,51 @@ export default function ChatComponent({ streamId, streamName, className = '' }:
       e.stopPropagation();
     }
     
-    if (!socket || !inputMessage.trim() || !isConnected || !user) {
+    if (!socket || !inputMessage.trim() || !isConnected || !user || isMuted) {
+      return;
+    }
+
+    // Enforce chat modes before sending; the streamer and mods are exempt
+    if (!canModerate) {
+      if (chatRestriction || cooldownSeconds > 0) {
+        return;
+      }
+      if (chatModes.emoteOnly && !isEmoteOnlyMessage(inputMessage, emoteMap)) {
+        queueMessages(createSystemMessage('This chat is in emote-only mode. Only emotes are allowed.'));
+        return;
+      }
+    }
+
+    // Streamer command: /marker [label] marks the current moment for the past broadcast's chapters
+    const markerMatch = isStreamOwner && token ? inputMessage.trim().match(/^\/marker(?:\s+(.+))?$/i) : null;
+    if (markerMatch && token) {
+      createStreamMarker(token, markerMatch[1])
+        .then(marker => {
+          queueMessages(createSystemMessage(
+            `Marker placed at ${formatTimestamp(marker.offsetSeconds)}${marker.label ? `: ${marker.label}` : ''}`
+          ));
+        })
+        .catch(error => {
+          console.error('Failed to place marker:', error);
+          queueMessages(createSystemMessage(error instanceof Error ? error.message : 'Failed to place marker.'));
+        });
+      setInputMessage('');
+      return;
+    }
+
+    // Moderator commands: /timeout <user> [seconds], /ban <user>, /unban <user>
+    const commandMatch = canModerate ? inputMessage.trim().match(/^\/(timeout|ban|unban)\s+@?(\S+)(?:\s+(\d+))?/i) : null;
+    if (commandMatch) {
+      const [, command, targetUsername, seconds] = commandMatch;
+      const action = command.toLowerCase();
+      if (action === 'timeout') {
+        timeoutUser(targetUsername, seconds ? parseInt(seconds, 10) : 600);
+      } else if (action === 'ban') {
+        banUser(targetUsername);
+      } else {
+        unbanUser(targetUsername);
+      }
+      setInputMessage('');
       return;
     }
 
@@ -276,12 +627,22 @@ export default function ChatComponent({ streamId, streamName, className = '' }:
 
     const messageData = {
       streamId: streamId,
-      message: inputMessage.trim()
+      message: inputMessage.trim(),
+      ...(replyingTo && {
+        replyToId: replyingTo.id,
+        replyTo: { id: replyingTo.id, username: replyingTo.username, message: replyingTo.message }
+      })
     };
 
     console.log('📤 Sending message:', messageData);
     socket.emit('send_message', messageData);
     setInputMessage('');
+    setReplyingTo(null);
+    setMentionQuery(null);
+    messageListRef.current?.scrollToBottom();
+    if (chatModes.slowModeSeconds > 0 && !canModerate) {
+      setSlowModeUntil(Date.now() + chatModes.slowModeSeconds * 1000);
+    }
     
     // Keep focus on input and restore scroll position
     setTimeout(() => {
@@ -294,6 +655,298 @@ export default function ChatComponent({ streamId, streamName, className = '' }:
     }, 0);
   };
 
+  // Moderation actions - the server validates permissions and broadcasts the result
+  const isStreamOwner = Boolean(user && streamName && user.username.toLowerCase() === streamName.toLowerCase());
+  const canModerate = Boolean(user) && (isStreamOwner || isChannelModerator);
+  const isMuted = isBanned || (timeoutEndsAt !== null && timeoutEndsAt > Date.now());
+
+  // Mods can act on regular chatters; only the streamer can act on other mods
+  const canModerateMessage = (msg: ChatMessage) => {
+    if (!canModerate || msg.isSystem || msg.isStreamer) return false;
+    if (user && msg.username.toLowerCase() === user.username.toLowerCase()) return false;
+    return isStreamOwner || !msg.isModerator;
+  };
+
+  const deleteMessage = (messageId: string) => {
+    socket?.emit('delete_message', { streamId, messageId });
+    setOpenActionMenuId(null);
+  };
+
+  const timeoutUser = (targetUsername: string, duration: number) => {
+    socket?.emit('timeout_user', { streamId, username: targetUsername, duration });
+    setOpenActionMenuId(null);
+  };
+
+  const banUser = (targetUsername: string) => {
+    socket?.emit('ban_user', { streamId, username: targetUsername });
+    setOpenActionMenuId(null);
+  };
+
+  const unbanUser = (targetUsername: string) => {
+    socket?.emit('unban_user', { streamId, username: targetUsername });
+    setOpenActionMenuId(null);
+  };
+
+  // Emotes: global set plus the channel's own; channel emotes override global codes
+  useEffect(() => {
+    getGlobalEmotes()
+      .then(setGlobalEmotes)
+      .catch(error => console.log('Failed to load global emotes:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!streamName) return;
+    getChannelEmotes(streamName)
+      .then(setChannelEmotes)
+      .catch(error => console.log('Failed to load channel emotes:', error));
+  }, [streamName]);
+
+  const emoteMap = buildEmoteMap(globalEmotes, channelEmotes);
+
+  const insertEmote = (emote: Emote) => {
+    setInputMessage(prev => `${prev}${prev && !prev.endsWith(' ') ? ' ' : ''}${emote.code} `);
+    inputRef.current?.focus();
+  };
+
+  const renderMentions = (text: string) =>
+    text.split(MENTION_TOKEN_PATTERN).map((part, index) => {
+      if (index % 2 === 0) return part;
+      const isSelf = Boolean(user && part.slice(1).toLowerCase() === user.username.toLowerCase());
+      return (
+        <span
+          key={index}
+          className={`font-semibold ${
+            isSelf
+              ? isDarkMode ? 'text-yellow-300' : 'text-yellow-700'
+              : isDarkMode ? 'text-blue-300' : 'text-blue-700'
+          }`}
+        >
+          {part}
+        </span>
+      );
+    });
+
+  const renderMessageText = (text: string) =>
+    tokenizeEmotes(text, emoteMap).map((token, index) =>
+      token.type === 'emote' ? (
+        <img
+          key={index}
+          src={token.emote.url}
+          alt={token.emote.code}
+          title={token.emote.code}
+          className={`inline-block w-auto align-middle mx-0.5 ${isOverlay ? 'h-[1.75em]' : 'h-7'}`}
+          loading="lazy"
+        />
+      ) : (
+        <span key={index}>{renderMentions(token.text)}</span>
+      )
+    );
+
+  // @mention autocomplete from recent chatters (and the streamer)
+  const mentionSuggestions = mentionQuery
+    ? [...getRecentChatters(messages, user?.username), ...(streamName ? [streamName] : [])]
+        .filter((name, index, names) =>
+          names.findIndex(other => other.toLowerCase() === name.toLowerCase()) === index &&
+          name.toLowerCase() !== user?.username.toLowerCase() &&
+          name.toLowerCase().startsWith(mentionQuery.query.toLowerCase())
+        )
+        .slice(0, MAX_MENTION_SUGGESTIONS)
+    : [];
+
+  const updateMentionQuery = (text: string, caret: number | null) => {
+    const next = caret === null ? null : getMentionQuery(text, caret);
+    if (next?.query !== mentionQuery?.query || next?.start !== mentionQuery?.start) {
+      setSelectedSuggestionIndex(0);
+    }
+    setMentionQuery(next);
+  };
+
+  const acceptMentionSuggestion = (username: string) => {
+    if (!mentionQuery) return;
+    const caret = inputRef.current?.selectionStart ?? inputMessage.length;
+    const before = `${inputMessage.slice(0, mentionQuery.start)}@${username} `;
+    setInputMessage(before + inputMessage.slice(caret).replace(/^\s+/, ''));
+    setMentionQuery(null);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  const startReply = (msg: ChatMessage) => {
+    setReplyingTo(msg);
+    setOpenActionMenuId(null);
+    const mention = `@${msg.username}`;
+    setInputMessage(prev => new RegExp(`(^|\\s)${escapeRegExp(mention)}(\\s|$)`, 'i').test(prev) ? prev : `${mention} ${prev}`);
+    inputRef.current?.focus();
+  };
+
+  // Unread mentions reset once the viewer is looking at the bottom of chat again
+  const handleAtBottomChange = (atBottom: boolean) => {
+    isScrolledAwayRef.current = !atBottom;
+    if (atBottom && !document.hidden) {
+      setUnreadMentions(0);
+    }
+  };
+
+  const jumpToLatest = () => {
+    messageListRef.current?.scrollToBottom();
+    isScrolledAwayRef.current = false;
+    setUnreadMentions(0);
+  };
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (!document.hidden && !isScrolledAwayRef.current) {
+        setUnreadMentions(0);
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  // Show the unread mention count in the tab title while there are any
+  useEffect(() => {
+    if (unreadMentions === 0) return;
+    const baseTitle = document.title;
+    document.title = `(${unreadMentions}) ${baseTitle}`;
+    return () => {
+      document.title = baseTitle;
+    };
+  }, [unreadMentions]);
+
+  // Chat modes
+  const applyChatModes = (next: ChatModes, announce: boolean) => {
+    if (announce) {
+      const changes = describeChatModeChanges(chatModesRef.current, next);
+      if (changes.length > 0) {
+        queueMessages(...changes.map(createSystemMessage));
+      }
+    }
+    chatModesRef.current = next;
+    setChatModes(next);
+    if (next.slowModeSeconds === 0) {
+      setSlowModeUntil(null);
+    }
+  };
+
+  // Initial chat modes for the channel; the joined_stream payload may override them
+  useEffect(() => {
+    if (!streamName || isReplay) return;
+    getChatModes(streamName)
+      .then(modes => {
+        chatModesRef.current = modes;
+        setChatModes(modes);
+      })
+      .catch(error => console.log('Failed to load chat modes:', error));
+  }, [streamName, isReplay]);
+
+  // Followers-only and subscribers-only need the viewer's relationship to the channel.
+  // An unknown relationship (loading or a failed lookup) doesn't lock the input;
+  // the server still rejects messages that break the rule.
+  useEffect(() => {
+    if (!token || !streamName || isStreamOwner || !chatModes.followersOnly) return;
+    let cancelled = false;
+    checkFollowStatus(token, streamName)
+      .then(info => {
+        if (!cancelled) setFollowInfo(info);
+      })
+      .catch(error => {
+        console.log('Failed to check follow status for chat:', error);
+        if (!cancelled) setFollowInfo(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token, streamName, isStreamOwner, chatModes.followersOnly, isFollowing]);
+
+  useEffect(() => {
+    if (!token || !streamName || isStreamOwner || !chatModes.subscribersOnly) return;
+    let cancelled = false;
+    getUserSubscriptions(token)
+      .then(data => {
+        if (!cancelled) setIsSubscriber(data.subscriptions.some(sub => sub.username.toLowerCase() === streamName.toLowerCase()));
+      })
+      .catch(error => {
+        console.log('Failed to check subscription for chat:', error);
+        if (!cancelled) setIsSubscriber(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token, streamName, isStreamOwner, chatModes.subscribersOnly]);
+
+  // Slow mode countdown shown on the send button
+  useEffect(() => {
+    if (slowModeUntil === null) {
+      setCooldownSeconds(0);
+      return;
+    }
+    const update = () => {
+      const remaining = Math.ceil((slowModeUntil - Date.now()) / 1000);
+      setCooldownSeconds(Math.max(0, remaining));
+      if (remaining <= 0) setSlowModeUntil(null);
+    };
+    update();
+    const interval = setInterval(update, 250);
+    return () => clearInterval(interval);
+  }, [slowModeUntil]);
+
+  // Re-check the followers-only restriction once the viewer has followed long enough
+  useEffect(() => {
+    if (!chatModes.followersOnly || chatModes.followersOnlyMinutes <= 0 || !followInfo?.followedAt) return;
+    const remaining = new Date(followInfo.followedAt).getTime() + chatModes.followersOnlyMinutes * 60000 - Date.now();
+    if (remaining <= 0) return;
+    const timer = setTimeout(() => setFollowAgeChecks(count => count + 1), Math.min(remaining, MAX_TIMER_DELAY_MS));
+    return () => clearTimeout(timer);
+  }, [chatModes.followersOnly, chatModes.followersOnlyMinutes, followInfo?.followedAt, followAgeChecks]);
+
+  // Why the viewer can't chat right now, if anything (null when allowed)
+  const getChatRestriction = (): string | null => {
+    if (!user || canModerate) return null;
+    if (chatModes.subscribersOnly && isSubscriber === false) {
+      return 'Subscribers-only chat';
+    }
+    if (chatModes.followersOnly) {
+      if (followInfo && !followInfo.isFollowing) return 'Followers-only chat. Follow to chat';
+      if (chatModes.followersOnlyMinutes > 0 && followInfo?.followedAt) {
+        const followedMinutes = (Date.now() - new Date(followInfo.followedAt).getTime()) / 60000;
+        if (followedMinutes < chatModes.followersOnlyMinutes) {
+          return `Followers-only chat. Follow for ${formatDuration(chatModes.followersOnlyMinutes * 60)} to chat`;
+        }
+      }
+    }
+    return null;
+  };
+  const chatRestriction = getChatRestriction();
+
+  const activeModeLabels = [
+    chatModes.slowModeSeconds > 0 && `Slow mode (${chatModes.slowModeSeconds}s)`,
+    chatModes.followersOnly && 'Followers-only',
+    chatModes.subscribersOnly && 'Subscribers-only',
+    chatModes.emoteOnly && 'Emote-only',
+  ].filter(Boolean);
+
+  // Re-enable the input when a timeout runs out
+  useEffect(() => {
+    if (timeoutEndsAt === null) return;
+    const remaining = timeoutEndsAt - Date.now();
+    const timer = setTimeout(() => setTimeoutEndsAt(null), Math.max(0, remaining));
+    return () => clearTimeout(timer);
+  }, [timeoutEndsAt]);
+
+  // Close the message action menu when clicking outside it
+  useEffect(() => {
+    if (!openActionMenuId) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (!(event.target as Element).closest('.chat-action-menu')) {
+        setOpenActionMenuId(null);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [openActionMenuId]);
+
   const retryJoinStream = () => {
     if (socket && isConnected) {
       console.log('🔄 Manually retrying join_stream...');
@@ -301,10 +954,20 @@ export default function ChatComponent({ streamId, streamName, className = '' }:
     }
   };
 
-  const formatTime = (date: Date) => {
-    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const formatTime = (message: ChatMessage) => {
+    if (message.offsetSeconds !== undefined) return formatTimestamp(message.offsetSeconds);
+    return message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
+  const replayChatMessages = useMemo(
+    () => (replayMessages ?? []).map(msg => ({ ...toChatMessage(msg), offsetSeconds: msg.offsetSeconds })),
+    [replayMessages]
+  );
+  const displayedMessages = isReplay ? replayChatMessages : messages;
+
+  // Replies quoting a deleted message shouldn't keep showing its text
+  const deletedMessageIds = new Set(displayedMessages.filter(msg => msg.isDeleted).map(msg => msg.id));
+
   const getUsernameColor = (message: ChatMessage) => {
     if (message.isSystem) {
       return isDarkMode ? 'text-gray-400' : 'text-gray-500';
@@ -318,155 +981,397 @@ export default function ChatComponent({ streamId, streamName, className = '' }:
     return isDarkMode ? 'text-gray-300' : 'text-gray-700';
   };
 
-  return (
-    <div className={`flex flex-col h-full ${isDarkMode ? 'bg-gray-900' : 'bg-white'} ${className}`}>
-      {/* Chat Header */}
-      <div className={`px-4 py-3 border-b ${
-        isDarkMode ? 'border-gray-700 bg-gray-800' : 'border-gray-200 bg-gray-50'
-      }`}>
-        <div className="flex items-center justify-between">
-          <h2 className="font-semibold">Stream Chat</h2>
-          {connectionStatus === 'session_expired' && (
-            <span className="text-xs text-red-500 flex items-center">
-              <div className="w-2 h-2 bg-red-500 rounded-full mr-1"></div>
-              Session expired - please log in again
-            </span>
-          )}
-          {connectionStatus === 'error' && (
-            <span className="text-xs text-yellow-500 flex items-center">
-              <div className="w-2 h-2 bg-yellow-500 rounded-full mr-1"></div>
-              Connection Error
-            </span>
-          )}
-          {connectionStatus === 'disconnected' && !isLoading && (
-            <span className="text-xs text-gray-500 flex items-center">
-              <div className="w-2 h-2 bg-gray-500 rounded-full mr-1"></div>
-              Disconnected
+  const popOutChat = () => {
+    if (!streamName) return;
+    window.open(`/${encodeURIComponent(streamName)}/chat`, `chat-${streamName}`, 'width=400,height=700');
+  };
+
+  const renderMessage = (msg: ChatMessage) => (
+    <div
+      className={`group relative ${isOverlay ? 'drop-shadow-[0_1px_1px_rgba(0,0,0,0.9)]' : 'text-sm'} ${
+        isOverlay && overlayOptions.fadeAfterSeconds > 0 ? 'chat-overlay-fade' : ''
+      } ${
+        mentionsUser(msg, user?.username)
+          ? `-mx-2 px-2 py-1 rounded border-l-2 border-yellow-500 ${isDarkMode ? 'bg-yellow-500/10' : 'bg-yellow-50'}`
+          : ''
+      }`}
+      style={isOverlay ? { animationDelay: `${overlayOptions.fadeAfterSeconds}s` } : undefined}
+    >
+      {msg.isSystem ? (
+        // System messages without timestamps
+        <p className={`${
+          isDarkMode ? 'text-gray-400 italic' : 'text-gray-500 italic'
+        }`}>
+          {msg.message}
+        </p>
+      ) : (
+        // Regular messages with timestamps and usernames
+        <>
+          <div className="flex items-baseline space-x-2 mb-1">
+            {!isOverlay && (
+              <span className={`text-xs ${
+                isDarkMode ? 'text-gray-400' : 'text-gray-500'
+              }`}>
+                {formatTime(msg)}
+              </span>
+            )}
+            <span className={`font-medium ${getUsernameColor(msg)}`}>
+              {msg.username}
+              {msg.isStreamer && ' 👑'}
+              {msg.isModerator && ' 🛡️'}
             </span>
-          )}
-        </div>
-      </div>
-      
-      {/* Chat Messages */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-3 min-h-0">
-        {isLoading ? (
-          <div className="flex items-center justify-center h-full">
-            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
-            <p className="text-sm mt-2">Connecting to chat...</p>
+            {canModerateMessage(msg) && bannedUsers.has(msg.username.toLowerCase()) && (
+              <span className="text-xs text-red-500">banned</span>
+            )}
           </div>
-        ) : !isConnected ? (
-          <div className={`text-center ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>
-            <p className="text-sm font-medium">Chat connection failed</p>
-            <p className="text-xs mt-2">
-              CORS error: The chat server needs to allow connections from localhost:5173
+          {msg.replyTo && (
+            <p className={`ml-2 mb-0.5 text-xs truncate ${
+              isDarkMode ? 'text-gray-400' : 'text-gray-500'
+            }`}>
+              ↪ Replying to <span className="font-medium">@{msg.replyTo.username}</span>:{' '}
+              {deletedMessageIds.has(msg.replyTo.id) ? <em>message deleted</em> : msg.replyTo.message}
             </p>
-            <p className="text-xs mt-1">
-              Backend configuration required to enable development chat.
+          )}
+          {msg.isDeleted ? (
+            <p className={`ml-2 italic ${
+              isDarkMode ? 'text-gray-500' : 'text-gray-400'
+            }`}>
+              &lt;message deleted by a moderator&gt;
             </p>
-          </div>
-        ) : isConnected && !hasJoinedStream ? (
-          <div className={`text-center ${isDarkMode ? 'text-yellow-400' : 'text-yellow-600'}`}>
-            <p className="text-sm font-medium">Connected but not joined to stream</p>
-            <button
-              onClick={retryJoinStream}
-              className="mt-2 px-3 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700"
-            >
-              Retry Join Stream
-            </button>
-          </div>
-        ) : messages.length === 0 ? (
-          <div className={`text-center ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-            <p className="text-sm">No messages yet. Be the first to say something!</p>
-          </div>
-        ) : (
-          messages.map((msg) => (
-            <div key={msg.id} className="text-sm">
-              {msg.isSystem ? (
-                // System messages without timestamps
-                <p className={`${
-                  isDarkMode ? 'text-gray-400 italic' : 'text-gray-500 italic'
-                }`}>
-                  {msg.message}
-                </p>
-              ) : (
-                // Regular messages with timestamps and usernames
-                <>
-                  <div className="flex items-baseline space-x-2 mb-1">
-                    <span className={`text-xs ${
-                      isDarkMode ? 'text-gray-400' : 'text-gray-500'
-                    }`}>
-                      {formatTime(msg.timestamp)}
-                    </span>
-                    <span className={`font-medium ${getUsernameColor(msg)}`}>
-                      {msg.username}
-                      {msg.isStreamer && ' 👑'}
-                      {msg.isModerator && ' 🛡️'}
-                    </span>
-                  </div>
-                  <p className={`ml-2 ${
-                    isDarkMode ? 'text-gray-200' : 'text-gray-800'
+          ) : (
+            <p className={`ml-2 break-words ${
+              isDarkMode ? 'text-gray-200' : 'text-gray-800'
+            }`}>
+              {renderMessageText(msg.message)}
+            </p>
+          )}
+
+          <div className="absolute top-0 right-0 flex items-center">
+            {user && !msg.isDeleted && !isMuted && !isReadOnly && (
+              <button
+                type="button"
+                onClick={() => startReply(msg)}
+                className={`px-1.5 rounded text-xs opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity ${
+                  isDarkMode ? 'text-gray-400 hover:bg-gray-800' : 'text-gray-500 hover:bg-gray-100'
+                }`}
+                title={`Reply to ${msg.username}`}
+              >
+                ↩
+              </button>
+            )}
+
+            {/* Moderator action menu */}
+            {canModerateMessage(msg) && !isReadOnly && (
+              <div className="chat-action-menu relative">
+                <button
+                  type="button"
+                  onClick={() => setOpenActionMenuId(prev => prev === msg.id ? null : msg.id)}
+                  className={`px-1.5 rounded text-xs opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity ${
+                    openActionMenuId === msg.id ? 'opacity-100' : ''
+                  } ${isDarkMode ? 'text-gray-400 hover:bg-gray-800' : 'text-gray-500 hover:bg-gray-100'}`}
+                  title="Moderate"
+                >
+                  ⋯
+                </button>
+                {openActionMenuId === msg.id && (
+                  <div className={`absolute right-0 mt-1 z-20 w-40 rounded-lg shadow-lg border py-1 text-xs ${
+                    isDarkMode ? 'bg-gray-800 border-gray-700 text-gray-200' : 'bg-white border-gray-200 text-gray-700'
                   }`}>
-                    {msg.message}
-                  </p>
-                </>
+                    {!msg.isDeleted && (
+                      <button
+                        type="button"
+                        onClick={() => deleteMessage(msg.id)}
+                        className={`w-full px-3 py-1.5 text-left ${isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+                      >
+                        Delete message
+                      </button>
+                    )}
+                    <div className="flex items-center px-3 py-1.5 gap-1">
+                      <span className="mr-auto">Timeout</span>
+                      {TIMEOUT_OPTIONS.map(option => (
+                        <button
+                          key={option.seconds}
+                          type="button"
+                          onClick={() => timeoutUser(msg.username, option.seconds)}
+                          className={`px-1.5 py-0.5 rounded ${isDarkMode ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200'}`}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                    {bannedUsers.has(msg.username.toLowerCase()) ? (
+                      <button
+                        type="button"
+                        onClick={() => unbanUser(msg.username)}
+                        className={`w-full px-3 py-1.5 text-left ${isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+                      >
+                        Unban {msg.username}
+                      </button>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => banUser(msg.username)}
+                        className={`w-full px-3 py-1.5 text-left text-red-500 ${isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+                      >
+                        Ban {msg.username}
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+
+  return (
+    <div
+      className={`flex flex-col h-full ${isOverlay ? 'bg-transparent text-white' : isDarkMode ? 'bg-gray-900' : 'bg-white'} ${className}`}
+      style={isOverlay ? { fontSize: overlayOptions.fontSize } : undefined}
+    >
+      {/* Chat Header */}
+      {!isOverlay && (
+        <div className={`px-4 py-3 border-b ${
+          isDarkMode ? 'border-gray-700 bg-gray-800' : 'border-gray-200 bg-gray-50'
+        }`}>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <h2 className="font-semibold">{isReplay ? 'Chat Replay' : 'Stream Chat'}</h2>
+              {variant === 'embedded' && streamName && (
+                <button
+                  type="button"
+                  onClick={popOutChat}
+                  className={`text-xs px-1.5 py-0.5 rounded transition-colors ${
+                    isDarkMode ? 'text-gray-400 hover:text-white hover:bg-gray-700' : 'text-gray-500 hover:text-gray-900 hover:bg-gray-200'
+                  }`}
+                  title="Pop out chat"
+                >
+                  ⧉
+                </button>
               )}
             </div>
-          ))
-        )}
-        <div ref={messagesEndRef} />
-      </div>
+            {unreadMentions > 0 && (
+              <button
+                type="button"
+                onClick={jumpToLatest}
+                className="text-xs px-2 py-0.5 rounded-full bg-yellow-500 text-gray-900 font-medium hover:bg-yellow-400"
+                title="Jump to latest messages"
+              >
+                {unreadMentions} {unreadMentions === 1 ? 'mention' : 'mentions'}
+              </button>
+            )}
+            {connectionStatus === 'session_expired' && (
+              <span className="text-xs text-red-500 flex items-center">
+                <div className="w-2 h-2 bg-red-500 rounded-full mr-1"></div>
+                Session expired - please log in again
+              </span>
+            )}
+            {connectionStatus === 'error' && (
+              <span className="text-xs text-yellow-500 flex items-center">
+                <div className="w-2 h-2 bg-yellow-500 rounded-full mr-1"></div>
+                Connection Error
+              </span>
+            )}
+            {connectionStatus === 'disconnected' && !isLoading && (
+              <span className="text-xs text-gray-500 flex items-center">
+                <div className="w-2 h-2 bg-gray-500 rounded-full mr-1"></div>
+                Disconnected
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+      
+      {/* Chat Messages */}
+      {displayedMessages.length > 0 && (isReplay || (!isLoading && isConnected && hasJoinedStream)) ? (
+        <ChatMessageList
+          ref={messageListRef}
+          items={displayedMessages}
+          renderItem={renderMessage}
+          onAtBottomChange={handleAtBottomChange}
+          className="flex-1 min-h-0"
+        />
+      ) : isOverlay ? (
+        <div className="flex-1 min-h-0" />
+      ) : isReplay ? (
+        <div className={`flex-1 p-4 min-h-0 text-center text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          Chat messages will appear here as the video plays.
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto p-4 min-h-0">
+          {isLoading ? (
+            <div className="flex items-center justify-center h-full">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+              <p className="text-sm mt-2">Connecting to chat...</p>
+            </div>
+          ) : !isConnected ? (
+            <div className={`text-center ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>
+              <p className="text-sm font-medium">Chat connection failed</p>
+              <p className="text-xs mt-2">
+                CORS error: The chat server needs to allow connections from localhost:5173
+              </p>
+              <p className="text-xs mt-1">
+                Backend configuration required to enable development chat.
+              </p>
+            </div>
+          ) : isConnected && !hasJoinedStream ? (
+            <div className={`text-center ${isDarkMode ? 'text-yellow-400' : 'text-yellow-600'}`}>
+              <p className="text-sm font-medium">Connected but not joined to stream</p>
+              <button
+                onClick={retryJoinStream}
+                className="mt-2 px-3 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700"
+              >
+                Retry Join Stream
+              </button>
+            </div>
+          ) : (
+            <div className={`text-center ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              <p className="text-sm">No messages yet. Be the first to say something!</p>
+            </div>
+          )}
+        </div>
+      )}
       
       {/* Chat Input */}
-      <div className={`p-4 border-t ${
-        isDarkMode ? 'border-gray-700' : 'border-gray-200'
-      }`}>
-        <form onSubmit={(e) => {
-          e.preventDefault();
-          e.stopPropagation();
-          sendMessage();
-        }} className="flex space-x-2">
-          <input
-            ref={inputRef}
-            type="text"
-            value={inputMessage}
-            onChange={(e) => setInputMessage(e.target.value)}
-            onKeyDown={(e) => {
-              if (e.key === 'Enter') {
-                e.preventDefault();
-                e.stopPropagation();
-                sendMessage();
+      {!isReplay && !(isOverlay && overlayOptions.hideInput) && (
+        <div className={`p-4 border-t ${
+          isDarkMode ? 'border-gray-700' : 'border-gray-200'
+        }`}>
+          {activeModeLabels.length > 0 && (
+            <p className={`text-xs mb-2 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              {activeModeLabels.join(' · ')}
+            </p>
+          )}
+          {replyingTo && (
+            <div className={`flex items-center gap-2 mb-2 px-2 py-1 rounded text-xs ${
+              isDarkMode ? 'bg-gray-800 text-gray-300' : 'bg-gray-100 text-gray-600'
+            }`}>
+              <span className="flex-1 min-w-0 truncate">
+                Replying to <span className="font-medium">@{replyingTo.username}</span>: {replyingTo.message}
+              </span>
+              <button
+                type="button"
+                onClick={() => setReplyingTo(null)}
+                className={isDarkMode ? 'text-gray-400 hover:text-white' : 'text-gray-500 hover:text-gray-900'}
+                title="Cancel reply"
+              >
+                ✕
+              </button>
+            </div>
+          )}
+          <form onSubmit={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            sendMessage();
+          }} className="relative flex space-x-2">
+            {mentionSuggestions.length > 0 && (
+              <div className={`absolute bottom-full left-0 mb-2 w-56 rounded-lg shadow-lg border py-1 z-30 ${
+                isDarkMode ? 'bg-gray-900 border-gray-700' : 'bg-white border-gray-200'
+              }`}>
+                {mentionSuggestions.map((name, index) => (
+                  <button
+                    key={name}
+                    type="button"
+                    // Keep focus (and the caret) in the input
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => acceptMentionSuggestion(name)}
+                    className={`w-full px-3 py-1.5 text-left text-sm ${
+                      index === selectedSuggestionIndex
+                        ? isDarkMode ? 'bg-gray-800 text-white' : 'bg-gray-100 text-gray-900'
+                        : isDarkMode ? 'text-gray-300 hover:bg-gray-800' : 'text-gray-700 hover:bg-gray-100'
+                    }`}
+                  >
+                    @{name}
+                  </button>
+                ))}
+              </div>
+            )}
+            <input
+              ref={inputRef}
+              type="text"
+              value={inputMessage}
+              onChange={(e) => {
+                setInputMessage(e.target.value);
+                updateMentionQuery(e.target.value, e.target.selectionStart);
+              }}
+              onSelect={(e) => updateMentionQuery(e.currentTarget.value, e.currentTarget.selectionStart)}
+              onBlur={() => setMentionQuery(null)}
+              onKeyDown={(e) => {
+                if (mentionSuggestions.length > 0) {
+                  if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                    e.preventDefault();
+                    const step = e.key === 'ArrowDown' ? 1 : -1;
+                    setSelectedSuggestionIndex(prev => (prev + step + mentionSuggestions.length) % mentionSuggestions.length);
+                    return;
+                  }
+                  if (e.key === 'Tab' || e.key === 'Enter') {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    acceptMentionSuggestion(mentionSuggestions[Math.min(selectedSuggestionIndex, mentionSuggestions.length - 1)]);
+                    return;
+                  }
+                  if (e.key === 'Escape') {
+                    setMentionQuery(null);
+                    return;
+                  }
+                }
+                if (e.key === 'Escape' && replyingTo) {
+                  setReplyingTo(null);
+                  return;
+                }
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  e.stopPropagation();
+                  sendMessage();
+                }
+              }}
+              placeholder={
+                !isConnected 
+                  ? "Connecting to chat..." 
+                  : isBanned
+                  ? "You are banned from this chat"
+                  : isMuted
+                  ? "You are timed out..."
+                  : chatRestriction
+                  ? chatRestriction
+                  : user 
+                  ? "Type a message..." 
+                  : "Login to chat..."
               }
-            }}
-            placeholder={
-              !isConnected 
-                ? "Connecting to chat..." 
-                : user 
-                ? "Type a message..." 
-                : "Login to chat..."
-            }
-            disabled={!isConnected || !user}
-            className={`flex-1 px-3 py-2 rounded-lg border text-sm ${
-              isDarkMode 
-                ? 'bg-gray-800 border-gray-600 text-white placeholder-gray-400'
-                : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
-            } focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50`}
-          />
-          <button
-            type="submit"
-            disabled={!isConnected || !inputMessage.trim() || !user}
-            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            Send
-          </button>
-        </form>
-        {!user && (
-          <p className={`text-xs mt-2 ${
-            isDarkMode ? 'text-gray-400' : 'text-gray-500'
-          }`}>
-            <Link to="/login" className="text-blue-500 cursor-pointer hover:underline">Log in</Link> to chat with your username.
-          </p>
-        )}
-      </div>
+              disabled={!isConnected || !user || isMuted || Boolean(chatRestriction)}
+              className={`flex-1 px-3 py-2 rounded-lg border text-sm ${
+                isDarkMode 
+                  ? 'bg-gray-800 border-gray-600 text-white placeholder-gray-400'
+                  : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
+              } focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50`}
+            />
+            <EmotePicker
+              globalEmotes={globalEmotes}
+              channelEmotes={channelEmotes}
+              channelName={streamName}
+              onSelect={insertEmote}
+              disabled={!isConnected || !user || isMuted || Boolean(chatRestriction)}
+            />
+            <button
+              type="submit"
+              disabled={!isConnected || !inputMessage.trim() || !user || isMuted || Boolean(chatRestriction) || cooldownSeconds > 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed tabular-nums"
+              title={cooldownSeconds > 0 ? `Slow mode: wait ${cooldownSeconds}s` : undefined}
+            >
+              {cooldownSeconds > 0 ? `${cooldownSeconds}s` : 'Send'}
+            </button>
+          </form>
+          {!user && (
+            <p className={`text-xs mt-2 ${
+              isDarkMode ? 'text-gray-400' : 'text-gray-500'
+            }`}>
+              <Link to="/login" className="text-blue-500 cursor-pointer hover:underline">Log in</Link> to chat with your username.
+            </p>
+          )}
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,195 @@
+import { useEffect, useImperativeHandle, useLayoutEffect, useRef, useState, type ReactNode, type Ref } from 'react';
+import { useDarkMode } from '../contexts/DarkModeContext';
+
+export type ChatMessageListHandle = {
+  scrollToBottom: () => void;
+};
+
+type ChatMessageListProps<T extends { id: string }> = {
+  items: T[];
+  renderItem: (item: T) => ReactNode;
+  // Used for rows that haven't been measured yet
+  estimatedItemHeight?: number;
+  // Extra pixels rendered above and below the viewport
+  overscan?: number;
+  onAtBottomChange?: (atBottom: boolean) => void;
+  className?: string;
+  ref?: Ref<ChatMessageListHandle>;
+};
+
+// Within this many pixels of the bottom counts as following the chat
+const AT_BOTTOM_THRESHOLD = 40;
+
+// Windowed message list: only rows near the viewport are rendered and each
+// row's height is measured once it mounts. While the viewer follows the chat
+// it stays pinned to the bottom; scrolling up pauses it and counts new rows.
+export default function ChatMessageList<T extends { id: string }>({
+  items,
+  renderItem,
+  estimatedItemHeight = 48,
+  overscan = 400,
+  onAtBottomChange,
+  className = '',
+  ref,
+}: ChatMessageListProps<T>) {
+  const { isDarkMode } = useDarkMode();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const heightsRef = useRef<Map<string, number>>(new Map());
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const atBottomRef = useRef(true);
+  const previousKeysRef = useRef<string[]>([]);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const [isAtBottom, setIsAtBottom] = useState(true);
+  const [newItemCount, setNewItemCount] = useState(0);
+
+  const updateAtBottom = (atBottom: boolean) => {
+    if (atBottom) setNewItemCount(0);
+    if (atBottomRef.current === atBottom) return;
+    atBottomRef.current = atBottom;
+    setIsAtBottom(atBottom);
+    onAtBottomChange?.(atBottom);
+  };
+
+  const scrollToBottom = () => {
+    const container = containerRef.current;
+    if (container) container.scrollTop = container.scrollHeight;
+    updateAtBottom(true);
+  };
+
+  useImperativeHandle(ref, () => ({ scrollToBottom }));
+
+  // Row heights change after mount (emotes loading, window resizes)
+  const getObserver = () => {
+    if (!observerRef.current) {
+      observerRef.current = new ResizeObserver(entries => {
+        let changed = false;
+        entries.forEach(entry => {
+          const key = (entry.target as HTMLElement).dataset.key;
+          const height = (entry.target as HTMLElement).offsetHeight;
+          if (key && heightsRef.current.get(key) !== height) {
+            heightsRef.current.set(key, height);
+            changed = true;
+          }
+        });
+        if (changed) setMeasureVersion(version => version + 1);
+      });
+    }
+    return observerRef.current;
+  };
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const resizeObserver = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    resizeObserver.observe(container);
+    setViewportHeight(container.clientHeight);
+    return () => {
+      resizeObserver.disconnect();
+      observerRef.current?.disconnect();
+      observerRef.current = null;
+    };
+  }, []);
+
+  // Row offsets from the measured (or estimated) heights
+  const offsets: number[] = [];
+  let totalHeight = 0;
+  items.forEach(item => {
+    offsets.push(totalHeight);
+    totalHeight += heightsRef.current.get(item.id) ?? estimatedItemHeight;
+  });
+
+  let startIndex = 0;
+  while (startIndex < items.length - 1 && offsets[startIndex + 1] < scrollTop - overscan) startIndex++;
+  let endIndex = startIndex;
+  while (endIndex < items.length && offsets[endIndex] < scrollTop + viewportHeight + overscan) endIndex++;
+
+  // Keep following the bottom, or hold the reader's place when old rows are trimmed
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    const previousKeys = previousKeysRef.current;
+    const keys = items.map(item => item.id);
+    previousKeysRef.current = keys;
+    if (!container) return;
+
+    if (atBottomRef.current) {
+      container.scrollTop = container.scrollHeight;
+    } else if (previousKeys.length > 0 && keys.length > 0) {
+      const trimmedCount = previousKeys.indexOf(keys[0]);
+      if (trimmedCount > 0) {
+        const trimmedHeight = previousKeys
+          .slice(0, trimmedCount)
+          .reduce((sum, key) => sum + (heightsRef.current.get(key) ?? estimatedItemHeight), 0);
+        container.scrollTop -= trimmedHeight;
+      }
+      const lastIndex = keys.lastIndexOf(previousKeys[previousKeys.length - 1]);
+      if (lastIndex >= 0 && lastIndex < keys.length - 1) {
+        setNewItemCount(count => count + keys.length - 1 - lastIndex);
+      }
+    }
+
+    // Forget heights of rows that have left the buffer
+    if (heightsRef.current.size > keys.length * 2) {
+      const current = new Set(keys);
+      heightsRef.current.forEach((_, key) => {
+        if (!current.has(key)) heightsRef.current.delete(key);
+      });
+    }
+  }, [items, estimatedItemHeight]);
+
+  // Re-pin after rows near the bottom were measured
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (container && atBottomRef.current) {
+      container.scrollTop = container.scrollHeight;
+    }
+  }, [measureVersion, viewportHeight]);
+
+  const handleScroll = () => {
+    const container = containerRef.current;
+    if (!container) return;
+    setScrollTop(container.scrollTop);
+    updateAtBottom(container.scrollHeight - container.scrollTop - container.clientHeight <= AT_BOTTOM_THRESHOLD);
+  };
+
+  return (
+    <div className={`relative ${className}`}>
+      <div ref={containerRef} onScroll={handleScroll} className="absolute inset-0 overflow-y-auto p-4">
+        <div className="relative" style={{ height: totalHeight }}>
+          <div className="absolute left-0 right-0" style={{ top: offsets[startIndex] ?? 0 }}>
+            {items.slice(startIndex, endIndex).map(item => (
+              <div
+                key={item.id}
+                data-key={item.id}
+                className="pb-3"
+                ref={element => {
+                  if (!element) return;
+                  const observer = getObserver();
+                  observer.observe(element);
+                  return () => observer.unobserve(element);
+                }}
+              >
+                {renderItem(item)}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {!isAtBottom && (
+        <button
+          type="button"
+          onClick={scrollToBottom}
+          className={`absolute bottom-3 left-1/2 -translate-x-1/2 px-3 py-1.5 rounded-full shadow-lg text-xs font-medium transition-colors ${
+            isDarkMode ? 'bg-gray-700 text-white hover:bg-gray-600' : 'bg-gray-800 text-white hover:bg-gray-700'
+          }`}
+        >
+          {newItemCount > 0
+            ? `${newItemCount} new ${newItemCount === 1 ? 'message' : 'messages'} ↓`
+            : 'Jump to latest ↓'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { useState, useEffect, useContext } from 'react';
+import { useDarkMode } from '../contexts/DarkModeContext';
+import AuthContext from '../contexts/AuthContext';
+import Button from './Button';
+import { getChatModes, updateChatModes, DEFAULT_CHAT_MODES, type ChatModes } from '../services/chatApi';
+
+const SLOW_MODE_OPTIONS = [
+  { label: 'Off', value: 0 },
+  { label: '3 seconds', value: 3 },
+  { label: '5 seconds', value: 5 },
+  { label: '10 seconds', value: 10 },
+  { label: '30 seconds', value: 30 },
+  { label: '1 minute', value: 60 },
+  { label: '2 minutes', value: 120 },
+];
+
+const FOLLOW_AGE_OPTIONS = [
+  { label: 'Any follower', value: 0 },
+  { label: '10 minutes', value: 10 },
+  { label: '30 minutes', value: 30 },
+  { label: '1 hour', value: 60 },
+  { label: '1 day', value: 60 * 24 },
+  { label: '1 week', value: 60 * 24 * 7 },
+];
+
+type ChatModesSettingsProps = {
+  username: string;
+};
+
+export default function ChatModesSettings({ username }: ChatModesSettingsProps) {
+  const { isDarkMode } = useDarkMode();
+  const { token } = useContext(AuthContext);
+
+  const [modes, setModes] = useState<ChatModes>(DEFAULT_CHAT_MODES);
+  const [savedModes, setSavedModes] = useState<ChatModes>(DEFAULT_CHAT_MODES);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [success, setSuccess] = useState<string>('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    getChatModes(username)
+      .then(data => {
+        if (cancelled) return;
+        setModes(data);
+        setSavedModes(data);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load chat settings');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [username]);
+
+  const hasChanges = JSON.stringify(modes) !== JSON.stringify(savedModes);
+
+  const handleSave = async () => {
+    if (!token) return;
+
+    setSaving(true);
+    setError('');
+    setSuccess('');
+    try {
+      const updated = await updateChatModes(token, modes);
+      setModes(updated);
+      setSavedModes(updated);
+      setSuccess('Chat settings updated. Viewers in chat will see the change immediately.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update chat settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const selectClassName = `px-3 py-2 rounded-md border text-sm ${
+    isDarkMode
+      ? 'bg-gray-800 border-gray-600 text-white'
+      : 'bg-white border-gray-300 text-gray-900'
+  } focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50`;
+
+  const renderToggle = (key: 'followersOnly' | 'subscribersOnly' | 'emoteOnly', label: string, description: string) => (
+    <label className="flex items-start justify-between gap-4 cursor-pointer">
+      <div>
+        <div className={`text-sm font-medium ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>{label}</div>
+        <div className={`text-xs mt-0.5 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>{description}</div>
+      </div>
+      <input
+        type="checkbox"
+        checked={modes[key]}
+        onChange={(e) => setModes(prev => ({ ...prev, [key]: e.target.checked }))}
+        disabled={loading || saving}
+        className="mt-1 h-4 w-4 rounded text-blue-600 focus:ring-blue-500"
+      />
+    </label>
+  );
+
+  return (
+    <div className={`p-6 rounded-lg shadow-md ${
+      isDarkMode
+        ? 'bg-gray-900 border border-gray-800'
+        : 'bg-white'
+    }`}>
+      <h3 className={`text-lg font-semibold mb-2 ${
+        isDarkMode ? 'text-white' : 'text-gray-900'
+      }`}>
+        Chat Modes
+      </h3>
+      <p className={`text-sm mb-4 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+        Restrict who can chat and how often. You and your moderators are never restricted.
+      </p>
+
+      {/* Success/Error Messages */}
+      {success && (
+        <div className="mb-4 p-3 text-sm rounded-md text-green-700 bg-green-50 border border-green-200 dark:bg-green-900/20 dark:border-green-800 dark:text-green-400">
+          {success}
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 text-sm rounded-md text-red-700 bg-red-50 border border-red-200 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-5">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <div className={`text-sm font-medium ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>Slow mode</div>
+            <div className={`text-xs mt-0.5 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              Chatters must wait between messages.
+            </div>
+          </div>
+          <select
+            value={modes.slowModeSeconds}
+            onChange={(e) => setModes(prev => ({ ...prev, slowModeSeconds: Number(e.target.value) }))}
+            disabled={loading || saving}
+            className={selectClassName}
+          >
+            {SLOW_MODE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {renderToggle('followersOnly', 'Followers-only', 'Only followers of your channel can chat.')}
+        {modes.followersOnly && (
+          <div className="flex items-center justify-between gap-4 pl-4">
+            <div className={`text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>Minimum follow age</div>
+            <select
+              value={modes.followersOnlyMinutes}
+              onChange={(e) => setModes(prev => ({ ...prev, followersOnlyMinutes: Number(e.target.value) }))}
+              disabled={loading || saving}
+              className={selectClassName}
+            >
+              {FOLLOW_AGE_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {renderToggle('subscribersOnly', 'Subscribers-only', 'Only subscribers can chat.')}
+        {renderToggle('emoteOnly', 'Emote-only', 'Messages may only contain emotes.')}
+      </div>
+
+      <div className="pt-4 mt-4 border-t border-gray-200 dark:border-gray-700 flex gap-3">
+        <Button
+          type="button"
+          onClick={handleSave}
+          disabled={loading || saving || !hasChanges}
+          className="bg-blue-600 hover:bg-blue-700 text-white"
+        >
+          {saving ? 'Saving...' : 'Save Chat Modes'}
+        </Button>
+        {hasChanges && !saving && (
+          <Button
+            type="button"
+            onClick={() => setModes(savedModes)}
+            className="bg-gray-600 hover:bg-gray-700 text-white"
+          >
+            Discard
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
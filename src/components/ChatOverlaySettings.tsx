@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { useDarkMode } from '../contexts/DarkModeContext';
+import Button from './Button';
+import { buildChatOverlayUrl, DEFAULT_CHAT_OVERLAY_OPTIONS, type ChatOverlayOptions } from '../services/chatApi';
+
+const FONT_SIZE_OPTIONS = [12, 14, 16, 18, 20, 24, 28, 32];
+
+const FADE_OPTIONS = [
+  { label: 'Never', value: 0 },
+  { label: '10 seconds', value: 10 },
+  { label: '30 seconds', value: 30 },
+  { label: '1 minute', value: 60 },
+  { label: '2 minutes', value: 120 },
+];
+
+type ChatOverlaySettingsProps = {
+  username: string;
+};
+
+export default function ChatOverlaySettings({ username }: ChatOverlaySettingsProps) {
+  const { isDarkMode } = useDarkMode();
+  const [options, setOptions] = useState<ChatOverlayOptions>(DEFAULT_CHAT_OVERLAY_OPTIONS);
+  const [copied, setCopied] = useState(false);
+
+  const overlayUrl = buildChatOverlayUrl(username, options);
+
+  const updateOptions = (changes: Partial<ChatOverlayOptions>) => {
+    setOptions(prev => ({ ...prev, ...changes }));
+    setCopied(false);
+  };
+
+  const copyUrl = async () => {
+    try {
+      await navigator.clipboard.writeText(overlayUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy overlay URL:', error);
+    }
+  };
+
+  const selectClassName = `px-3 py-2 rounded-md border text-sm ${
+    isDarkMode
+      ? 'bg-gray-800 border-gray-600 text-white'
+      : 'bg-white border-gray-300 text-gray-900'
+  } focus:outline-none focus:ring-2 focus:ring-blue-500`;
+
+  return (
+    <div className={`p-6 rounded-lg shadow-md ${
+      isDarkMode
+        ? 'bg-gray-900 border border-gray-800'
+        : 'bg-white'
+    }`}>
+      <h3 className={`text-lg font-semibold mb-2 ${
+        isDarkMode ? 'text-white' : 'text-gray-900'
+      }`}>
+        Chat Overlay
+      </h3>
+      <p className={`text-sm mb-4 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+        Add your chat to OBS as a browser source with a transparent background, or{' '}
+        <a
+          href={`/${encodeURIComponent(username)}/chat`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-blue-500 hover:underline"
+        >
+          open the pop-out chat
+        </a>{' '}
+        for a second monitor or dock.
+      </p>
+
+      <div className="space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div className={`text-sm font-medium ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>Font size</div>
+          <select
+            value={options.fontSize}
+            onChange={(e) => updateOptions({ fontSize: Number(e.target.value) })}
+            className={selectClassName}
+          >
+            {FONT_SIZE_OPTIONS.map(size => (
+              <option key={size} value={size}>{size}px</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <div className={`text-sm font-medium ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>Fade out messages</div>
+            <div className={`text-xs mt-0.5 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              How long each message stays on screen.
+            </div>
+          </div>
+          <select
+            value={options.fadeAfterSeconds}
+            onChange={(e) => updateOptions({ fadeAfterSeconds: Number(e.target.value) })}
+            className={selectClassName}
+          >
+            {FADE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <label className="flex items-center justify-between gap-4 cursor-pointer">
+          <div className={`text-sm font-medium ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>Hide chat input</div>
+          <input
+            type="checkbox"
+            checked={options.hideInput}
+            onChange={(e) => updateOptions({ hideInput: e.target.checked })}
+            className="h-4 w-4 rounded text-blue-600 focus:ring-blue-500"
+          />
+        </label>
+      </div>
+
+      <div className="pt-4 mt-4 border-t border-gray-200 dark:border-gray-700 flex gap-3 items-center">
+        <input
+          type="text"
+          value={overlayUrl}
+          readOnly
+          onFocus={(e) => e.target.select()}
+          className={`flex-1 min-w-0 px-3 py-2 rounded-md border text-sm font-mono ${
+            isDarkMode
+              ? 'bg-gray-800 border-gray-600 text-gray-300'
+              : 'bg-gray-50 border-gray-300 text-gray-700'
+          }`}
+        />
+        <div>
+          <Button
+            type="button"
+            onClick={copyUrl}
+            className="bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            {copied ? 'Copied!' : 'Copy URL'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
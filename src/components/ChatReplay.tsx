@@ -0,0 +1,126 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useDarkMode } from '../contexts/DarkModeContext';
+import ChatComponent from './ChatComponent';
+import { getChatReplay, type ChatReplayMessage } from '../services/chatApi';
+
+// Replay chat is fetched in windows of this many seconds around the playhead
+const CHAT_REPLAY_CHUNK_SECONDS = 120;
+// Most recent messages kept on screen
+const MAX_REPLAY_MESSAGES = 150;
+// Failed windows are retried after this delay, doubling with each failure up to the max
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 60 * 1000;
+
+type ChatReplayProps = {
+  videoId: string;
+  streamName?: string;
+  // Current playback position in seconds; seeks and rate changes just move it
+  currentTime: number;
+  className?: string;
+};
+
+// Number of messages at or before the given offset (messages are sorted by offset)
+const countUpTo = (messages: ChatReplayMessage[], seconds: number): number => {
+  let low = 0;
+  let high = messages.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (messages[mid].offsetSeconds <= seconds) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+// The window under the playhead plus its neighbours
+const getWindowIndexes = (chunkIndex: number): number[] =>
+  [chunkIndex - 1, chunkIndex, chunkIndex + 1].filter(index => index >= 0);
+
+export default function ChatReplay({ videoId, streamName, currentTime, className = '' }: ChatReplayProps) {
+  const { isDarkMode } = useDarkMode();
+  // Loaded windows keyed by `${videoId}:${chunkIndex}`
+  const [chunks, setChunks] = useState<Map<string, ChatReplayMessage[]>>(new Map());
+  // Windows whose last request failed, with how many times in a row
+  const [failedChunks, setFailedChunks] = useState<Map<string, { message: string; attempts: number }>>(new Map());
+  // Bumped to re-request failed windows
+  const [retryCount, setRetryCount] = useState(0);
+  const requestedChunksRef = useRef<Set<string>>(new Set());
+
+  const chunkIndex = Math.max(0, Math.floor(currentTime / CHAT_REPLAY_CHUNK_SECONDS));
+
+  // Load the window under the playhead plus its neighbours, so seeking backwards
+  // shows earlier context and playback (at any rate) doesn't wait on the next window
+  useEffect(() => {
+    getWindowIndexes(chunkIndex).forEach(index => {
+      const key = `${videoId}:${index}`;
+      if (requestedChunksRef.current.has(key)) return;
+      requestedChunksRef.current.add(key);
+
+      getChatReplay(videoId, index * CHAT_REPLAY_CHUNK_SECONDS, (index + 1) * CHAT_REPLAY_CHUNK_SECONDS)
+        .then(messages => {
+          setChunks(prev => new Map(prev).set(key, messages));
+          setFailedChunks(prev => {
+            if (!prev.has(key)) return prev;
+            const next = new Map(prev);
+            next.delete(key);
+            return next;
+          });
+        })
+        .catch(err => {
+          console.error('Failed to load chat replay:', err);
+          // Let the window be requested again on the next retry or when the playhead reaches it
+          requestedChunksRef.current.delete(key);
+          setFailedChunks(prev => new Map(prev).set(key, {
+            message: err instanceof Error ? err.message : 'Failed to load chat replay',
+            attempts: (prev.get(key)?.attempts ?? 0) + 1,
+          }));
+        });
+    });
+  }, [videoId, chunkIndex, retryCount]);
+
+  const windowFailures = getWindowIndexes(chunkIndex)
+    .map(index => failedChunks.get(`${videoId}:${index}`))
+    .filter(failure => failure !== undefined);
+  const error = windowFailures[0]?.message ?? '';
+  const retryAttempts = Math.max(0, ...windowFailures.map(failure => failure.attempts));
+
+  // Retry failed windows around the playhead with backoff, even while it stays put
+  useEffect(() => {
+    if (retryAttempts === 0) return;
+    const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (retryAttempts - 1));
+    const timer = setTimeout(() => setRetryCount(count => count + 1), delay);
+    return () => clearTimeout(timer);
+  }, [retryAttempts, failedChunks]);
+
+  const loadedMessages = useMemo(() => {
+    const messages: ChatReplayMessage[] = [];
+    for (let index = Math.max(0, chunkIndex - 1); index <= chunkIndex + 1; index++) {
+      messages.push(...(chunks.get(`${videoId}:${index}`) ?? []));
+    }
+    return messages.sort((a, b) => a.offsetSeconds - b.offsetSeconds);
+  }, [chunks, videoId, chunkIndex]);
+
+  const visibleCount = countUpTo(loadedMessages, currentTime);
+  const visibleMessages = useMemo(
+    () => loadedMessages.slice(Math.max(0, visibleCount - MAX_REPLAY_MESSAGES), visibleCount),
+    [loadedMessages, visibleCount]
+  );
+
+  return (
+    <div className={`flex flex-col min-h-0 ${className}`}>
+      {error && (
+        <div className={`px-4 py-2 text-xs ${
+          isDarkMode ? 'bg-red-900/20 text-red-400' : 'bg-red-50 text-red-700'
+        }`}>
+          {error}
+        </div>
+      )}
+      <ChatComponent
+        streamId={videoId}
+        streamName={streamName}
+        variant="replay"
+        replayMessages={visibleMessages}
+        className="flex-1 min-h-0"
+      />
+    </div>
+  );
+}
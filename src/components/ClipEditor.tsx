@@ -0,0 +1,378 @@
+import { useContext, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useDarkMode } from '../contexts/DarkModeContext';
+import AuthContext from '../contexts/AuthContext';
+import Button from './Button';
+import { addRecentClip, createClip, getClip, type ClipStatus } from '../services/streamApi';
+import { isApiError } from '../services/apiClient';
+
+// Seconds of stream before the clip button was pressed that can be trimmed into a clip
+const CLIP_BUFFER_SECONDS = 60;
+const DEFAULT_CLIP_SECONDS = 30;
+const MIN_CLIP_SECONDS = 5;
+const MAX_TITLE_LENGTH = 100;
+const CLIP_POLL_INTERVAL_MS = 2000;
+// Stop polling after this long; the clip keeps processing and shows up on the clips page
+const CLIP_POLL_TIMEOUT_MS = 3 * 60 * 1000;
+
+type ClipEditorProps = {
+  streamId: string;
+  username: string;
+  // Wall-clock time of the frame on screen when the clip button was pressed
+  capturedAt: Date;
+  defaultTitle?: string;
+  onClose: () => void;
+};
+
+type CreatedClip = {
+  id: string;
+  status: ClipStatus;
+  progress?: number;
+};
+
+// Position in the buffer as time before the capture point, e.g. "-0:42"
+const formatBufferPosition = (seconds: number) => {
+  const before = Math.round(CLIP_BUFFER_SECONDS - seconds);
+  if (before === 0) return 'now';
+  return `-${Math.floor(before / 60)}:${(before % 60).toString().padStart(2, '0')}`;
+};
+
+// Trim and title a clip of the last CLIP_BUFFER_SECONDS of a live stream, then
+// follow its processing and offer links to share it
+export default function ClipEditor({ streamId, username, capturedAt, defaultTitle = '', onClose }: ClipEditorProps) {
+  const { isDarkMode } = useDarkMode();
+  const { user, token } = useContext(AuthContext);
+  const [title, setTitle] = useState(defaultTitle.slice(0, MAX_TITLE_LENGTH));
+  // Trim handles in seconds from the start of the buffer
+  const [trimStart, setTrimStart] = useState(CLIP_BUFFER_SECONDS - DEFAULT_CLIP_SECONDS);
+  const [trimEnd, setTrimEnd] = useState(CLIP_BUFFER_SECONDS);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [clip, setClip] = useState<CreatedClip | null>(null);
+  // Polling gave up while the clip was still processing
+  const [pollTimedOut, setPollTimedOut] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const clipLength = trimEnd - trimStart;
+  const clipPageUrl = clip
+    ? `${window.location.origin}/${encodeURIComponent(username)}/clips?clip=${encodeURIComponent(clip.id)}`
+    : '';
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Follow processing until the clip is ready or failed
+  const clipId = clip?.id;
+  const isProcessing = clip?.status === 'processing';
+  useEffect(() => {
+    if (!clipId || !isProcessing) return;
+
+    const startedAt = Date.now();
+    const interval = setInterval(async () => {
+      if (Date.now() - startedAt > CLIP_POLL_TIMEOUT_MS) {
+        clearInterval(interval);
+        setPollTimedOut(true);
+        return;
+      }
+      try {
+        const details = await getClip(clipId);
+        setClip({ id: clipId, status: details.status, progress: details.progress });
+        if (details.status !== 'processing') clearInterval(interval);
+      } catch (err) {
+        // Backends without a status endpoint only tell us the clip was accepted
+        if (isApiError(err, 'not_found')) {
+          clearInterval(interval);
+          setClip({ id: clipId, status: 'ready' });
+        } else {
+          console.error('Failed to check clip status:', err);
+        }
+      }
+    }, CLIP_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [clipId, isProcessing]);
+
+  const updateTrimStart = (value: number) => {
+    setTrimStart(Math.min(value, trimEnd - MIN_CLIP_SECONDS));
+  };
+
+  const updateTrimEnd = (value: number) => {
+    setTrimEnd(Math.max(value, trimStart + MIN_CLIP_SECONDS));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+
+    setSubmitting(true);
+    setError('');
+    try {
+      const result = await createClip(token, streamId, title.trim(), {
+        capturedAt: capturedAt.toISOString(),
+        startSecondsBefore: CLIP_BUFFER_SECONDS - trimStart,
+        endSecondsBefore: CLIP_BUFFER_SECONDS - trimEnd,
+      });
+      if (!result.success || !result.clipId) {
+        throw new Error(result.message || 'Failed to create clip');
+      }
+      addRecentClip(username, result.clipId);
+      setClip({ id: result.clipId, status: result.status ?? 'processing' });
+    } catch (err) {
+      console.error('Failed to create clip:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create clip');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(clipPageUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy clip link:', err);
+    }
+  };
+
+  const shareClip = async () => {
+    try {
+      await navigator.share({ title: title.trim() || `Clip from ${username}`, url: clipPageUrl });
+    } catch {
+      // Dismissing the share sheet rejects too
+    }
+  };
+
+  const inputClassName = `w-full px-3 py-2 rounded-md border text-sm ${
+    isDarkMode
+      ? 'bg-gray-800 border-gray-600 text-white placeholder-gray-500'
+      : 'bg-white border-gray-300 text-gray-900 placeholder-gray-400'
+  } focus:outline-none focus:ring-2 focus:ring-blue-500`;
+
+  const labelClassName = `block text-sm font-medium mb-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`;
+  const hintClassName = `text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`;
+
+  const renderContent = () => {
+    if (!user || !token) {
+      return (
+        <div className="space-y-4">
+          <p className={`text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+            Log in to clip this stream.
+          </p>
+          <Link to="/login" className="inline-block text-blue-500 hover:underline text-sm font-medium">
+            Log in
+          </Link>
+        </div>
+      );
+    }
+
+    if (clip) {
+      return (
+        <div className="space-y-4">
+          {clip.status === 'processing' && pollTimedOut && (
+            <div className={`p-3 rounded-md text-sm ${
+              isDarkMode ? 'bg-yellow-900/20 border border-yellow-800 text-yellow-400' : 'bg-yellow-50 border border-yellow-200 text-yellow-700'
+            }`}>
+              Your clip is taking longer than usual. It's still processing and will be on the clips page once it's ready.
+            </div>
+          )}
+
+          {clip.status === 'processing' && !pollTimedOut && (
+            <div>
+              <div className={`text-sm mb-2 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                Processing clip{clip.progress !== undefined ? ` (${Math.round(clip.progress)}%)` : '...'}
+              </div>
+              <div className={`h-2 rounded-full overflow-hidden ${isDarkMode ? 'bg-gray-800' : 'bg-gray-200'}`}>
+                {clip.progress !== undefined ? (
+                  <div className="h-full bg-blue-600 transition-all" style={{ width: `${Math.min(100, clip.progress)}%` }} />
+                ) : (
+                  <div className="h-full w-1/3 bg-blue-600 animate-pulse" />
+                )}
+              </div>
+              <p className={`mt-2 ${hintClassName}`}>
+                You can close this window; the clip will keep processing.
+              </p>
+            </div>
+          )}
+
+          {clip.status === 'ready' && (
+            <div className={`p-3 rounded-md text-sm ${
+              isDarkMode ? 'bg-green-900/20 border border-green-800 text-green-400' : 'bg-green-50 border border-green-200 text-green-700'
+            }`}>
+              Your clip is ready.
+            </div>
+          )}
+
+          {clip.status === 'failed' && (
+            <div className={`p-3 rounded-md text-sm ${
+              isDarkMode ? 'bg-red-900/20 border border-red-800 text-red-400' : 'bg-red-50 border border-red-200 text-red-700'
+            }`}>
+              Processing failed. Please try clipping again.
+            </div>
+          )}
+
+          {clip.status !== 'failed' && (
+            <>
+              <div className="flex gap-3 items-center">
+                <input
+                  type="text"
+                  value={clipPageUrl}
+                  readOnly
+                  onFocus={(e) => e.target.select()}
+                  className={`flex-1 min-w-0 px-3 py-2 rounded-md border text-sm font-mono ${
+                    isDarkMode ? 'bg-gray-800 border-gray-600 text-gray-300' : 'bg-gray-50 border-gray-300 text-gray-700'
+                  }`}
+                />
+                <div>
+                  <Button type="button" size="sm" onClick={copyLink}>
+                    {copied ? 'Copied!' : 'Copy link'}
+                  </Button>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-4 text-sm">
+                <Link
+                  to={`/${encodeURIComponent(username)}/clips?clip=${encodeURIComponent(clip.id)}`}
+                  className="text-blue-500 hover:underline font-medium"
+                  onClick={onClose}
+                >
+                  View on clips page
+                </Link>
+                <a
+                  href={`https://twitter.com/intent/tweet?url=${encodeURIComponent(clipPageUrl)}&text=${encodeURIComponent(title.trim() || `Clip from ${username}`)}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-500 hover:underline font-medium"
+                >
+                  Share on X
+                </a>
+                {'share' in navigator && (
+                  <button type="button" onClick={shareClip} className="text-blue-500 hover:underline font-medium">
+                    More sharing options
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      );
+    }
+
+    const trackStart = (trimStart / CLIP_BUFFER_SECONDS) * 100;
+    const trackWidth = (clipLength / CLIP_BUFFER_SECONDS) * 100;
+
+    return (
+      <form onSubmit={handleSubmit} className="space-y-5">
+        <div>
+          <label htmlFor="clip-title" className={labelClassName}>Title</label>
+          <input
+            id="clip-title"
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            maxLength={MAX_TITLE_LENGTH}
+            placeholder="Give your clip a title"
+            className={inputClassName}
+            autoFocus
+          />
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <span className={labelClassName}>Trim</span>
+            <span className={hintClassName}>
+              {formatBufferPosition(trimStart)} to {formatBufferPosition(trimEnd)} · {clipLength}s
+            </span>
+          </div>
+          {/* Selected part of the captured buffer */}
+          <div className={`relative h-8 rounded-md mb-3 ${isDarkMode ? 'bg-gray-800' : 'bg-gray-200'}`}>
+            <div
+              className="absolute top-0 bottom-0 rounded-md bg-blue-600/60 border-2 border-blue-500"
+              style={{ left: `${trackStart}%`, width: `${trackWidth}%` }}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block">
+              <span className={hintClassName}>Start</span>
+              <input
+                type="range"
+                min={0}
+                max={CLIP_BUFFER_SECONDS - MIN_CLIP_SECONDS}
+                value={trimStart}
+                onChange={(e) => updateTrimStart(Number(e.target.value))}
+                className="w-full"
+              />
+            </label>
+            <label className="block">
+              <span className={hintClassName}>End</span>
+              <input
+                type="range"
+                min={MIN_CLIP_SECONDS}
+                max={CLIP_BUFFER_SECONDS}
+                value={trimEnd}
+                onChange={(e) => updateTrimEnd(Number(e.target.value))}
+                className="w-full"
+              />
+            </label>
+          </div>
+          <p className={`mt-1 ${hintClassName}`}>
+            Covers the last {CLIP_BUFFER_SECONDS} seconds before you pressed clip.
+          </p>
+        </div>
+
+        {error && (
+          <div className={`p-3 rounded-md text-sm ${
+            isDarkMode ? 'bg-red-900/20 border border-red-800 text-red-400' : 'bg-red-50 border border-red-200 text-red-700'
+          }`}>
+            {error}
+          </div>
+        )}
+
+        <div>
+          <Button type="submit" disabled={submitting}>
+            {submitting ? 'Creating clip...' : 'Create clip'}
+          </Button>
+        </div>
+      </form>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className={`w-full max-w-lg rounded-xl shadow-2xl ${
+          isDarkMode ? 'bg-gray-900 border border-gray-800' : 'bg-white'
+        }`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className={`flex items-center justify-between p-4 border-b ${
+          isDarkMode ? 'border-gray-700' : 'border-gray-200'
+        }`}>
+          <h3 className={`text-lg font-semibold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+            Create Clip
+          </h3>
+          <button
+            type="button"
+            onClick={onClose}
+            className={`p-2 rounded-lg transition-colors ${
+              isDarkMode
+                ? 'text-gray-400 hover:text-white hover:bg-gray-800'
+                : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+            }`}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <div className="p-6">
+          {renderContent()}
+        </div>
+      </div>
+    </div>
+  );
+}
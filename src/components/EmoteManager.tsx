@@ -0,0 +1,238 @@
+import { useState, useEffect, useContext, useRef } from 'react';
+import { useDarkMode } from '../contexts/DarkModeContext';
+import AuthContext from '../contexts/AuthContext';
+import Button from './Button';
+import {
+  getChannelEmotes,
+  uploadEmote,
+  deleteEmote,
+  EMOTE_CODE_PATTERN,
+  EMOTE_FILE_TYPES,
+  MAX_EMOTE_FILE_SIZE,
+  type Emote,
+} from '../services/emoteApi';
+
+type EmoteManagerProps = {
+  username: string;
+};
+
+export default function EmoteManager({ username }: EmoteManagerProps) {
+  const { isDarkMode } = useDarkMode();
+  const { token } = useContext(AuthContext);
+
+  const [emotes, setEmotes] = useState<Emote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [code, setCode] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [error, setError] = useState<string>('');
+  const [success, setSuccess] = useState<string>('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    getChannelEmotes(username)
+      .then(data => {
+        if (!cancelled) setEmotes(data);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load emotes');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [username]);
+
+  // Release the object URL used for the upload preview
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0] || null;
+    setError('');
+
+    if (selected && !EMOTE_FILE_TYPES.includes(selected.type)) {
+      setError('Emotes must be PNG, GIF or WebP images');
+      event.target.value = '';
+      return;
+    }
+    if (selected && selected.size > MAX_EMOTE_FILE_SIZE) {
+      setError('Emote images must be 1MB or smaller');
+      event.target.value = '';
+      return;
+    }
+
+    setFile(selected);
+    setPreviewUrl(selected ? URL.createObjectURL(selected) : null);
+  };
+
+  const handleUpload = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!token || !file) return;
+
+    const trimmedCode = code.trim();
+    if (!EMOTE_CODE_PATTERN.test(trimmedCode)) {
+      setError('Emote codes must be 2-25 letters, numbers or underscores');
+      return;
+    }
+    if (emotes.some(emote => emote.code === trimmedCode)) {
+      setError(`You already have an emote called ${trimmedCode}`);
+      return;
+    }
+
+    setUploading(true);
+    setError('');
+    setSuccess('');
+    try {
+      const emote = await uploadEmote(token, trimmedCode, file);
+      setEmotes(prev => [...prev, emote]);
+      setSuccess(`Added ${emote.code}. Type :${emote.code}: or ${emote.code} in chat to use it.`);
+      setCode('');
+      setFile(null);
+      setPreviewUrl(null);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload emote');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDelete = async (emote: Emote) => {
+    if (!token || deletingId) return;
+
+    setDeletingId(emote.id);
+    setError('');
+    setSuccess('');
+    try {
+      await deleteEmote(token, emote.id);
+      setEmotes(prev => prev.filter(existing => existing.id !== emote.id));
+      setSuccess(`Removed ${emote.code}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete emote');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const inputClassName = `px-3 py-2 rounded-md border text-sm ${
+    isDarkMode
+      ? 'bg-gray-800 border-gray-600 text-white placeholder-gray-400'
+      : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
+  } focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50`;
+
+  return (
+    <div className={`p-6 rounded-lg shadow-md mb-6 ${
+      isDarkMode
+        ? 'bg-gray-900 border border-gray-800'
+        : 'bg-white'
+    }`}>
+      <h3 className={`text-lg font-semibold mb-2 ${
+        isDarkMode ? 'text-white' : 'text-gray-900'
+      }`}>
+        Channel Emotes
+      </h3>
+      <p className={`text-sm mb-4 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+        Emotes you upload can be used by everyone in your chat.
+      </p>
+
+      {/* Success/Error Messages */}
+      {success && (
+        <div className="mb-4 p-3 text-sm rounded-md text-green-700 bg-green-50 border border-green-200 dark:bg-green-900/20 dark:border-green-800 dark:text-green-400">
+          {success}
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 text-sm rounded-md text-red-700 bg-red-50 border border-red-200 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className={`text-center py-4 ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+          Loading emotes...
+        </div>
+      ) : emotes.length === 0 ? (
+        <p className={`text-sm mb-4 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          No channel emotes yet.
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3 mb-4">
+          {emotes.map(emote => (
+            <div
+              key={emote.id}
+              className={`flex items-center gap-2 p-2 rounded-md border ${
+                isDarkMode ? 'border-gray-700' : 'border-gray-200'
+              }`}
+            >
+              <img src={emote.url} alt={emote.code} className="w-8 h-8 object-contain" />
+              <span className={`flex-1 min-w-0 truncate text-sm ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+                {emote.code}
+              </span>
+              <button
+                type="button"
+                onClick={() => handleDelete(emote)}
+                disabled={deletingId !== null}
+                className={`text-xs px-2 py-1 rounded-md transition-colors ${
+                  isDarkMode
+                    ? 'text-red-400 hover:text-red-300 hover:bg-gray-800'
+                    : 'text-red-600 hover:text-red-700 hover:bg-red-50'
+                } ${deletingId !== null ? 'opacity-50 cursor-not-allowed' : ''}`}
+              >
+                {deletingId === emote.id ? '...' : 'Remove'}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Upload form */}
+      <form onSubmit={handleUpload} className="pt-4 border-t border-gray-200 dark:border-gray-700">
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            type="text"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="Emote code"
+            maxLength={25}
+            disabled={uploading}
+            className={`${inputClassName} w-40`}
+          />
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={EMOTE_FILE_TYPES.join(',')}
+            onChange={handleFileChange}
+            disabled={uploading}
+            className={`text-sm ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}
+          />
+          {previewUrl && (
+            <img src={previewUrl} alt="Emote preview" className="w-8 h-8 object-contain" />
+          )}
+          <div>
+            <Button
+              type="submit"
+              disabled={uploading || !file || !code.trim()}
+              className="bg-blue-600 hover:bg-blue-700 text-white"
+            >
+              {uploading ? 'Uploading...' : 'Upload Emote'}
+            </Button>
+          </div>
+        </div>
+        <p className={`text-xs mt-2 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          PNG, GIF or WebP, up to 1MB. Square images of 112×112 pixels look best.
+        </p>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useEffect, useRef, useState } from 'react';
+import { useDarkMode } from '../contexts/DarkModeContext';
+import { addRecentEmoteCode, getRecentEmoteCodes, type Emote } from '../services/emoteApi';
+
+type EmotePickerProps = {
+  globalEmotes: Emote[];
+  channelEmotes: Emote[];
+  channelName?: string;
+  onSelect: (emote: Emote) => void;
+  disabled?: boolean;
+};
+
+export default function EmotePicker({ globalEmotes, channelEmotes, channelName, onSelect, disabled = false }: EmotePickerProps) {
+  const { isDarkMode } = useDarkMode();
+  const [isOpen, setIsOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [recentCodes, setRecentCodes] = useState<string[]>(() => getRecentEmoteCodes());
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking outside the picker
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const allEmotes = [...channelEmotes, ...globalEmotes];
+  const query = search.trim().toLowerCase();
+  const matches = (emote: Emote) => !query || emote.code.toLowerCase().includes(query);
+
+  const recentEmotes = recentCodes
+    .map(code => allEmotes.find(emote => emote.code === code))
+    .filter((emote): emote is Emote => emote !== undefined);
+
+  const sections = [
+    // Recently used is hidden while searching so results aren't listed twice
+    { title: 'Recently used', emotes: query ? [] : recentEmotes },
+    { title: channelName ? `${channelName}'s emotes` : 'Channel emotes', emotes: channelEmotes.filter(matches) },
+    { title: 'Global emotes', emotes: globalEmotes.filter(matches) },
+  ].filter(section => section.emotes.length > 0);
+
+  const handleSelect = (emote: Emote) => {
+    setRecentCodes(addRecentEmoteCode(emote.code));
+    onSelect(emote);
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(prev => !prev)}
+        disabled={disabled}
+        className={`h-full px-2 rounded-lg border text-lg leading-none transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+          isDarkMode
+            ? 'border-gray-600 hover:bg-gray-800'
+            : 'border-gray-300 hover:bg-gray-100'
+        }`}
+        title="Emotes"
+      >
+        🙂
+      </button>
+
+      {isOpen && (
+        <div className={`absolute bottom-full right-0 mb-2 w-72 rounded-lg shadow-lg border z-30 ${
+          isDarkMode ? 'bg-gray-900 border-gray-700' : 'bg-white border-gray-200'
+        }`}>
+          <div className={`p-2 border-b ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search emotes"
+              autoFocus
+              className={`w-full px-2 py-1 rounded-md border text-sm ${
+                isDarkMode
+                  ? 'bg-gray-800 border-gray-600 text-white placeholder-gray-400'
+                  : 'bg-white border-gray-300 text-gray-900 placeholder-gray-500'
+              } focus:outline-none focus:ring-2 focus:ring-blue-500`}
+            />
+          </div>
+
+          <div className="max-h-64 overflow-y-auto p-2 space-y-3">
+            {sections.length === 0 ? (
+              <p className={`text-xs text-center py-4 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                {allEmotes.length === 0 ? 'No emotes available' : 'No emotes match your search'}
+              </p>
+            ) : (
+              sections.map(section => (
+                <div key={section.title}>
+                  <div className={`text-xs font-medium mb-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                    {section.title}
+                  </div>
+                  <div className="grid grid-cols-8 gap-1">
+                    {section.emotes.map(emote => (
+                      <button
+                        key={`${section.title}-${emote.id}`}
+                        type="button"
+                        onClick={() => handleSelect(emote)}
+                        className={`p-1 rounded ${isDarkMode ? 'hover:bg-gray-800' : 'hover:bg-gray-100'}`}
+                        title={emote.code}
+                      >
+                        <img src={emote.url} alt={emote.code} className="w-6 h-6 object-contain" loading="lazy" />
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
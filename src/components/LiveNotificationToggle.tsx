@@ -0,0 +1,84 @@
+import { useContext, useEffect, useState } from 'react';
+import { useDarkMode } from '../contexts/DarkModeContext';
+import AuthContext from '../contexts/AuthContext';
+import { getLiveNotificationChannels, setLiveNotificationChannel } from '../services/notificationsApi';
+import { enableLiveNotifications, getLiveNotificationStatus } from '../services/liveNotifications';
+
+type LiveNotificationToggleProps = {
+  username: string;
+};
+
+// Bell next to the Follow button that turns go-live notifications for one
+// followed channel on or off. Turning one on opts this browser in first.
+export default function LiveNotificationToggle({ username }: LiveNotificationToggleProps) {
+  const { isDarkMode } = useDarkMode();
+  const { token } = useContext(AuthContext);
+  const [enabled, setEnabled] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+
+    getLiveNotificationChannels(token)
+      .then(channels => {
+        if (!cancelled) setEnabled(channels.some(channel => channel.username === username && channel.enabled));
+      })
+      .catch(error => console.error('Failed to load notification settings:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, username]);
+
+  // The preference only takes effect once the browser is opted in
+  const isActive = enabled && getLiveNotificationStatus() === 'enabled';
+
+  const handleToggle = async () => {
+    if (!token || busy) return;
+    setBusy(true);
+    try {
+      if (!isActive && getLiveNotificationStatus() !== 'enabled') {
+        const status = await enableLiveNotifications(token);
+        if (status === 'denied') {
+          alert('Notifications are blocked for this site. Allow them in your browser settings to get go-live alerts.');
+          return;
+        }
+        if (status !== 'enabled') return;
+      }
+      const channel = await setLiveNotificationChannel(token, username, !isActive);
+      setEnabled(channel.enabled);
+    } catch (error) {
+      console.error('Failed to update notification settings:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update notification settings');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (getLiveNotificationStatus() === 'unsupported') return null;
+
+  return (
+    <button
+      onClick={handleToggle}
+      disabled={busy}
+      title={isActive ? `Turn off notifications when ${username} goes live` : `Notify me when ${username} goes live`}
+      aria-pressed={isActive}
+      className={`p-2 rounded-lg transition-colors disabled:opacity-50 ${
+        isActive
+          ? 'bg-blue-600 text-white hover:bg-blue-700'
+          : isDarkMode ? 'bg-gray-700 text-white hover:bg-gray-600' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+      }`}
+    >
+      {isActive ? (
+        <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+          <path d="M12 22a2 2 0 002-2h-4a2 2 0 002 2zm6-6V11c0-3.07-1.64-5.64-4.5-6.32V4a1.5 1.5 0 00-3 0v.68C7.63 5.36 6 7.92 6 11v5l-2 2v1h16v-1l-2-2z" />
+        </svg>
+      ) : (
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+      )}
+    </button>
+  );
+}
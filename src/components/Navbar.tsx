@@ -3,6 +3,7 @@ import { NavLink, useNavigate, useLocation } from 'react-router-dom';
 import AuthContext from '../contexts/AuthContext';
 import { useDarkMode } from '../contexts/DarkModeContext';
 import { getPublicUserProfile } from '../services/streamApi';
+import NotificationCenter from './NotificationCenter';
 import distortedLogo from '../assets/distorted_logo.png';
 
 export default function Navbar() {
@@ -222,6 +223,9 @@ export default function Navbar() {
                 </svg>
               )}
             </button>
+
+            {/* Notification Center */}
+            {user && <NotificationCenter />}
             
             {/* User Menu */}
             {user ? (
@@ -324,6 +328,23 @@ export default function Navbar() {
                         <span>Security</span>
                       </button>
 
+                      <button
+                        onClick={() => {
+                          navigate('/account/notifications');
+                          setIsDropdownOpen(false);
+                        }}
+                        className={`w-full text-left px-4 py-2 text-sm transition-colors flex items-center space-x-2 ${
+                          isDarkMode
+                            ? 'text-gray-300 hover:bg-gray-800 hover:text-white'
+                            : 'text-gray-700 hover:bg-gray-100'
+                        }`}
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+                        </svg>
+                        <span>Notifications</span>
+                      </button>
+
                       <button
                         onClick={() => {
                           navigate('/subscriptions');
@@ -492,6 +513,9 @@ export default function Navbar() {
               )}
             </button>
 
+            {/* Notification Center */}
+            {user && <NotificationCenter />}
+
             {user ? (
               // Logged in - show profile dropdown
               <div className="relative" ref={dropdownRef}>
@@ -592,6 +616,23 @@ export default function Navbar() {
                         <span>Security</span>
                       </button>
 
+                      <button
+                        onClick={() => {
+                          navigate('/account/notifications');
+                          setIsDropdownOpen(false);
+                        }}
+                        className={`w-full text-left px-4 py-2 text-sm transition-colors flex items-center space-x-2 ${
+                          isDarkMode
+                            ? 'text-gray-300 hover:bg-gray-800 hover:text-white'
+                            : 'text-gray-700 hover:bg-gray-100'
+                        }`}
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+                        </svg>
+                        <span>Notifications</span>
+                      </button>
+
                       <button
                         onClick={() => {
                           navigate('/subscriptions');
@@ -0,0 +1,201 @@
+import { useContext, useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import AuthContext from '../contexts/AuthContext';
+import NotificationsContext from '../contexts/NotificationsContext';
+import { useDarkMode } from '../contexts/DarkModeContext';
+import {
+  isNotificationRead,
+  type AppNotification,
+  type NotificationType,
+} from '../services/notificationsApi';
+
+const NOTIFICATION_ICONS: Record<NotificationType, { path: string; className: string }> = {
+  stream_live: {
+    path: 'M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z',
+    className: 'bg-red-600',
+  },
+  follow: {
+    path: 'M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z',
+    className: 'bg-pink-600',
+  },
+  subscribe: {
+    path: 'M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z',
+    className: 'bg-purple-600',
+  },
+  mention: {
+    path: 'M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z',
+    className: 'bg-blue-600',
+  },
+  clip_created: {
+    path: 'M14.121 14.121L19 19m-7-7l7-7m-7 7l-2.879 2.879M12 12L9.121 9.121m0 5.758a3 3 0 10-4.243 4.243 3 3 0 004.243-4.243zm0-5.758a3 3 0 10-4.243-4.243 3 3 0 004.243 4.243z',
+    className: 'bg-green-600',
+  },
+};
+
+const describeNotification = (notification: AppNotification): string => {
+  switch (notification.type) {
+    case 'stream_live':
+      return `${notification.username} is live${notification.text ? `: ${notification.text}` : ''}`;
+    case 'follow':
+      return `${notification.username} followed you`;
+    case 'subscribe':
+      return `${notification.username} subscribed to you`;
+    case 'mention':
+      return `${notification.username} mentioned you${notification.channel ? ` in ${notification.channel}'s chat` : ''}`;
+    case 'clip_created':
+      return `${notification.username} clipped your stream${notification.text ? `: ${notification.text}` : ''}`;
+  }
+};
+
+const getNotificationLink = (notification: AppNotification): string => {
+  switch (notification.type) {
+    case 'mention':
+      return `/${notification.channel ?? notification.username}`;
+    case 'clip_created':
+      return notification.channel && notification.clipId
+        ? `/${notification.channel}/clips?clip=${encodeURIComponent(notification.clipId)}`
+        : `/${notification.channel ?? notification.username}/clips`;
+    default:
+      return `/${notification.username}`;
+  }
+};
+
+// Same format as the channel activity feed
+const formatNotificationTime = (timestamp: string): string => {
+  const diffMs = Date.now() - new Date(timestamp).getTime();
+  const diffMinutes = Math.floor(diffMs / (1000 * 60));
+  const diffHours = Math.floor(diffMs / (1000 * 60 * 60));
+  const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
+
+  if (diffMinutes < 1) return 'Just now';
+  if (diffMinutes < 60) return `${diffMinutes}m ago`;
+  if (diffHours < 24) return `${diffHours}h ago`;
+  if (diffDays < 7) return `${diffDays}d ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+// Navbar bell with an unread badge and a panel of recent events: followed
+// channels going live, new followers and subscribers, chat mentions and clips
+export default function NotificationCenter() {
+  const { user } = useContext(AuthContext);
+  const { notifications, readState, markRead, markAllRead } = useContext(NotificationsContext);
+  const { isDarkMode } = useDarkMode();
+  const navigate = useNavigate();
+  const [isOpen, setIsOpen] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const username = user?.username;
+
+  // Close the panel when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (panelRef.current && !panelRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, []);
+
+  if (!username) return null;
+
+  const unreadCount = notifications.filter(notification => !isNotificationRead(notification, readState)).length;
+
+  const openNotification = (notification: AppNotification) => {
+    markRead(notification.id);
+    setIsOpen(false);
+    navigate(getNotificationLink(notification));
+  };
+
+  return (
+    <div className="relative" ref={panelRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`relative p-2 rounded-lg transition-colors ${
+          isDarkMode
+            ? 'bg-gray-800 text-gray-300 hover:bg-gray-700 hover:text-white'
+            : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+        }`}
+        title="Notifications"
+        aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-600 text-white text-xs font-semibold flex items-center justify-center">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className={`absolute right-0 mt-2 w-80 rounded-lg shadow-lg border z-50 ${
+          isDarkMode
+            ? 'bg-gray-900 border-gray-700'
+            : 'bg-white border-gray-200'
+        }`}>
+          <div className={`flex items-center justify-between px-4 py-3 border-b ${
+            isDarkMode ? 'border-gray-700' : 'border-gray-200'
+          }`}>
+            <h3 className={`text-sm font-semibold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+              Notifications
+            </h3>
+            <button
+              onClick={markAllRead}
+              disabled={unreadCount === 0}
+              className="text-xs font-medium text-blue-500 hover:text-blue-400 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Mark all as read
+            </button>
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className={`px-4 py-8 text-sm text-center ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+              You're all caught up
+            </p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto py-1">
+              {notifications.map(notification => {
+                const read = isNotificationRead(notification, readState);
+                const icon = NOTIFICATION_ICONS[notification.type];
+                return (
+                  <li
+                    key={notification.id}
+                    className={`flex items-start gap-3 px-4 py-3 transition-colors ${
+                      isDarkMode ? 'hover:bg-gray-800' : 'hover:bg-gray-100'
+                    } ${read ? 'opacity-60' : ''}`}
+                  >
+                    <span className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center text-white ${icon.className}`}>
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={icon.path} />
+                      </svg>
+                    </span>
+                    <button onClick={() => openNotification(notification)} className="flex-1 min-w-0 text-left">
+                      <p className={`text-sm break-words ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+                        {describeNotification(notification)}
+                      </p>
+                      <p className={`text-xs mt-0.5 ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+                        {formatNotificationTime(notification.createdAt)}
+                      </p>
+                    </button>
+                    {!read && (
+                      <button
+                        onClick={() => markRead(notification.id)}
+                        title="Mark as read"
+                        aria-label="Mark as read"
+                        className="flex-shrink-0 mt-1.5 w-2.5 h-2.5 rounded-full bg-blue-500 hover:bg-blue-400"
+                      />
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
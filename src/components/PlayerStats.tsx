@@ -0,0 +1,175 @@
+import { useEffect, useState, type RefObject } from 'react';
+import type videojs from 'video.js';
+import { formatBandwidth } from '../services/hlsPlaylist';
+
+type VideoPlayer = ReturnType<typeof videojs>;
+
+// The subset of the VHS (videojs-http-streaming) handler and its parsed playlists we read.
+// VHS doesn't ship types for these, so they are declared here.
+interface VhsPlaylist {
+  resolvedUri?: string;
+  attributes?: {
+    RESOLUTION?: { width: number; height: number };
+    BANDWIDTH?: number;
+    'FRAME-RATE'?: number;
+    CODECS?: string;
+  };
+  targetDuration?: number;
+  partTargetDuration?: number;
+  segments?: { duration: number }[];
+}
+
+interface VhsHandler {
+  // Measured segment download bandwidth in bits per second
+  bandwidth?: number;
+  playlists?: { media: () => VhsPlaylist | undefined };
+}
+
+interface PlayerStatsSnapshot {
+  rendition: string;
+  codecs: string;
+  videoSize: string;
+  bandwidth: string;
+  buffer: string;
+  droppedFrames: string;
+  playbackRate: string;
+  segmentDurations: string;
+  playbackUrl: string;
+  mediaPlaylistUrl: string;
+}
+
+interface PlayerStatsProps {
+  playerRef: RefObject<VideoPlayer | null>;
+  latencySeconds: number | null;
+  onClose: () => void;
+}
+
+const collectStats = (player: VideoPlayer): PlayerStatsSnapshot => {
+  // tech(true) acknowledges the direct tech access so video.js doesn't warn
+  const vhs = (player.tech(true) as unknown as { vhs?: VhsHandler }).vhs;
+  const media = vhs?.playlists?.media();
+  const attributes = media?.attributes;
+
+  let rendition = 'Unknown';
+  if (attributes?.RESOLUTION) {
+    const frameRate = attributes['FRAME-RATE'] ? `@${Math.round(attributes['FRAME-RATE'])}` : '';
+    rendition = `${attributes.RESOLUTION.width}x${attributes.RESOLUTION.height}${frameRate}`;
+  }
+  if (attributes?.BANDWIDTH) {
+    rendition += ` · ${formatBandwidth(attributes.BANDWIDTH)}`;
+  }
+
+  const buffered = Math.max(0, player.bufferedEnd() - (player.currentTime() ?? 0));
+  const quality: { droppedVideoFrames?: number; totalVideoFrames?: number } | undefined = player.getVideoPlaybackQuality();
+
+  const segments = media?.segments ?? [];
+  const lastSegment = segments[segments.length - 1];
+  const segmentParts = [
+    media?.targetDuration !== undefined ? `target ${media.targetDuration}s` : null,
+    lastSegment ? `last ${lastSegment.duration.toFixed(2)}s` : null,
+    media?.partTargetDuration !== undefined ? `part ${media.partTargetDuration}s` : null,
+  ].filter(Boolean);
+
+  return {
+    rendition,
+    codecs: attributes?.CODECS || 'Unknown',
+    videoSize: `${player.videoWidth()}x${player.videoHeight()}`,
+    bandwidth: vhs?.bandwidth ? formatBandwidth(vhs.bandwidth) : 'Unknown',
+    buffer: `${buffered.toFixed(1)}s`,
+    droppedFrames: quality?.totalVideoFrames !== undefined
+      ? `${quality.droppedVideoFrames ?? 0} / ${quality.totalVideoFrames}`
+      : 'Unknown',
+    playbackRate: `${(player.playbackRate() ?? 1).toFixed(2)}x`,
+    segmentDurations: segmentParts.length > 0 ? segmentParts.join(', ') : 'Unknown',
+    playbackUrl: player.currentSrc() || 'Unknown',
+    mediaPlaylistUrl: media?.resolvedUri || 'Unknown',
+  };
+};
+
+export default function PlayerStats({ playerRef, latencySeconds, onClose }: PlayerStatsProps) {
+  const [stats, setStats] = useState<PlayerStatsSnapshot | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // Sample the player once a second while the overlay is open
+  useEffect(() => {
+    const update = () => {
+      const player = playerRef.current;
+      if (!player) return;
+      try {
+        setStats(collectStats(player));
+      } catch (error) {
+        console.log('Failed to read player stats:', error);
+      }
+    };
+
+    update();
+    const interval = setInterval(update, 1000);
+    return () => clearInterval(interval);
+  }, [playerRef]);
+
+  const rows: [string, string][] = stats ? [
+    ['Rendition', stats.rendition],
+    ['Codecs', stats.codecs],
+    ['Video size', stats.videoSize],
+    ['Bandwidth', stats.bandwidth],
+    ['Buffer', stats.buffer],
+    ['Dropped frames', stats.droppedFrames],
+    ['Latency to live', latencySeconds !== null ? `${latencySeconds.toFixed(1)}s` : 'Unknown'],
+    ['Playback rate', stats.playbackRate],
+    ['Segments', stats.segmentDurations],
+    ['Playback URL', stats.playbackUrl],
+    ['Media playlist', stats.mediaPlaylistUrl],
+  ] : [];
+
+  // Plain-text copy for pasting into support requests
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(rows.map(([label, value]) => `${label}: ${value}`).join('\n'));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy player stats:', error);
+    }
+  };
+
+  return (
+    <div className="absolute top-4 left-4 z-30 max-w-[calc(100%-2rem)] w-96 rounded-lg bg-black/80 p-3 text-xs text-gray-100 font-mono shadow-lg">
+      <div className="flex items-center justify-between mb-2 font-sans">
+        <span className="font-semibold text-sm text-white">Stats for nerds</span>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={handleCopy}
+            disabled={!stats}
+            className="px-2 py-0.5 rounded text-gray-300 hover:text-white hover:bg-white/10 transition-colors"
+          >
+            {copied ? 'Copied' : 'Copy'}
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-1 rounded text-gray-300 hover:text-white hover:bg-white/10 transition-colors"
+            title="Close stats"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      {stats ? (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5">
+          {rows.map(([label, value]) => (
+            <div key={label} className="contents">
+              <dt className="text-gray-400 whitespace-nowrap">{label}</dt>
+              <dd className="break-all">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      ) : (
+        <div className="text-gray-400">Waiting for player...</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,370 @@
+import { useContext, useEffect, useState } from 'react';
+import { useDarkMode } from '../contexts/DarkModeContext';
+import AuthContext from '../contexts/AuthContext';
+import Button from './Button';
+import {
+  createScheduleSegment,
+  updateScheduleSegment,
+  updateScheduleOccurrence,
+  type ScheduleOccurrence,
+  type ScheduleSegment,
+  type ScheduleSegmentInput,
+} from '../services/scheduleApi';
+import {
+  getBrowserTimeZone,
+  getTimeZoneAbbreviation,
+  getZonedDateTime,
+  zonedTimeToDate,
+  type ZonedDateTime,
+} from '../services/timeZones';
+
+export type ScheduleEditorMode =
+  // date is a calendar day; only its year, month and day are used
+  | { type: 'create'; date?: Date }
+  | { type: 'series'; segment: ScheduleSegment }
+  | { type: 'occurrence'; segment: ScheduleSegment; occurrence: ScheduleOccurrence };
+
+type ScheduleEventEditorProps = {
+  mode: ScheduleEditorMode;
+  onSaved: (segment: ScheduleSegment) => void;
+  onClose: () => void;
+};
+
+const MAX_TITLE_LENGTH = 140;
+const DEFAULT_START_HOUR = 19;
+
+const DURATION_OPTIONS = [30, 60, 90, 120, 180, 240, 300, 360, 480, 720];
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatDuration = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hours === 0) return `${mins} min`;
+  return mins === 0 ? `${hours} hr` : `${hours} hr ${mins} min`;
+};
+
+const DATE_INPUT_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME_INPUT_PATTERN = /^(\d{2}):(\d{2})$/;
+
+const toDateInputValue = (zoned: ZonedDateTime) =>
+  `${zoned.year}-${zoned.month.toString().padStart(2, '0')}-${zoned.day.toString().padStart(2, '0')}`;
+
+const toTimeInputValue = (zoned: ZonedDateTime) =>
+  `${zoned.hour.toString().padStart(2, '0')}:${zoned.minute.toString().padStart(2, '0')}`;
+
+// Wall-clock start the form opens with, in the zone being edited
+const getInitialStart = (mode: ScheduleEditorMode, timeZone: string): ZonedDateTime => {
+  if (mode.type === 'series') return getZonedDateTime(new Date(mode.segment.startTime), timeZone);
+  if (mode.type === 'occurrence') return getZonedDateTime(mode.occurrence.start, timeZone);
+  const zoned = mode.date
+    ? { year: mode.date.getFullYear(), month: mode.date.getMonth() + 1, day: mode.date.getDate(), weekday: mode.date.getDay() }
+    : getZonedDateTime(new Date(), timeZone);
+  return { ...zoned, hour: DEFAULT_START_HOUR, minute: 0, second: 0 };
+};
+
+// Instant for the form's date and time in the zone, or null when they don't parse
+const parseStart = (date: string, time: string, timeZone: string): Date | null => {
+  const dateMatch = DATE_INPUT_PATTERN.exec(date);
+  const timeMatch = TIME_INPUT_PATTERN.exec(time);
+  if (!dateMatch || !timeMatch) return null;
+  return zonedTimeToDate({
+    year: Number(dateMatch[1]),
+    month: Number(dateMatch[2]),
+    day: Number(dateMatch[3]),
+    hour: Number(timeMatch[1]),
+    minute: Number(timeMatch[2]),
+  }, timeZone);
+};
+
+// Create or edit a schedule entry: a one-off event, a weekly series, or a
+// single occurrence of a series
+export default function ScheduleEventEditor({ mode, onSaved, onClose }: ScheduleEventEditorProps) {
+  const { isDarkMode } = useDarkMode();
+  const { token } = useContext(AuthContext);
+  const segment = mode.type === 'create' ? null : mode.segment;
+  const occurrence = mode.type === 'occurrence' ? mode.occurrence : null;
+  // Existing entries keep the zone they were scheduled in; new ones use the streamer's
+  const timeZone = segment?.timeZone ?? getBrowserTimeZone();
+  const initialStart = getInitialStart(mode, timeZone);
+
+  const [title, setTitle] = useState(occurrence?.title ?? segment?.title ?? '');
+  const [category, setCategory] = useState(occurrence?.category ?? segment?.category ?? '');
+  const [date, setDate] = useState(toDateInputValue(initialStart));
+  const [time, setTime] = useState(toTimeInputValue(initialStart));
+  const [durationMinutes, setDurationMinutes] = useState(occurrence?.durationMinutes ?? segment?.durationMinutes ?? 120);
+  const [repeatsWeekly, setRepeatsWeekly] = useState(segment?.recurrence.frequency === 'weekly');
+  const [weekdays, setWeekdays] = useState<number[]>(
+    segment?.recurrence.frequency === 'weekly' ? segment.recurrence.weekdays : [initialStart.weekday]
+  );
+  const [until, setUntil] = useState(segment?.recurrence.frequency === 'weekly' ? segment.recurrence.until ?? '' : '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const durationOptions = DURATION_OPTIONS.includes(durationMinutes)
+    ? DURATION_OPTIONS
+    : [...DURATION_OPTIONS, durationMinutes].sort((a, b) => a - b);
+
+  const toggleWeekday = (weekday: number) => {
+    setWeekdays(prev => prev.includes(weekday)
+      ? prev.filter(day => day !== weekday)
+      : [...prev, weekday].sort((a, b) => a - b));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+
+    const start = parseStart(date, time, timeZone);
+    if (!title.trim()) {
+      setError('Please enter a title');
+      return;
+    }
+    if (!start || Number.isNaN(start.getTime())) {
+      setError('Please enter a valid date and time');
+      return;
+    }
+    if (repeatsWeekly && weekdays.length === 0) {
+      setError('Choose at least one day of the week');
+      return;
+    }
+    if (repeatsWeekly && until && until < date) {
+      setError('The end date must be after the first stream');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      let saved: ScheduleSegment;
+      if (mode.type === 'occurrence') {
+        saved = await updateScheduleOccurrence(token, mode.segment.id, {
+          originalStart: mode.occurrence.originalStart,
+          // Editing doesn't restore a cancelled stream
+          cancelled: mode.occurrence.cancelled || undefined,
+          title: title.trim(),
+          category: category.trim(),
+          startTime: start.toISOString(),
+          durationMinutes,
+        });
+      } else {
+        const input: ScheduleSegmentInput = {
+          title: title.trim(),
+          category: category.trim(),
+          startTime: start.toISOString(),
+          timeZone,
+          durationMinutes,
+          recurrence: repeatsWeekly
+            ? { frequency: 'weekly', weekdays, until: until || undefined }
+            : { frequency: 'none' },
+        };
+        saved = mode.type === 'series'
+          ? await updateScheduleSegment(token, mode.segment.id, input)
+          : await createScheduleSegment(token, input);
+      }
+      console.log('📅 Schedule saved:', saved.id);
+      onSaved(saved);
+    } catch (err) {
+      console.error('Failed to save schedule:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClassName = `w-full px-3 py-2 rounded-md border text-sm ${
+    isDarkMode
+      ? 'bg-gray-800 border-gray-600 text-white placeholder-gray-500'
+      : 'bg-white border-gray-300 text-gray-900 placeholder-gray-400'
+  } focus:outline-none focus:ring-2 focus:ring-blue-500`;
+
+  const labelClassName = `block text-sm font-medium mb-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`;
+
+  const heading = mode.type === 'create'
+    ? 'Add to Schedule'
+    : mode.type === 'series'
+      ? segment?.recurrence.frequency === 'weekly' ? 'Edit Series' : 'Edit Stream'
+      : 'Edit This Stream';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className={`w-full max-w-lg max-h-full overflow-y-auto rounded-xl shadow-2xl ${
+          isDarkMode ? 'bg-gray-900 border border-gray-800' : 'bg-white'
+        }`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className={`flex items-center justify-between p-4 border-b ${
+          isDarkMode ? 'border-gray-700' : 'border-gray-200'
+        }`}>
+          <h3 className={`text-lg font-semibold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+            {heading}
+          </h3>
+          <button
+            type="button"
+            onClick={onClose}
+            className={`p-2 rounded-lg transition-colors ${
+              isDarkMode
+                ? 'text-gray-400 hover:text-white hover:bg-gray-800'
+                : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+            }`}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {mode.type === 'occurrence' && (
+            <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+              Changes apply only to this stream, not the rest of the series.
+            </p>
+          )}
+
+          <div>
+            <label htmlFor="schedule-title" className={labelClassName}>Title</label>
+            <input
+              id="schedule-title"
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              maxLength={MAX_TITLE_LENGTH}
+              placeholder="What are you streaming?"
+              className={inputClassName}
+              autoFocus
+            />
+          </div>
+
+          <div>
+            <label htmlFor="schedule-category" className={labelClassName}>Category</label>
+            <input
+              id="schedule-category"
+              type="text"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              maxLength={MAX_TITLE_LENGTH}
+              placeholder="e.g. Just Chatting"
+              className={inputClassName}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="schedule-date" className={labelClassName}>
+                {repeatsWeekly ? 'Starts on' : 'Date'}
+              </label>
+              <input
+                id="schedule-date"
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="schedule-time" className={labelClassName}>Start time</label>
+              <input
+                id="schedule-time"
+                type="time"
+                value={time}
+                onChange={(e) => setTime(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <p className={`-mt-2 text-xs ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+            Times are in {timeZone.replace(/_/g, ' ')} ({getTimeZoneAbbreviation(parseStart(date, time, timeZone) ?? new Date(), timeZone)}).
+            Viewers see them converted to their own time zone.
+          </p>
+
+          <div>
+            <label htmlFor="schedule-duration" className={labelClassName}>Expected duration</label>
+            <select
+              id="schedule-duration"
+              value={durationMinutes}
+              onChange={(e) => setDurationMinutes(Number(e.target.value))}
+              className={inputClassName}
+            >
+              {durationOptions.map(minutes => (
+                <option key={minutes} value={minutes}>{formatDuration(minutes)}</option>
+              ))}
+            </select>
+          </div>
+
+          {mode.type !== 'occurrence' && (
+            <div className="space-y-3">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={repeatsWeekly}
+                  onChange={(e) => setRepeatsWeekly(e.target.checked)}
+                  className="h-4 w-4 rounded text-blue-600 focus:ring-blue-500"
+                />
+                <span className={`text-sm font-medium ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>Repeat weekly</span>
+              </label>
+
+              {repeatsWeekly && (
+                <>
+                  <div className="flex gap-1">
+                    {WEEKDAYS.map((label, weekday) => (
+                      <button
+                        key={label}
+                        type="button"
+                        onClick={() => toggleWeekday(weekday)}
+                        aria-pressed={weekdays.includes(weekday)}
+                        className={`flex-1 py-2 rounded-md text-xs font-medium transition-colors ${
+                          weekdays.includes(weekday)
+                            ? 'bg-blue-600 text-white'
+                            : isDarkMode
+                              ? 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                              : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <div>
+                    <label htmlFor="schedule-until" className={labelClassName}>Ends on (optional)</label>
+                    <input
+                      id="schedule-until"
+                      type="date"
+                      value={until}
+                      min={date}
+                      onChange={(e) => setUntil(e.target.value)}
+                      className={inputClassName}
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          {error && (
+            <div className={`p-3 rounded-md text-sm ${
+              isDarkMode ? 'bg-red-900/20 border border-red-800 text-red-400' : 'bg-red-50 border border-red-200 text-red-700'
+            }`}>
+              {error}
+            </div>
+          )}
+
+          <div>
+            <Button type="submit" disabled={saving}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+import { useContext, useEffect, useState } from 'react';
+import { useDarkMode } from '../contexts/DarkModeContext';
+import AuthContext from '../contexts/AuthContext';
+import {
+  deleteScheduleSegment,
+  updateScheduleOccurrence,
+  type ScheduleOccurrence,
+  type ScheduleSegment,
+} from '../services/scheduleApi';
+import { getTimeZoneAbbreviation } from '../services/timeZones';
+
+type ScheduleOccurrenceDetailsProps = {
+  occurrence: ScheduleOccurrence;
+  segment: ScheduleSegment;
+  // The channel owner gets edit and cancel actions
+  canEdit: boolean;
+  // Zone the times are shown in
+  timeZone: string;
+  // Downloads the stream as an .ics event
+  onAddToCalendar: () => void;
+  onEditOccurrence: () => void;
+  onEditSeries: () => void;
+  onSegmentUpdated: (segment: ScheduleSegment) => void;
+  onSegmentDeleted: (segmentId: string) => void;
+  onClose: () => void;
+};
+
+// Details of one upcoming slot, with the streamer's actions for it
+export default function ScheduleOccurrenceDetails({
+  occurrence,
+  segment,
+  canEdit,
+  timeZone,
+  onAddToCalendar,
+  onEditOccurrence,
+  onEditSeries,
+  onSegmentUpdated,
+  onSegmentDeleted,
+  onClose,
+}: ScheduleOccurrenceDetailsProps) {
+  const { isDarkMode } = useDarkMode();
+  const { token } = useContext(AuthContext);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const runAction = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError('');
+    try {
+      await action();
+    } catch (err) {
+      console.error('Failed to update schedule:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update schedule');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleCancelled = () => runAction(async () => {
+    if (!token) return;
+    // The exception is saved whole, so keep any title or time override on it
+    const existing = segment.exceptions.find(exception => exception.originalStart === occurrence.originalStart);
+    const updated = await updateScheduleOccurrence(token, segment.id, {
+      ...existing,
+      originalStart: occurrence.originalStart,
+      cancelled: !occurrence.cancelled,
+    });
+    onSegmentUpdated(updated);
+  });
+
+  const deleteSegment = () => {
+    const message = occurrence.isRecurring
+      ? 'Remove every stream in this series from your schedule?'
+      : 'Remove this stream from your schedule?';
+    if (!window.confirm(message)) return;
+    runAction(async () => {
+      if (!token) return;
+      await deleteScheduleSegment(token, segment.id);
+      onSegmentDeleted(segment.id);
+    });
+  };
+
+  const actionClassName = `px-3 py-2 rounded-md text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+    isDarkMode
+      ? 'bg-gray-800 text-gray-300 hover:bg-gray-700 hover:text-white'
+      : 'bg-gray-100 text-gray-700 hover:bg-gray-200 hover:text-gray-900'
+  }`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className={`w-full max-w-md rounded-xl shadow-2xl ${
+          isDarkMode ? 'bg-gray-900 border border-gray-800' : 'bg-white'
+        }`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className={`flex items-start justify-between p-4 border-b ${
+          isDarkMode ? 'border-gray-700' : 'border-gray-200'
+        }`}>
+          <div className="min-w-0 mr-4">
+            <h3 className={`text-lg font-semibold break-words ${
+              isDarkMode ? 'text-white' : 'text-gray-900'
+            } ${occurrence.cancelled ? 'line-through opacity-60' : ''}`}>
+              {occurrence.title}
+            </h3>
+            {occurrence.category && (
+              <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>{occurrence.category}</p>
+            )}
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className={`p-2 rounded-lg transition-colors ${
+              isDarkMode
+                ? 'text-gray-400 hover:text-white hover:bg-gray-800'
+                : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+            }`}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className={`text-sm space-y-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+            <div>
+              {occurrence.start.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric', timeZone })}
+            </div>
+            <div>
+              {occurrence.start.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit', timeZone })}
+              {' – '}
+              {occurrence.end.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit', timeZone })}
+              {' '}{getTimeZoneAbbreviation(occurrence.start, timeZone)}
+            </div>
+            {occurrence.timeZone !== timeZone && (
+              <div className={isDarkMode ? 'text-gray-400' : 'text-gray-500'}>
+                {occurrence.start.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit', timeZone: occurrence.timeZone })}
+                {' '}{getTimeZoneAbbreviation(occurrence.start, occurrence.timeZone)} for the streamer
+              </div>
+            )}
+            {occurrence.isRecurring && (
+              <div className={isDarkMode ? 'text-gray-400' : 'text-gray-500'}>Repeats weekly</div>
+            )}
+          </div>
+
+          {occurrence.cancelled && (
+            <div className={`p-3 rounded-md text-sm ${
+              isDarkMode ? 'bg-red-900/20 border border-red-800 text-red-400' : 'bg-red-50 border border-red-200 text-red-700'
+            }`}>
+              This stream has been cancelled.
+            </div>
+          )}
+
+          {error && (
+            <div className={`p-3 rounded-md text-sm ${
+              isDarkMode ? 'bg-red-900/20 border border-red-800 text-red-400' : 'bg-red-50 border border-red-200 text-red-700'
+            }`}>
+              {error}
+            </div>
+          )}
+
+          {!occurrence.cancelled && (
+            <button type="button" onClick={onAddToCalendar} className={actionClassName}>
+              Add to calendar (.ics)
+            </button>
+          )}
+
+          {canEdit && (
+            <div className={`pt-4 border-t flex flex-wrap gap-2 ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+              {occurrence.isRecurring && !occurrence.cancelled && (
+                <button type="button" onClick={onEditOccurrence} disabled={busy} className={actionClassName}>
+                  Edit this stream
+                </button>
+              )}
+              <button type="button" onClick={onEditSeries} disabled={busy} className={actionClassName}>
+                {occurrence.isRecurring ? 'Edit series' : 'Edit'}
+              </button>
+              <button type="button" onClick={toggleCancelled} disabled={busy} className={actionClassName}>
+                {occurrence.cancelled ? 'Restore this stream' : 'Cancel this stream'}
+              </button>
+              <button
+                type="button"
+                onClick={deleteSegment}
+                disabled={busy}
+                className="px-3 py-2 rounded-md text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed bg-red-600 text-white hover:bg-red-700"
+              >
+                {occurrence.isRecurring ? 'Delete series' : 'Delete'}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
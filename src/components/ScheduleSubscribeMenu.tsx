@@ -0,0 +1,94 @@
+import { useEffect, useRef, useState } from 'react';
+import { useDarkMode } from '../contexts/DarkModeContext';
+import { getScheduleFeedUrl, type ScheduleSegment } from '../services/scheduleApi';
+import { buildScheduleCalendar, downloadCalendarFile } from '../services/icalendar';
+
+type ScheduleSubscribeMenuProps = {
+  username: string;
+  segments: ScheduleSegment[];
+};
+
+// Calendar app integration: subscribe to the channel's live .ics feed, or
+// download a snapshot of the schedule
+export default function ScheduleSubscribeMenu({ username, segments }: ScheduleSubscribeMenuProps) {
+  const { isDarkMode } = useDarkMode();
+  const [isOpen, setIsOpen] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const feedUrl = getScheduleFeedUrl(username);
+  const webcalUrl = feedUrl.replace(/^https?:/, 'webcal:');
+
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, []);
+
+  const copyFeedUrl = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy calendar feed URL:', error);
+    }
+  };
+
+  const downloadSchedule = () => {
+    const calendar = buildScheduleCalendar(segments, {
+      username,
+      channelUrl: `${window.location.origin}/${encodeURIComponent(username)}`,
+    });
+    downloadCalendarFile(`${username}-schedule.ics`, calendar);
+    setIsOpen(false);
+  };
+
+  const itemClassName = `block w-full text-left px-4 py-2 text-sm transition-colors ${
+    isDarkMode ? 'text-gray-300 hover:bg-gray-700 hover:text-white' : 'text-gray-700 hover:bg-gray-100 hover:text-gray-900'
+  }`;
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+          isDarkMode
+            ? 'bg-gray-800 text-gray-300 hover:text-white hover:bg-gray-700'
+            : 'bg-gray-100 text-gray-600 hover:text-gray-900 hover:bg-gray-200'
+        }`}
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+        </svg>
+        Subscribe
+      </button>
+
+      {isOpen && (
+        <div className={`absolute right-0 mt-2 w-64 rounded-lg shadow-lg py-1 z-20 ${
+          isDarkMode ? 'bg-gray-800 border border-gray-700' : 'bg-white border border-gray-200'
+        }`}>
+          <a href={webcalUrl} className={itemClassName} onClick={() => setIsOpen(false)}>
+            Subscribe in calendar app
+            <span className={`block text-xs ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+              Stays up to date with changes and cancellations
+            </span>
+          </a>
+          <button type="button" onClick={copyFeedUrl} className={itemClassName}>
+            {copied ? 'Copied!' : 'Copy feed URL'}
+          </button>
+          <button type="button" onClick={downloadSchedule} disabled={segments.length === 0} className={`${itemClassName} disabled:opacity-50`}>
+            Download .ics
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+import { useState, useEffect, useContext, useCallback } from 'react';
+import { useDarkMode } from '../contexts/DarkModeContext';
+import AuthContext from '../contexts/AuthContext';
+import Button from './Button';
+import {
+  getActiveSessions,
+  revokeSession,
+  revokeOtherSessions,
+  type ActiveSession,
+  type SessionTokenType,
+} from '../services/sessionsApi';
+
+const TOKEN_TYPE_LABELS: Record<SessionTokenType, string> = {
+  'standard': 'Standard (24h)',
+  'remember-me': 'Remember me (30d)',
+  'long-lived': 'Long-lived (1yr)',
+};
+
+// Format last-seen timestamps the same way as the channel activity feed
+const formatLastSeen = (timestamp: string): string => {
+  const diffMs = Date.now() - new Date(timestamp).getTime();
+  const diffMinutes = Math.floor(diffMs / (1000 * 60));
+  const diffHours = Math.floor(diffMs / (1000 * 60 * 60));
+  const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
+
+  if (diffMinutes < 1) return 'Active now';
+  if (diffMinutes < 60) return `${diffMinutes}m ago`;
+  if (diffHours < 24) return `${diffHours}h ago`;
+  if (diffDays < 7) return `${diffDays}d ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+export default function SessionManager() {
+  const { isDarkMode } = useDarkMode();
+  const { token } = useContext(AuthContext);
+
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [showRevokeOthersConfirm, setShowRevokeOthersConfirm] = useState(false);
+  const [revokingOthers, setRevokingOthers] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [success, setSuccess] = useState<string>('');
+
+  const loadSessions = useCallback(async () => {
+    if (!token) return;
+
+    setLoading(true);
+    try {
+      const data = await getActiveSessions(token);
+      // Current session first, then most recently seen
+      setSessions([...data].sort((a, b) =>
+        Number(b.current) - Number(a.current) || new Date(b.lastSeen).getTime() - new Date(a.lastSeen).getTime()
+      ));
+      setError('');
+    } catch (err) {
+      console.error('Failed to load sessions:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load active sessions');
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRevoke = async (session: ActiveSession) => {
+    if (!token || revokingId) return;
+
+    setRevokingId(session.id);
+    setError('');
+    setSuccess('');
+    try {
+      await revokeSession(token, session.id);
+      setSessions(prev => prev.filter(s => s.id !== session.id));
+      setSuccess(`Signed out ${session.browser} on ${session.device}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke session');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    if (!token) return;
+
+    setRevokingOthers(true);
+    setError('');
+    setSuccess('');
+    try {
+      const result = await revokeOtherSessions(token);
+      setSessions(prev => prev.filter(s => s.current));
+      setSuccess(`Signed out of ${result.revokedCount} other ${result.revokedCount === 1 ? 'session' : 'sessions'}`);
+      setShowRevokeOthersConfirm(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign out other sessions');
+    } finally {
+      setRevokingOthers(false);
+    }
+  };
+
+  const otherSessionCount = sessions.filter(s => !s.current).length;
+
+  return (
+    <div className={`p-6 rounded-lg shadow-md ${
+      isDarkMode
+        ? 'bg-gray-900 border border-gray-800'
+        : 'bg-white'
+    }`}>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className={`text-lg font-semibold ${
+          isDarkMode ? 'text-white' : 'text-gray-900'
+        }`}>
+          Active Sessions
+        </h3>
+        <button
+          type="button"
+          onClick={loadSessions}
+          disabled={loading}
+          className={`flex items-center gap-1 px-2 py-1 text-xs rounded-md transition-colors ${
+            isDarkMode
+              ? 'text-gray-400 hover:text-gray-300 hover:bg-gray-800'
+              : 'text-gray-600 hover:text-gray-700 hover:bg-gray-100'
+          } ${loading ? 'opacity-50 cursor-not-allowed' : ''}`}
+          title="Refresh sessions"
+        >
+          <svg className={`w-3 h-3 ${loading ? 'animate-spin' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+          </svg>
+          Refresh
+        </button>
+      </div>
+
+      <p className={`text-sm mb-4 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+        These devices are currently signed in to your account. Sign out any session you don't recognize.
+      </p>
+
+      {/* Success/Error Messages */}
+      {success && (
+        <div className="mb-4 p-3 text-sm rounded-md text-green-700 bg-green-50 border border-green-200 dark:bg-green-900/20 dark:border-green-800 dark:text-green-400">
+          {success}
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 text-sm rounded-md text-red-700 bg-red-50 border border-red-200 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {loading && sessions.length === 0 ? (
+        <div className={`text-center py-4 ${
+          isDarkMode ? 'text-gray-400' : 'text-gray-600'
+        }`}>
+          Loading sessions...
+        </div>
+      ) : (
+        <ul className={`divide-y rounded-lg border ${
+          isDarkMode ? 'divide-gray-800 border-gray-800' : 'divide-gray-200 border-gray-200'
+        }`}>
+          {sessions.map((session) => (
+            <li key={session.id} className="flex items-center justify-between gap-4 p-4">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className={`text-sm font-medium ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+                    {session.browser} on {session.device}
+                  </span>
+                  {session.current && (
+                    <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
+                      This device
+                    </span>
+                  )}
+                </div>
+                <div className={`text-xs mt-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  {session.ipRegion || 'Unknown location'}
+                  {' • '}
+                  {session.current ? 'Active now' : formatLastSeen(session.lastSeen)}
+                  {' • '}
+                  {TOKEN_TYPE_LABELS[session.tokenType] || session.tokenType}
+                </div>
+              </div>
+
+              {!session.current && (
+                <button
+                  type="button"
+                  onClick={() => handleRevoke(session)}
+                  disabled={revokingId !== null}
+                  className={`text-xs px-3 py-1 rounded-md transition-colors whitespace-nowrap ${
+                    isDarkMode
+                      ? 'text-red-400 hover:text-red-300 hover:bg-gray-800'
+                      : 'text-red-600 hover:text-red-700 hover:bg-red-50'
+                  } ${revokingId !== null ? 'opacity-50 cursor-not-allowed' : ''}`}
+                >
+                  {revokingId === session.id ? 'Revoking...' : 'Revoke'}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {otherSessionCount > 0 && (
+        <div className="pt-4 mt-4 border-t border-gray-200 dark:border-gray-700">
+          <Button
+            type="button"
+            onClick={() => setShowRevokeOthersConfirm(true)}
+            disabled={revokingOthers}
+            className="bg-red-600 hover:bg-red-700 text-white"
+          >
+            Sign Out Everywhere Else
+          </Button>
+        </div>
+      )}
+
+      {/* Sign Out Everywhere Else Confirmation Modal */}
+      {showRevokeOthersConfirm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className={`p-6 rounded-lg max-w-md w-full mx-4 ${
+            isDarkMode ? 'bg-gray-900 border border-gray-800' : 'bg-white'
+          }`}>
+            <h3 className={`text-lg font-semibold mb-4 ${
+              isDarkMode ? 'text-white' : 'text-gray-900'
+            }`}>
+              Sign out everywhere else?
+            </h3>
+            <p className={`text-sm mb-6 ${
+              isDarkMode ? 'text-gray-300' : 'text-gray-700'
+            }`}>
+              {otherSessionCount} other {otherSessionCount === 1 ? 'session' : 'sessions'} will be signed out. You will stay signed in on this device.
+            </p>
+            <div className="flex gap-3 justify-end">
+              <Button
+                type="button"
+                onClick={() => setShowRevokeOthersConfirm(false)}
+                className="bg-gray-600 hover:bg-gray-700 text-white"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                onClick={handleRevokeOthers}
+                disabled={revokingOthers}
+                className="bg-red-600 hover:bg-red-700 text-white"
+              >
+                {revokingOthers ? 'Signing out...' : 'Sign Out'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { useContext, useEffect, useState } from 'react';
+import { useDarkMode } from '../contexts/DarkModeContext';
+import AuthContext from '../contexts/AuthContext';
+import Button from './Button';
+import { createStreamMarker, getCurrentStreamMarkers, type StreamMarker } from '../services/streamApi';
+import { formatTimestamp } from '../services/timestamps';
+
+const MAX_LABEL_LENGTH = 100;
+
+type StreamMarkerPanelProps = {
+  isLive: boolean;
+  className?: string;
+};
+
+// Lets the streamer mark moments of the live broadcast; each marker becomes a
+// chapter on the past broadcast
+export default function StreamMarkerPanel({ isLive, className = '' }: StreamMarkerPanelProps) {
+  const { isDarkMode } = useDarkMode();
+  const { token } = useContext(AuthContext);
+  const [markers, setMarkers] = useState<StreamMarker[]>([]);
+  const [label, setLabel] = useState('');
+  const [placing, setPlacing] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    if (!token || !isLive) {
+      setMarkers([]);
+      return;
+    }
+    let cancelled = false;
+    getCurrentStreamMarkers(token)
+      .then(data => {
+        if (!cancelled) setMarkers(data);
+      })
+      .catch(err => console.error('Failed to load stream markers:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [token, isLive]);
+
+  const placeMarker = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+
+    setPlacing(true);
+    setError('');
+    try {
+      const marker = await createStreamMarker(token, label);
+      console.log('📍 Marker placed at', formatTimestamp(marker.offsetSeconds));
+      setMarkers(prev => [...prev, marker]);
+      setLabel('');
+    } catch (err) {
+      console.error('Failed to place marker:', err);
+      setError(err instanceof Error ? err.message : 'Failed to place marker');
+    } finally {
+      setPlacing(false);
+    }
+  };
+
+  return (
+    <div className={`p-6 rounded-lg shadow-md ${
+      isDarkMode
+        ? 'bg-gray-900 border border-gray-800'
+        : 'bg-white'
+    } ${className}`}>
+      <h3 className={`text-lg font-semibold mb-2 ${
+        isDarkMode ? 'text-white' : 'text-gray-900'
+      }`}>
+        Stream Markers
+      </h3>
+      <p className={`text-sm mb-4 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+        Mark highlights while you're live. Markers become chapters on the past broadcast.
+        You can also type <code className="font-mono">/marker [label]</code> in your chat.
+      </p>
+
+      <form onSubmit={placeMarker} className="flex gap-3 items-center">
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          maxLength={MAX_LABEL_LENGTH}
+          placeholder="Label (optional)"
+          disabled={!isLive}
+          className={`flex-1 min-w-0 px-3 py-2 rounded-md border text-sm ${
+            isDarkMode
+              ? 'bg-gray-800 border-gray-600 text-white placeholder-gray-500'
+              : 'bg-white border-gray-300 text-gray-900 placeholder-gray-400'
+          } focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50`}
+        />
+        <div>
+          <Button type="submit" disabled={!isLive || placing}>
+            {placing ? 'Placing...' : 'Place marker'}
+          </Button>
+        </div>
+      </form>
+
+      {!isLive && (
+        <p className={`text-xs mt-2 ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          Go live to place markers.
+        </p>
+      )}
+
+      {error && (
+        <div className={`mt-4 p-3 rounded-md text-sm ${
+          isDarkMode ? 'bg-red-900/20 border border-red-800 text-red-400' : 'bg-red-50 border border-red-200 text-red-700'
+        }`}>
+          {error}
+        </div>
+      )}
+
+      {markers.length > 0 && (
+        <ul className={`mt-4 pt-4 border-t space-y-2 ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+          {markers.map(marker => (
+            <li key={marker.id} className="flex items-center gap-3 text-sm">
+              <span className={`font-mono ${isDarkMode ? 'text-yellow-400' : 'text-yellow-600'}`}>
+                {formatTimestamp(marker.offsetSeconds)}
+              </span>
+              <span className={isDarkMode ? 'text-gray-300' : 'text-gray-700'}>
+                {marker.label || 'Untitled marker'}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
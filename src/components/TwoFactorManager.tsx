@@ -11,6 +11,7 @@ import {
   disableTwoFactor, 
   generateBackupCodes 
 } from '../services/twoFactorApi';
+import { isApiError } from '../services/apiClient';
 
 type TwoFactorState = 'loading' | 'disabled' | 'enabled' | 'setting-up' | 'verifying-setup' | 'showing-backup-codes' | 'disabling';
 
@@ -61,6 +62,7 @@ export default function TwoFactorManager() {
   const [disablePassword, setDisablePassword] = useState<string>('');
   const [disableCode, setDisableCode] = useState<string>('');
   const [error, setError] = useState<string>('');
+  const [errorRetryable, setErrorRetryable] = useState(false);
   const [success, setSuccess] = useState<string>('');
   const [loading, setLoading] = useState(false);
   const [hasCheckedOnMount, setHasCheckedOnMount] = useState(false);
@@ -74,21 +76,19 @@ export default function TwoFactorManager() {
         const status = await getTwoFactorStatus(token);
         setState(status.enabled ? 'enabled' : 'disabled');
         setError(''); // Clear any previous errors
+        setErrorRetryable(false);
       } catch (err) {
         console.error('Failed to check 2FA status:', err);
         
         // Handle specific error types
-        if (err instanceof Error) {
-          if (err.message.includes('429')) {
-            setError('Too many requests. Please wait a moment and refresh the page.');
-          } else if (err.message.includes('401')) {
-            setError('Authentication required. Please log in again.');
-          } else {
-            setError('Failed to load 2FA status. Please refresh the page.');
-          }
+        if (isApiError(err, 'rate_limited')) {
+          setError('Too many requests. Please wait a moment and try again.');
+        } else if (isApiError(err, 'session_expired') || isApiError(err, 'unauthorized')) {
+          setError('Authentication required. Please log in again.');
         } else {
           setError('Failed to load 2FA status. Please refresh the page.');
         }
+        setErrorRetryable(isApiError(err) && err.retryable);
         
         setState('disabled'); // Default to disabled state on error
       }
@@ -106,6 +106,7 @@ export default function TwoFactorManager() {
     
     setLoading(true);
     setError('');
+    setErrorRetryable(false);
     
     try {
       const setup = await setupTwoFactor(token);
@@ -124,6 +125,7 @@ export default function TwoFactorManager() {
     
     setLoading(true);
     setError('');
+    setErrorRetryable(false);
     
     try {
       const result = await verifyTwoFactorSetup(token, verificationCode);
@@ -154,6 +156,7 @@ export default function TwoFactorManager() {
     setDisablePassword('');
     setDisableCode('');
     setError('');
+    setErrorRetryable(false);
   };
 
   const handleDisable = async () => {
@@ -161,6 +164,7 @@ export default function TwoFactorManager() {
     
     setLoading(true);
     setError('');
+    setErrorRetryable(false);
     
     try {
       await disableTwoFactor(token, disablePassword, disableCode);
@@ -180,6 +184,7 @@ export default function TwoFactorManager() {
     
     setLoading(true);
     setError('');
+    setErrorRetryable(false);
     
     try {
       const result = await generateBackupCodes(token);
@@ -240,11 +245,12 @@ export default function TwoFactorManager() {
         <div className="mb-4 p-3 text-sm rounded-md text-red-700 bg-red-50 border border-red-200 dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
           <div className="flex items-center justify-between">
             <span>{error}</span>
-            {error.includes('429') && (
+            {errorRetryable && (
               <button
                 type="button"
                 onClick={() => {
                   setError('');
+                  setErrorRetryable(false);
                   setState('loading');
                   setHasCheckedOnMount(false);
                 }}
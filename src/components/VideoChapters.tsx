@@ -0,0 +1,57 @@
+import { useDarkMode } from '../contexts/DarkModeContext';
+import type { StreamMarker } from '../services/streamApi';
+import { formatTimestamp } from '../services/timestamps';
+
+type VideoChaptersProps = {
+  // Sorted by offset
+  chapters: StreamMarker[];
+  currentTime: number;
+  onSeek: (seconds: number) => void;
+  // Shareable link to a position in the video
+  getLink: (seconds: number) => string;
+  className?: string;
+};
+
+// Chapter list for a past broadcast; the chapter under the playhead is highlighted
+export default function VideoChapters({ chapters, currentTime, onSeek, getLink, className = '' }: VideoChaptersProps) {
+  const { isDarkMode } = useDarkMode();
+
+  let activeIndex = -1;
+  chapters.forEach((chapter, index) => {
+    if (chapter.offsetSeconds <= currentTime) activeIndex = index;
+  });
+
+  if (chapters.length === 0) {
+    return (
+      <div className={`p-4 text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-600'} ${className}`}>
+        No chapters for this broadcast.
+      </div>
+    );
+  }
+
+  return (
+    <ol className={`overflow-y-auto p-2 ${className}`}>
+      {chapters.map((chapter, index) => (
+        <li key={chapter.id}>
+          <a
+            href={getLink(chapter.offsetSeconds)}
+            onClick={(e) => {
+              e.preventDefault();
+              onSeek(chapter.offsetSeconds);
+            }}
+            className={`flex items-start gap-3 px-3 py-2 rounded-md text-sm transition-colors ${
+              index === activeIndex
+                ? isDarkMode ? 'bg-gray-800 text-white' : 'bg-blue-50 text-gray-900'
+                : isDarkMode ? 'text-gray-300 hover:bg-gray-800' : 'text-gray-700 hover:bg-gray-100'
+            }`}
+          >
+            <span className={`font-mono shrink-0 ${isDarkMode ? 'text-yellow-400' : 'text-yellow-600'}`}>
+              {formatTimestamp(chapter.offsetSeconds)}
+            </span>
+            <span className="min-w-0 break-words">{chapter.label || `Chapter ${index + 1}`}</span>
+          </a>
+        </li>
+      ))}
+    </ol>
+  );
+}
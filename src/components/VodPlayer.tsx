@@ -0,0 +1,113 @@
+import { useEffect, useRef } from 'react';
+import videojs from 'video.js';
+
+type VideoPlayer = ReturnType<typeof videojs>;
+
+type VodPlayerProps = {
+  src: string;
+  // Seconds into the video to start from
+  startTime?: number;
+  autoplay?: boolean;
+  // Called on timeupdate, seeks and playback-rate changes with the current position
+  onTimeUpdate?: (seconds: number) => void;
+  onReady?: (player: VideoPlayer) => void;
+  // Chapter start positions (seconds), drawn as ticks on the progress bar
+  chapterStarts?: number[];
+  className?: string;
+};
+
+const getSourceType = (src: string) => (/\.m3u8(\?|$)/i.test(src) ? 'application/x-mpegURL' : 'video/mp4');
+
+// Video.js player for recorded videos (past broadcasts and clips)
+export default function VodPlayer({ src, startTime = 0, autoplay = true, onTimeUpdate, onReady, chapterStarts, className = '' }: VodPlayerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const playerRef = useRef<VideoPlayer | null>(null);
+  // Callbacks and the start time are read through refs so changing them doesn't recreate the player
+  const onTimeUpdateRef = useRef(onTimeUpdate);
+  const onReadyRef = useRef(onReady);
+  const startTimeRef = useRef(startTime);
+
+  useEffect(() => {
+    onTimeUpdateRef.current = onTimeUpdate;
+    onReadyRef.current = onReady;
+    startTimeRef.current = startTime;
+  });
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    // Video.js takes over and later removes its element, so it lives outside React's tree
+    const videoElement = document.createElement('video-js');
+    videoElement.classList.add('vjs-big-play-centered');
+    containerRef.current.appendChild(videoElement);
+
+    const player = videojs(videoElement, {
+      controls: true,
+      fluid: true,
+      autoplay,
+      preload: 'auto',
+      playsinline: true,
+      playbackRates: [0.5, 1, 1.25, 1.5, 2],
+      userActions: {
+        hotkeys: true,
+      },
+      html5: {
+        vhs: {
+          overrideNative: true,
+        },
+        nativeVideoTracks: false,
+        nativeAudioTracks: false,
+      },
+      sources: [{ src, type: getSourceType(src) }],
+    });
+
+    playerRef.current = player;
+
+    const reportTime = () => onTimeUpdateRef.current?.(player.currentTime() ?? 0);
+    player.on(['timeupdate', 'seeked', 'ratechange'], reportTime);
+
+    player.ready(() => {
+      if (startTimeRef.current > 0) {
+        player.currentTime(startTimeRef.current);
+      }
+      onReadyRef.current?.(player);
+    });
+
+    return () => {
+      player.dispose();
+      playerRef.current = null;
+    };
+  }, [src, autoplay]);
+
+  // Positions depend on the duration, which is only known once metadata loads
+  useEffect(() => {
+    const player = playerRef.current;
+    if (!player || !chapterStarts?.length) return;
+
+    let ticks: HTMLElement[] = [];
+    const drawTicks = () => {
+      ticks.forEach(tick => tick.remove());
+      ticks = [];
+      const duration = player.duration();
+      const progressHolder = player.el()?.querySelector('.vjs-progress-holder');
+      if (!duration || !Number.isFinite(duration) || !progressHolder) return;
+
+      chapterStarts.filter(start => start > 0 && start < duration).forEach(start => {
+        const tick = document.createElement('div');
+        tick.className = 'vjs-chapter-tick';
+        tick.style.left = `${(start / duration) * 100}%`;
+        progressHolder.appendChild(tick);
+        ticks.push(tick);
+      });
+    };
+
+    drawTicks();
+    player.on('durationchange', drawTicks);
+    return () => {
+      if (!player.isDisposed()) player.off('durationchange', drawTicks);
+      ticks.forEach(tick => tick.remove());
+    };
+  }, [chapterStarts, src, autoplay]);
+
+  return <div ref={containerRef} data-vjs-player className={className} />;
+}
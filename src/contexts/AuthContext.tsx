@@ -1,15 +1,15 @@
-import { createContext, useState, useEffect, type ReactNode } from 'react';
+import { createContext, useState, useEffect, useCallback, useRef, type ReactNode } from 'react';
 import { useNavigate } from 'react-router-dom';
+import * as authApi from '../services/authApi';
+import { setAuthSessionHandler } from '../services/apiClient';
 
 // 1. Define the shape of your auth state
-interface User {
-  id: string;
-  username: string;
-  email: string;
-  displayName?: string;
-  bio?: string;
-  profilePicture?: string;
-}
+type User = authApi.AuthUser;
+
+// Refresh the access token this long before its exp claim
+const REFRESH_LEAD_MS = 60 * 1000;
+// setTimeout cannot wait longer than ~24.8 days
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
 
 interface AuthContextType {
   user: User | null;
@@ -23,6 +23,8 @@ interface AuthContextType {
   requires2FA: boolean;
   pending2FAUserId: string | null;
   completeTwoFactorLogin: (userId: string, code: string) => Promise<void>;
+  // Renew the access token; resolves to null when the session cannot be renewed
+  refreshSession: () => Promise<string | null>;
 }
 
 // 2. Create the context with default values
@@ -37,6 +39,7 @@ const AuthContext = createContext<AuthContextType>({
   requires2FA: false,
   pending2FAUserId: null,
   completeTwoFactorLogin: async () => {},
+  refreshSession: async () => null,
 });
 
 // 3. Provider component
@@ -66,37 +69,40 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     setLoading(false);
   }, []);
 
-  // 5. login(): call your login API, save token/user
-  const login = async (email: string, password: string, remember: boolean) => {
-    const response = await fetch(`${import.meta.env.VITE_API_BASE_URL}/auth/login`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ email, password, requestLongLived: remember }), // Honor remember me for non-2FA users
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || 'Login failed');
+  // Persist a freshly issued session (login or 2FA)
+  const storeSession = (accessToken: string, refreshToken?: string) => {
+    setToken(accessToken);
+    localStorage.setItem('authToken', accessToken);
+    if (refreshToken) {
+      localStorage.setItem('authRefreshToken', refreshToken);
+    } else {
+      // A previous account's refresh token would renew the wrong session
+      localStorage.removeItem('authRefreshToken');
     }
+  };
 
-    const data = await response.json();
+  // 5. login(): call your login API, save token/user
+  const login = async (email: string, password: string, remember: boolean) => {
+    // Honor remember me for non-2FA users
+    const data = await authApi.login(email, password, remember);
 
     // Check if 2FA is required
     if (data.requires2FA) {
       setRequires2FA(true);
-      setPending2FAUserId(data.userId);
+      setPending2FAUserId(data.userId ?? null);
       navigate('/2fa');
       return;
     }
 
+    if (!data.token || !data.user) {
+      throw new Error('Login failed');
+    }
+
     // Normal login flow (no 2FA)
-    setToken(data.token);
+    storeSession(data.token, data.refreshToken);
     setUser(data.user);
 
     // Always persist session to localStorage (remember me functionality)
-    localStorage.setItem('authToken', data.token);
     localStorage.setItem('authUser', JSON.stringify(data.user));
     
     // Store token type for session management
@@ -113,52 +119,25 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
 
   // 6. signup(): call your signup API, then redirect to /login (or auto-login)
   const signup = async (username: string, email: string, password: string, enable2FA?: boolean) => {
-    const response = await fetch(`${import.meta.env.VITE_API_BASE_URL}/auth/signup`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ username, email, password, enable2FA }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || 'Signup failed');
-    }
-
-    await response.json();
+    await authApi.signup(username, email, password, enable2FA);
     navigate('/login');
   };
 
   // Complete 2FA login after password verification
   const completeTwoFactorLogin = async (userId: string, code: string) => {
-    const response = await fetch(`${import.meta.env.VITE_API_BASE_URL}/auth/2fa/verify`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ userId, code, requestLongLived: true }), // Request long-lived token for 2FA users
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.message || '2FA verification failed');
-    }
-
-    const data = await response.json();
+    const data = await authApi.completeTwoFactorLogin(userId, code);
 
-    if (!data.success) {
+    if (!data.success || !data.token || !data.user) {
       throw new Error('Invalid 2FA code');
     }
 
     // Successfully verified 2FA
-    setToken(data.token);
+    storeSession(data.token, data.refreshToken);
     setUser(data.user);
     setRequires2FA(false);
     setPending2FAUserId(null);
 
     // Always persist session to localStorage
-    localStorage.setItem('authToken', data.token);
     localStorage.setItem('authUser', JSON.stringify(data.user));
     
     // Store token type - 2FA users get long-lived tokens
@@ -168,16 +147,80 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   };
 
   // 7. logout(): clear state + localStorage & redirect to /login
-  const logout = () => {
+  const logout = useCallback(() => {
     setToken(null);
     setUser(null);
     setRequires2FA(false);
     setPending2FAUserId(null);
     localStorage.removeItem('authToken');
+    localStorage.removeItem('authRefreshToken');
     localStorage.removeItem('authUser');
     localStorage.removeItem('authTokenType');
     navigate('/login');
-  };
+  }, [navigate]);
+
+  // Concurrent callers (expiry timer, several rejected requests) share one refresh
+  const refreshInFlight = useRef<Promise<string | null> | null>(null);
+
+  const refreshSession = useCallback(() => {
+    if (!refreshInFlight.current) {
+      refreshInFlight.current = (async () => {
+        const refreshToken = localStorage.getItem('authRefreshToken');
+        if (!refreshToken) {
+          return null;
+        }
+
+        try {
+          const data = await authApi.refreshAccessToken(refreshToken);
+          setToken(data.token);
+          localStorage.setItem('authToken', data.token);
+          if (data.refreshToken) {
+            localStorage.setItem('authRefreshToken', data.refreshToken);
+          }
+          return data.token;
+        } catch (error) {
+          console.warn('Session refresh failed:', error);
+          return null;
+        } finally {
+          refreshInFlight.current = null;
+        }
+      })();
+    }
+    return refreshInFlight.current;
+  }, []);
+
+  // Let the API client refresh and retry requests rejected with an expired session
+  useEffect(() => {
+    setAuthSessionHandler({ refreshSession, onSessionExpired: logout });
+    return () => setAuthSessionHandler(null);
+  }, [refreshSession, logout]);
+
+  // Refresh proactively shortly before the access token lapses
+  useEffect(() => {
+    if (!token) return;
+
+    const exp = authApi.getTokenExpiry(token);
+    if (!exp) return;
+
+    let timer: ReturnType<typeof setTimeout>;
+    const schedule = () => {
+      const delay = exp * 1000 - Date.now() - REFRESH_LEAD_MS;
+      if (delay > MAX_TIMER_DELAY_MS) {
+        timer = setTimeout(schedule, MAX_TIMER_DELAY_MS);
+        return;
+      }
+      timer = setTimeout(async () => {
+        const freshToken = await refreshSession();
+        // Only give up on the session once the token has actually expired
+        if (!freshToken && Date.now() >= exp * 1000) {
+          logout();
+        }
+      }, Math.max(delay, 0));
+    };
+    schedule();
+
+    return () => clearTimeout(timer);
+  }, [token, refreshSession, logout]);
 
   // 8. updateUserProfile(): update user state and localStorage
   const updateUserProfile = (updatedUser: Partial<User>) => {
@@ -203,7 +246,8 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       updateUserProfile,
       requires2FA,
       pending2FAUserId,
-      completeTwoFactorLogin
+      completeTwoFactorLogin,
+      refreshSession
     }}>
       {children}
     </AuthContext.Provider>
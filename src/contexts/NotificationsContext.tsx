@@ -0,0 +1,91 @@
+import { createContext, useContext, useEffect, useState, type ReactNode } from 'react';
+import AuthContext from './AuthContext';
+import {
+  getNotificationReadState,
+  getRecentNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+  toAppNotification,
+  type AppNotification,
+  type NotificationReadState,
+} from '../services/notificationsApi';
+import { subscribeToNotifications } from '../services/websocket';
+
+// Older entries drop off the list
+const MAX_NOTIFICATIONS = 50;
+
+interface NotificationsContextType {
+  // Newest first
+  notifications: AppNotification[];
+  readState: NotificationReadState;
+  markRead: (notificationId: string) => void;
+  markAllRead: () => void;
+}
+
+const NotificationsContext = createContext<NotificationsContextType>({
+  notifications: [],
+  readState: { readIds: [] },
+  markRead: () => {},
+  markAllRead: () => {},
+});
+
+// Keeps the notification center's list for the whole session, so realtime
+// events aren't lost when the Navbar remounts on navigation
+export const NotificationsProvider = ({ children }: { children: ReactNode }) => {
+  const { user, token } = useContext(AuthContext);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [readState, setReadState] = useState<NotificationReadState>({ readIds: [] });
+  const username = user?.username;
+
+  useEffect(() => {
+    setReadState(username ? getNotificationReadState(username) : { readIds: [] });
+  }, [username]);
+
+  // Activity feed history, then realtime events as they arrive
+  useEffect(() => {
+    setNotifications([]);
+    if (!token) return;
+    let cancelled = false;
+
+    const addNotifications = (incoming: AppNotification[]) => {
+      setNotifications(prev => {
+        const known = new Set(prev.map(notification => notification.id));
+        return [...incoming.filter(notification => !known.has(notification.id)), ...prev]
+          .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+          .slice(0, MAX_NOTIFICATIONS);
+      });
+    };
+
+    getRecentNotifications(token)
+      .then(history => {
+        if (!cancelled) addNotifications(history);
+      })
+      .catch(error => console.error('Failed to load notifications:', error));
+
+    const unsubscribe = subscribeToNotifications(token, event => {
+      console.log('🔔 Notification received:', event.type);
+      addNotifications([toAppNotification(event)]);
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [token]);
+
+  const markRead = (notificationId: string) => {
+    if (username) setReadState(markNotificationRead(username, notificationId));
+  };
+
+  const markAllRead = () => {
+    if (username) setReadState(markAllNotificationsRead(username));
+  };
+
+  return (
+    <NotificationsContext.Provider value={{ notifications, readState, markRead, markAllRead }}>
+      {children}
+    </NotificationsContext.Provider>
+  );
+};
+
+export default NotificationsContext;
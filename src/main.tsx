@@ -8,6 +8,7 @@ import { BrowserRouter } from 'react-router-dom';
 import AppRoutes from './routes';
 import { AuthProvider } from './contexts/AuthContext';
 import { DarkModeProvider } from './contexts/DarkModeContext';
+import { NotificationsProvider } from './contexts/NotificationsContext';
 import { initializeWebSocket, disconnectWebSocket } from './services/websocket';
 
 // Initialize WebSocket connection for profile picture updates
@@ -23,7 +24,9 @@ ReactDOM.createRoot(document.getElementById('root')!).render(
     <DarkModeProvider>
       <BrowserRouter>
         <AuthProvider>
-          <AppRoutes />
+          <NotificationsProvider>
+            <AppRoutes />
+          </NotificationsProvider>
         </AuthProvider>
       </BrowserRouter>
     </DarkModeProvider>
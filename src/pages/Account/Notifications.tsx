@@ -0,0 +1,220 @@
+import { useContext, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useDarkMode } from '../../contexts/DarkModeContext';
+import AuthContext from '../../contexts/AuthContext';
+import {
+  getLiveNotificationChannels,
+  setLiveNotificationChannel,
+  type LiveNotificationChannel,
+} from '../../services/notificationsApi';
+import {
+  disableLiveNotifications,
+  enableLiveNotifications,
+  getLiveNotificationStatus,
+  type LiveNotificationStatus,
+} from '../../services/liveNotifications';
+
+export default function Notifications() {
+  const { isDarkMode } = useDarkMode();
+  const { token } = useContext(AuthContext);
+  const [status, setStatus] = useState<LiveNotificationStatus>(getLiveNotificationStatus());
+  const [channels, setChannels] = useState<LiveNotificationChannel[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+
+    getLiveNotificationChannels(token)
+      .then(result => {
+        if (!cancelled) setChannels(result);
+      })
+      .catch(error => {
+        console.error('Failed to load notification settings:', error);
+        if (!cancelled) setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load notification settings' });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const runAction = async (action: () => Promise<void>) => {
+    if (!token || busy) return;
+    setBusy(true);
+    setMessage(null);
+    try {
+      await action();
+    } catch (error) {
+      console.error('Failed to update notification settings:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to update notification settings' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleBrowserNotifications = () => runAction(async () => {
+    if (!token) return;
+    if (status === 'enabled') {
+      await disableLiveNotifications(token);
+      setStatus(getLiveNotificationStatus());
+      setMessage({ type: 'success', text: 'Notifications turned off for this browser' });
+      return;
+    }
+    const result = await enableLiveNotifications(token);
+    setStatus(result);
+    if (result === 'enabled') {
+      setMessage({ type: 'success', text: 'Notifications turned on for this browser' });
+    }
+  });
+
+  const updateChannels = (usernames: string[], enabled: boolean) => runAction(async () => {
+    if (!token) return;
+    const updated = await Promise.all(usernames.map(username => setLiveNotificationChannel(token, username, enabled)));
+    setChannels(prev => prev.map(channel => updated.find(item => item.username === channel.username) ?? channel));
+  });
+
+  const enabledCount = channels.filter(channel => channel.enabled).length;
+
+  const cardClassName = `p-6 rounded-lg shadow-md ${
+    isDarkMode ? 'bg-gray-900 border border-gray-800' : 'bg-white'
+  }`;
+
+  const secondaryButtonClassName = `px-3 py-1.5 rounded-md text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+    isDarkMode
+      ? 'bg-gray-800 text-gray-300 hover:bg-gray-700 hover:text-white'
+      : 'bg-gray-100 text-gray-700 hover:bg-gray-200 hover:text-gray-900'
+  }`;
+
+  const statusText: Record<LiveNotificationStatus, string> = {
+    enabled: 'On for this browser. You will be notified when the channels below go live.',
+    disabled: 'Off for this browser. Turn them on to get an alert when a followed channel goes live.',
+    denied: 'Blocked. Allow notifications for this site in your browser settings, then come back here.',
+    unsupported: 'This browser does not support notifications.',
+  };
+
+  return (
+    <div className={`min-h-screen ${isDarkMode ? 'bg-black' : 'bg-gray-50'}`}>
+      <div className="max-w-3xl mx-auto py-8 px-4 space-y-6">
+        <h2 className={`text-2xl font-bold ${
+          isDarkMode ? 'text-white' : 'text-gray-900'
+        }`}>
+          Notification Settings
+        </h2>
+
+        {message && (
+          <div className={`p-3 rounded-md text-sm ${
+            message.type === 'success'
+              ? isDarkMode ? 'bg-green-900/20 border border-green-800 text-green-400' : 'bg-green-50 border border-green-200 text-green-700'
+              : isDarkMode ? 'bg-red-900/20 border border-red-800 text-red-400' : 'bg-red-50 border border-red-200 text-red-700'
+          }`}>
+            {message.text}
+          </div>
+        )}
+
+        {/* Browser opt-in */}
+        <div className={cardClassName}>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h3 className={`text-lg font-semibold mb-1 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+                Browser Notifications
+              </h3>
+              <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                {statusText[status]}
+              </p>
+            </div>
+            {(status === 'enabled' || status === 'disabled') && (
+              <button
+                onClick={toggleBrowserNotifications}
+                disabled={busy}
+                className={`shrink-0 px-4 py-2 rounded-lg text-sm font-semibold transition-colors disabled:opacity-50 ${
+                  status === 'enabled'
+                    ? isDarkMode ? 'bg-gray-700 text-white hover:bg-gray-600' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                    : 'bg-blue-600 text-white hover:bg-blue-700'
+                }`}
+              >
+                {status === 'enabled' ? 'Turn off' : 'Turn on'}
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Per-channel preferences */}
+        <div className={cardClassName}>
+          <div className="flex items-center justify-between gap-4 mb-4">
+            <div>
+              <h3 className={`text-lg font-semibold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+                Go-Live Alerts
+              </h3>
+              <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                {enabledCount} of {channels.length} followed channels
+              </p>
+            </div>
+            {channels.length > 0 && (
+              <div className="flex gap-2">
+                <button
+                  onClick={() => updateChannels(channels.filter(channel => !channel.enabled).map(channel => channel.username), true)}
+                  disabled={busy || enabledCount === channels.length}
+                  className={secondaryButtonClassName}
+                >
+                  All on
+                </button>
+                <button
+                  onClick={() => updateChannels(channels.filter(channel => channel.enabled).map(channel => channel.username), false)}
+                  disabled={busy || enabledCount === 0}
+                  className={secondaryButtonClassName}
+                >
+                  All off
+                </button>
+              </div>
+            )}
+          </div>
+
+          {loading ? (
+            <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>Loading channels...</p>
+          ) : channels.length === 0 ? (
+            <p className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+              Follow channels to get notified when they go live.
+            </p>
+          ) : (
+            <ul className={`divide-y ${isDarkMode ? 'divide-gray-800' : 'divide-gray-200'}`}>
+              {channels.map(channel => (
+                <li key={channel.username} className="flex items-center justify-between py-3">
+                  <Link to={`/${channel.username}`} className="flex items-center gap-3 min-w-0">
+                    <div className="w-8 h-8 rounded-full overflow-hidden bg-black text-white flex items-center justify-center text-sm font-semibold shrink-0">
+                      {channel.profilePicture ? (
+                        <img src={channel.profilePicture} alt={channel.username} className="w-8 h-8 object-cover" />
+                      ) : (
+                        channel.username.charAt(0).toUpperCase()
+                      )}
+                    </div>
+                    <span className={`truncate font-medium ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+                      {channel.username}
+                    </span>
+                  </Link>
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <span className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                      {channel.enabled ? 'On' : 'Off'}
+                    </span>
+                    <input
+                      type="checkbox"
+                      checked={channel.enabled}
+                      disabled={busy}
+                      onChange={(e) => updateChannels([channel.username], e.target.checked)}
+                      className="h-4 w-4 rounded text-blue-600 focus:ring-blue-500"
+                    />
+                  </label>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,9 +3,11 @@ import { useState, useEffect, useContext } from 'react';
 import Input from '../../components/Input';
 import Button from '../../components/Button';
 import TwoFactorManager from '../../components/TwoFactorManager';
+import SessionManager from '../../components/SessionManager';
 import { useDarkMode } from '../../contexts/DarkModeContext';
 import AuthContext from '../../contexts/AuthContext';
 import { getStreamKey, regenerateStreamKey, changePassword } from '../../services/streamApi';
+import { isApiError } from '../../services/apiClient';
 
 type PasswordForm = {
   currentPassword: string;
@@ -13,7 +15,7 @@ type PasswordForm = {
   confirmNewPassword: string;
 };
 
-type SecurityTab = 'stream' | '2fa' | 'password';
+type SecurityTab = 'stream' | '2fa' | 'sessions' | 'password';
 
 interface StreamKeyData {
   streamKey: string;
@@ -55,11 +57,11 @@ export default function Security() {
         const data = await getStreamKey(token);
         console.log('Stream settings loaded successfully');
         setStreamData(data);
-      } catch (error: any) {
+      } catch (error) {
         console.error('Failed to fetch stream data:', error);
         
         // If session expired, show a helpful message
-        if (error.message?.includes('session has expired')) {
+        if (isApiError(error, 'session_expired')) {
           setPasswordMessage({ 
             type: 'error', 
             text: 'Your session has expired. Please refresh the page and log in again.' 
@@ -224,6 +226,19 @@ export default function Security() {
             >
               2FA
             </button>
+            <button
+              onClick={() => setActiveTab('sessions')}
+              className={`px-6 py-2 rounded-md font-medium text-sm transition-all ${
+                activeTab === 'sessions'
+                  ? 'bg-blue-600 text-white shadow-sm'
+                  : `${isDarkMode 
+                      ? 'text-gray-300 hover:text-white hover:bg-gray-800' 
+                      : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                    }`
+              }`}
+            >
+              Sessions
+            </button>
             <button
               onClick={() => setActiveTab('password')}
               className={`px-6 py-2 rounded-md font-medium text-sm transition-all ${
@@ -480,6 +495,11 @@ export default function Security() {
         {activeTab === '2fa' && (
           <TwoFactorManager />
         )}
+
+        {/* Sessions Tab */}
+        {activeTab === 'sessions' && (
+          <SessionManager />
+        )}
         
         {/* Password Tab */}
         {activeTab === 'password' && (
@@ -3,7 +3,12 @@ import { useParams, Link } from 'react-router-dom';
 import { useDarkMode } from '../contexts/DarkModeContext';
 import AuthContext from '../contexts/AuthContext';
 import { getPublicStreamData, getMyFollowers, getMySubscribers, updateUserProfile, getUserProfile, getActivityFeed, updateStreamTitle, getStreamTitle, getPublicUserProfile } from '../services/streamApi';
+import { isApiError } from '../services/apiClient';
 import BitrateGraph from '../components/BitrateGraph';
+import ChatModesSettings from '../components/ChatModesSettings';
+import ChatOverlaySettings from '../components/ChatOverlaySettings';
+import EmoteManager from '../components/EmoteManager';
+import StreamMarkerPanel from '../components/StreamMarkerPanel';
 
 type ChannelInfo = {
   username: string;
@@ -158,7 +163,9 @@ export default function ChannelPage() {
         console.log('Using fallback data for username:', username);
         
         // Set error state but still show fallback
-        setError(error instanceof Error ? error.message : 'Failed to load channel data');
+        setError(isApiError(error, 'not_found')
+          ? `Channel "${username}" was not found`
+          : error instanceof Error ? error.message : 'Failed to load channel data');
         
         // Fallback to basic channel info
         const fallbackInfo: ChannelInfo = {
@@ -1069,6 +1076,10 @@ export default function ChannelPage() {
                 </div>
               </div>
             </div>
+
+            <StreamMarkerPanel isLive={channel.live} className="mb-6" />
+
+            <EmoteManager username={channel.username} />
           </>
         )}
 
@@ -1138,27 +1149,32 @@ export default function ChannelPage() {
 
         {/* Moderation Tab */}
         {isOwnChannel && activeTab === 'moderation' && (
-          <div className={`p-6 rounded-lg shadow-md ${
-            isDarkMode 
-              ? 'bg-gray-900 border border-gray-800' 
-              : 'bg-white'
-          }`}>
-            <h3 className={`text-lg font-semibold mb-4 ${
-              isDarkMode ? 'text-white' : 'text-gray-900'
+          <div className="space-y-6">
+            <ChatModesSettings username={channel.username} />
+            <ChatOverlaySettings username={channel.username} />
+
+            <div className={`p-6 rounded-lg shadow-md ${
+              isDarkMode 
+                ? 'bg-gray-900 border border-gray-800' 
+                : 'bg-white'
             }`}>
-              Moderation
-            </h3>
-            
-            <div className="text-center py-12">
-              <svg className={`mx-auto h-12 w-12 mb-4 ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
-              </svg>
-              <h4 className={`text-lg font-medium mb-2 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
-                Moderation Tools
-              </h4>
-              <p className={`${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
-                Chat moderation, user bans, keyword filters, and moderator management will be available here.
-              </p>
+              <h3 className={`text-lg font-semibold mb-4 ${
+                isDarkMode ? 'text-white' : 'text-gray-900'
+              }`}>
+                Moderation
+              </h3>
+              
+              <div className="text-center py-12">
+                <svg className={`mx-auto h-12 w-12 mb-4 ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+                </svg>
+                <h4 className={`text-lg font-medium mb-2 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+                  Moderation Tools
+                </h4>
+                <p className={`${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                  Ban lists, keyword filters, and moderator management will be available here.
+                </p>
+              </div>
             </div>
           </div>
         )}
@@ -1,8 +1,10 @@
-import { useContext, useEffect, useState, useMemo } from 'react';
+import { useContext, useEffect, useRef, useState, useMemo } from 'react';
 import AuthContext from '../contexts/AuthContext';
 import { useDarkMode } from '../contexts/DarkModeContext';
 import { useNavigate, Link } from 'react-router-dom';
 import { searchUsers, getPublicUserProfile } from '../services/streamApi';
+import { getLiveNotificationChannels } from '../services/notificationsApi';
+import { getLiveNotificationStatus, showLiveNotification } from '../services/liveNotifications';
 
 type Stream = {
   id: number;
@@ -93,6 +95,48 @@ export default function Home() {
     pollNewThumbnails();
   }, [newlyLiveStreams])
 
+  // Followed channels the user wants go-live notifications for
+  const [notifyChannels, setNotifyChannels] = useState<Set<string>>(new Set());
+  // Channels already notified about for their current broadcast
+  const notifiedStreamsRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!token || getLiveNotificationStatus() !== 'enabled') return;
+    let cancelled = false;
+
+    getLiveNotificationChannels(token)
+      .then(channels => {
+        if (!cancelled) {
+          setNotifyChannels(new Set(channels.filter(channel => channel.enabled).map(channel => channel.username)));
+        }
+      })
+      .catch(error => console.error('Failed to load notification settings:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  // Notify about channels that went live while the page was in the background; a
+  // push for the same broadcast is replaced rather than shown twice. Channels seen
+  // going live while the page is visible count as notified, so hiding the tab later
+  // doesn't alert about them.
+  useEffect(() => {
+    const notified = notifiedStreamsRef.current;
+    notified.forEach(username => {
+      if (!newlyLiveStreams.has(username)) notified.delete(username);
+    });
+
+    newlyLiveStreams.forEach(username => {
+      if (notified.has(username) || !notifyChannels.has(username)) return;
+      notified.add(username);
+      if (!document.hidden) return;
+      const stream = streams.find(item => item.username === username);
+      showLiveNotification({ username, title: stream?.title, profilePicture: stream?.profilePicture })
+        .catch(error => console.error('Failed to show live notification:', error));
+    });
+  }, [newlyLiveStreams, notifyChannels, streams]);
+
   // Fetch streams from backend API
   useEffect(() => {
     const fetchStreams = async () => {
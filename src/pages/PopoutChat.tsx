@@ -0,0 +1,67 @@
+import { useEffect, useState } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { useDarkMode } from '../contexts/DarkModeContext';
+import ChatComponent from '../components/ChatComponent';
+import { getPublicStreamData } from '../services/streamApi';
+import { parseChatOverlayOptions } from '../services/chatApi';
+
+// Standalone chat for a second monitor or OBS dock. With ?overlay=1 it renders the
+// transparent overlay variant for browser-source capture; fontSize, fade and
+// hideInput tune it (see parseChatOverlayOptions).
+export default function PopoutChat() {
+  const { username } = useParams<{ username: string }>();
+  const [searchParams] = useSearchParams();
+  const { isDarkMode } = useDarkMode();
+  const [streamId, setStreamId] = useState<string | null>(null);
+  const [error, setError] = useState<string>('');
+
+  const isOverlay = searchParams.get('overlay') === '1';
+  const overlayOptions = parseChatOverlayOptions(searchParams);
+
+  useEffect(() => {
+    if (!username) return;
+    let cancelled = false;
+    getPublicStreamData(username)
+      .then(data => {
+        if (!cancelled) setStreamId(data.id.toString());
+      })
+      .catch(err => {
+        console.error('Failed to load stream for pop-out chat:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load chat');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [username]);
+
+  // Let OBS see through the page behind the overlay
+  useEffect(() => {
+    if (!isOverlay) return;
+    document.documentElement.setAttribute('data-chat-overlay', '');
+    return () => document.documentElement.removeAttribute('data-chat-overlay');
+  }, [isOverlay]);
+
+  if (error || !streamId) {
+    // Overlays stay blank rather than putting loading text on stream
+    if (isOverlay) return null;
+    return (
+      <div className={`h-screen flex items-center justify-center text-sm ${
+        isDarkMode ? 'bg-black text-gray-400' : 'bg-white text-gray-600'
+      }`}>
+        {error || 'Loading chat...'}
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-screen">
+      <ChatComponent
+        streamId={streamId}
+        streamName={username}
+        variant={isOverlay ? 'overlay' : 'popout'}
+        overlayOptions={overlayOptions}
+        className="h-full"
+      />
+    </div>
+  );
+}
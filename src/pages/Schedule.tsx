@@ -1,7 +1,15 @@
-import { useEffect, useState } from 'react';
+import { useContext, useEffect, useState } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
 import { useDarkMode } from '../contexts/DarkModeContext';
+import AuthContext from '../contexts/AuthContext';
 import { getPublicUserProfile, getPastStreams } from '../services/streamApi';
+import { getSchedule, expandSchedule, type ScheduleOccurrence, type ScheduleSegment } from '../services/scheduleApi';
+import ScheduleEventEditor, { type ScheduleEditorMode } from '../components/ScheduleEventEditor';
+import ScheduleOccurrenceDetails from '../components/ScheduleOccurrenceDetails';
+import ScheduleSubscribeMenu from '../components/ScheduleSubscribeMenu';
+import BroadcastBitrateHistory from '../components/BroadcastBitrateHistory';
+import { buildOccurrenceCalendar, downloadCalendarFile } from '../services/icalendar';
+import { getBrowserTimeZone, getTimeZoneAbbreviation, getZonedDateKey, zonedTimeToDate } from '../services/timeZones';
 
 type PastStream = {
   id: string;
@@ -12,9 +20,27 @@ type PastStream = {
   thumbnailUrl?: string;
 };
 
+// How far ahead the upcoming streams list looks
+const UPCOMING_LIST_DAYS = 28;
+const UPCOMING_LIST_LIMIT = 5;
+
+const formatSlotTime = (date: Date, timeZone: string) =>
+  date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit', timeZone });
+
+// Calendar cells are plain local dates; only their year, month and day matter
+const getDayKey = (date: Date) =>
+  `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`;
+
+// Midnight starting the given calendar day (dayOffset days later) in the zone
+const getZonedMidnight = (date: Date, timeZone: string, dayOffset = 0) =>
+  zonedTimeToDate({ year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() + dayOffset }, timeZone);
+
+const getOccurrenceKey = (occurrence: ScheduleOccurrence) => `${occurrence.segmentId}:${occurrence.originalStart}`;
+
 export default function Schedule() {
   const { username } = useParams<{ username: string }>();
   const { isDarkMode } = useDarkMode();
+  const { user } = useContext(AuthContext);
   const navigate = useNavigate();
   const [streamerProfile, setStreamerProfile] = useState<{
     username: string;
@@ -28,6 +54,24 @@ export default function Schedule() {
   const [currentDate, setCurrentDate] = useState(new Date());
   const [selectedStream, setSelectedStream] = useState<PastStream | null>(null);
   const [showVideoOverlay, setShowVideoOverlay] = useState(false);
+  // Ingest history in place of the player, for the channel owner
+  const [showBitrateHistory, setShowBitrateHistory] = useState(false);
+  // Upcoming broadcasts the streamer has published
+  const [scheduleSegments, setScheduleSegments] = useState<ScheduleSegment[]>([]);
+  const [scheduleEditor, setScheduleEditor] = useState<ScheduleEditorMode | null>(null);
+  const [selectedOccurrence, setSelectedOccurrence] = useState<ScheduleOccurrence | null>(null);
+  // Whose clock scheduled times are shown on
+  const [displayZone, setDisplayZone] = useState<'viewer' | 'streamer'>('viewer');
+
+  const isOwnSchedule = user?.username === username;
+
+  const viewerTimeZone = getBrowserTimeZone();
+  // The zone of the most recently changed entry is taken as where the streamer is now
+  const streamerTimeZone = scheduleSegments.reduce<ScheduleSegment | null>(
+    (latest, segment) => (!latest || (segment.updatedAt ?? '') > (latest.updatedAt ?? '') ? segment : latest),
+    null,
+  )?.timeZone ?? null;
+  const timeZone = displayZone === 'streamer' && streamerTimeZone ? streamerTimeZone : viewerTimeZone;
 
   // Fetch streamer profile
   useEffect(() => {
@@ -75,6 +119,25 @@ export default function Schedule() {
     fetchPastStreams();
   }, [username]);
 
+  // Fetch the upcoming schedule
+  useEffect(() => {
+    if (!username) return;
+    let cancelled = false;
+
+    getSchedule(username)
+      .then(segments => {
+        if (!cancelled) setScheduleSegments(segments);
+      })
+      .catch(error => {
+        console.error('Failed to fetch schedule:', error);
+        if (!cancelled) setScheduleSegments([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [username]);
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-US', {
@@ -138,10 +201,60 @@ export default function Schedule() {
   };
 
   const getStreamsForDate = (date: Date) => {
-    const dateStr = date.toISOString().split('T')[0];
+    const dateStr = getDayKey(date);
     return pastStreams.filter(stream => stream.date === dateStr);
   };
 
+  // Scheduled slots across the days on screen, from midnight of the first to midnight after
+  // the last in the displayed zone. Days around a DST change are 23 or 25 hours long there.
+  const calendarDays = viewMode === 'month' ? getMonthDays(currentDate) : getWeekDays(currentDate);
+  const calendarStart = getZonedMidnight(calendarDays[0], timeZone);
+  const calendarEnd = getZonedMidnight(calendarDays[calendarDays.length - 1], timeZone, 1);
+  const visibleOccurrences = expandSchedule(scheduleSegments, calendarStart, calendarEnd);
+
+  const upcomingStart = new Date();
+  const upcomingEnd = new Date(upcomingStart);
+  upcomingEnd.setDate(upcomingEnd.getDate() + UPCOMING_LIST_DAYS);
+  const upcomingOccurrences = expandSchedule(scheduleSegments, upcomingStart, upcomingEnd).slice(0, UPCOMING_LIST_LIMIT);
+  const selectedSegment = selectedOccurrence
+    ? scheduleSegments.find(segment => segment.id === selectedOccurrence.segmentId) ?? null
+    : null;
+
+  // Scheduled slots still to come (or in progress) on the given day
+  const getUpcomingForDate = (date: Date) => {
+    const now = new Date();
+    const dayKey = getDayKey(date);
+    return visibleOccurrences.filter(occurrence =>
+      getZonedDateKey(occurrence.start, timeZone) === dayKey && occurrence.end > now
+    );
+  };
+
+  const saveSegment = (segment: ScheduleSegment) => {
+    setScheduleSegments(prev => prev.some(existing => existing.id === segment.id)
+      ? prev.map(existing => (existing.id === segment.id ? segment : existing))
+      : [...prev, segment]);
+  };
+
+  const handleSegmentSaved = (segment: ScheduleSegment) => {
+    saveSegment(segment);
+    setScheduleEditor(null);
+    setSelectedOccurrence(null);
+  };
+
+  const downloadOccurrence = (occurrence: ScheduleOccurrence) => {
+    if (!username) return;
+    const calendar = buildOccurrenceCalendar(occurrence, {
+      username,
+      channelUrl: `${window.location.origin}/${encodeURIComponent(username)}`,
+    });
+    downloadCalendarFile(`${username}-${occurrence.start.toISOString().slice(0, 10)}.ics`, calendar);
+  };
+
+  const handleSegmentDeleted = (segmentId: string) => {
+    setScheduleSegments(prev => prev.filter(segment => segment.id !== segmentId));
+    setSelectedOccurrence(null);
+  };
+
   const navigateCalendar = (direction: 'prev' | 'next') => {
     const newDate = new Date(currentDate);
     if (viewMode === 'month') {
@@ -153,22 +266,23 @@ export default function Schedule() {
   };
 
   const isToday = (date: Date) => {
-    const today = new Date();
-    return date.toDateString() === today.toDateString();
+    return getDayKey(date) === getZonedDateKey(new Date(), timeZone);
   };
 
   const isSameMonth = (date: Date) => {
     return date.getMonth() === currentDate.getMonth() && date.getFullYear() === currentDate.getFullYear();
   };
 
-  const openVideoOverlay = (stream: PastStream) => {
+  const openVideoOverlay = (stream: PastStream, bitrateHistory = false) => {
     setSelectedStream(stream);
+    setShowBitrateHistory(bitrateHistory);
     setShowVideoOverlay(true);
   };
 
   const closeVideoOverlay = () => {
     setShowVideoOverlay(false);
     setSelectedStream(null);
+    setShowBitrateHistory(false);
   };
 
   // Handle keyboard events for overlay
@@ -191,6 +305,31 @@ export default function Schedule() {
     };
   }, [showVideoOverlay]);
 
+  const renderOccurrenceChip = (occurrence: ScheduleOccurrence, detailed: boolean) => (
+    <button
+      key={getOccurrenceKey(occurrence)}
+      onClick={() => setSelectedOccurrence(occurrence)}
+      className={`w-full text-xs ${detailed ? 'p-2' : 'p-1'} rounded text-left border border-dashed hover:opacity-80 transition-opacity ${
+        occurrence.cancelled
+          ? isDarkMode
+            ? 'border-gray-600 text-gray-500'
+            : 'border-gray-300 text-gray-400'
+          : isDarkMode
+            ? 'bg-blue-950 border-blue-600 text-blue-300'
+            : 'bg-blue-50 border-blue-300 text-blue-700'
+      }`}
+      title={`${occurrence.title}${occurrence.cancelled ? ' (cancelled)' : ''}`}
+    >
+      <div className={`truncate font-medium ${occurrence.cancelled ? 'line-through' : ''}`}>
+        {occurrence.title}
+      </div>
+      <div className="text-xs opacity-75">
+        {occurrence.cancelled ? 'Cancelled' : formatSlotTime(occurrence.start, timeZone)}
+        {detailed && !occurrence.cancelled && occurrence.category && ` • ${occurrence.category}`}
+      </div>
+    </button>
+  );
+
   if (loading) {
     return (
       <div className={`min-h-screen flex items-center justify-center ${
@@ -297,6 +436,15 @@ export default function Schedule() {
             
             {/* View Toggle */}
             <div className="flex items-center space-x-4">
+              {username && <ScheduleSubscribeMenu username={username} segments={scheduleSegments} />}
+              {isOwnSchedule && (
+                <button
+                  onClick={() => setScheduleEditor({ type: 'create' })}
+                  className="px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-colors text-sm font-semibold"
+                >
+                  Add to Schedule
+                </button>
+              )}
               <div className={`flex rounded-lg p-1 ${
                 isDarkMode ? 'bg-gray-800' : 'bg-gray-100'
               }`}>
@@ -366,6 +514,51 @@ export default function Schedule() {
             </button>
           </div>
 
+          {/* Legend */}
+          <div className={`flex items-center gap-4 mb-4 text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+            <span className="flex items-center gap-1.5">
+              <span className={`w-3 h-3 rounded-sm border border-dashed ${
+                isDarkMode ? 'bg-blue-950 border-blue-600' : 'bg-blue-50 border-blue-300'
+              }`} />
+              Upcoming
+            </span>
+            <span className="flex items-center gap-1.5">
+              <span className={`w-3 h-3 rounded-sm ${isDarkMode ? 'bg-green-900' : 'bg-green-100'}`} />
+              Past stream
+            </span>
+            {/* Time Zone Toggle */}
+            <div className="ml-auto flex items-center gap-2">
+              <span>Times in</span>
+              {streamerTimeZone && streamerTimeZone !== viewerTimeZone ? (
+                <div className={`flex rounded-md p-0.5 ${isDarkMode ? 'bg-gray-800' : 'bg-gray-100'}`}>
+                  {([
+                    ['viewer', 'Your time', viewerTimeZone],
+                    ['streamer', "Streamer's time", streamerTimeZone],
+                  ] as const).map(([zone, label, zoneName]) => (
+                    <button
+                      key={zone}
+                      onClick={() => setDisplayZone(zone)}
+                      title={zoneName.replace(/_/g, ' ')}
+                      className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+                        displayZone === zone
+                          ? 'bg-blue-600 text-white'
+                          : isDarkMode
+                            ? 'text-gray-300 hover:text-white hover:bg-gray-700'
+                            : 'text-gray-600 hover:text-gray-900 hover:bg-gray-200'
+                      }`}
+                    >
+                      {label} ({getTimeZoneAbbreviation(new Date(), zoneName)})
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <span className="font-medium">
+                  {viewerTimeZone.replace(/_/g, ' ')} ({getTimeZoneAbbreviation(new Date(), viewerTimeZone)})
+                </span>
+              )}
+            </div>
+          </div>
+
           {/* Calendar Grid */}
           {viewMode === 'month' ? (
             <div className="space-y-2">
@@ -382,9 +575,10 @@ export default function Schedule() {
               
               {/* Calendar days */}
               <div className="grid grid-cols-7 gap-2">
-                {getMonthDays(currentDate).map((date, index) => {
+                {calendarDays.map((date, index) => {
                   const streams = getStreamsForDate(date);
                   const hasStreams = streams.length > 0;
+                  const upcoming = getUpcomingForDate(date);
                   const isCurrentMonth = isSameMonth(date);
                   
                   return (
@@ -411,6 +605,27 @@ export default function Schedule() {
                       }`}>
                         {date.getDate()}
                       </div>
+
+                      {upcoming.length > 0 && (
+                        <div className="space-y-1 mb-1">
+                          {upcoming.slice(0, 2).map(occurrence => renderOccurrenceChip(occurrence, false))}
+                          {upcoming.length > 2 && (
+                            <button
+                              onClick={() => {
+                                setViewMode('week');
+                                setCurrentDate(date);
+                              }}
+                              className={`w-full text-xs text-center py-1 rounded transition-opacity hover:opacity-80 ${
+                                isDarkMode 
+                                  ? 'text-gray-400 hover:text-gray-300 bg-gray-800' 
+                                  : 'text-gray-600 hover:text-gray-700 bg-gray-200'
+                              }`}
+                            >
+                              +{upcoming.length - 2} more
+                            </button>
+                          )}
+                        </div>
+                      )}
                       
                       {hasStreams && (
                         <div className="space-y-1">
@@ -481,9 +696,10 @@ export default function Schedule() {
               
               {/* Week calendar days */}
               <div className="grid grid-cols-7 gap-2">
-                {getWeekDays(currentDate).map((date, index) => {
+                {calendarDays.map((date, index) => {
                   const streams = getStreamsForDate(date);
                   const hasStreams = streams.length > 0;
+                  const upcoming = getUpcomingForDate(date);
                   
                   return (
                     <div
@@ -498,6 +714,12 @@ export default function Schedule() {
                             : 'border-gray-200 hover:border-gray-300'
                       }`}
                     >
+                      {upcoming.length > 0 && (
+                        <div className="space-y-2 mb-2">
+                          {upcoming.map(occurrence => renderOccurrenceChip(occurrence, true))}
+                        </div>
+                      )}
+
                       {hasStreams && (
                         <div className="space-y-2">
                           {streams.map((stream, streamIndex) => (
@@ -527,21 +749,82 @@ export default function Schedule() {
             </div>
           )}
           
-          {pastStreams.length === 0 && (
+          {pastStreams.length === 0 && scheduleSegments.length === 0 && (
             <div className="text-center py-12">
               <svg className="w-16 h-16 mx-auto mb-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
               </svg>
               <p className={`text-lg ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
-                No past streams available
+                No past or scheduled streams
               </p>
+              {isOwnSchedule && (
+                <p className={`text-sm mt-2 ${isDarkMode ? 'text-gray-500' : 'text-gray-500'}`}>
+                  Use Add to Schedule to let viewers know when you'll be live.
+                </p>
+              )}
             </div>
           )}
         </div>
 
+        {/* Upcoming Streams List */}
+        {upcomingOccurrences.length > 0 && (
+          <div className={`rounded-xl p-6 shadow-lg mt-8 ${
+            isDarkMode ? 'bg-gray-900' : 'bg-white'
+          }`}>
+            <h2 className={`text-2xl font-bold mb-6 ${
+              isDarkMode ? 'text-white' : 'text-gray-900'
+            }`}>
+              Upcoming Streams
+            </h2>
+            <div className="space-y-4">
+              {upcomingOccurrences.map((occurrence) => (
+                <button
+                  key={getOccurrenceKey(occurrence)}
+                  onClick={() => setSelectedOccurrence(occurrence)}
+                  className={`w-full text-left p-4 rounded-lg border border-dashed transition-colors hover:shadow-md ${
+                    isDarkMode 
+                      ? 'border-blue-700 bg-gray-800 hover:bg-gray-700' 
+                      : 'border-blue-300 bg-blue-50 hover:bg-blue-100'
+                  }`}
+                >
+                  <h3 className={`text-lg font-semibold mb-1 ${
+                    isDarkMode ? 'text-white' : 'text-gray-900'
+                  } ${occurrence.cancelled ? 'line-through opacity-60' : ''}`}>
+                    {occurrence.title}
+                  </h3>
+                  <div className={`flex flex-wrap items-center gap-x-4 text-sm ${
+                    isDarkMode ? 'text-gray-400' : 'text-gray-600'
+                  }`}>
+                    <span>
+                      {occurrence.start.toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric', timeZone })}
+                    </span>
+                    <span>•</span>
+                    <span>
+                      {formatSlotTime(occurrence.start, timeZone)} – {formatSlotTime(occurrence.end, timeZone)}
+                      {' '}{getTimeZoneAbbreviation(occurrence.start, timeZone)}
+                    </span>
+                    {occurrence.category && (
+                      <>
+                        <span>•</span>
+                        <span>{occurrence.category}</span>
+                      </>
+                    )}
+                    {occurrence.cancelled && (
+                      <>
+                        <span>•</span>
+                        <span className="text-red-500">Cancelled</span>
+                      </>
+                    )}
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Past Streams List (for fallback/additional info) */}
         {pastStreams.length > 0 && (
-          <div className={`rounded-xl p-6 shadow-lg ${
+          <div className={`rounded-xl p-6 shadow-lg mt-8 ${
             isDarkMode ? 'bg-gray-900' : 'bg-white'
           }`}>
             <h2 className={`text-2xl font-bold mb-6 ${
@@ -577,6 +860,14 @@ export default function Schedule() {
                       </div>
                     </div>
                     <div className="flex items-center space-x-3">
+                      {isOwnSchedule && (
+                        <button
+                          onClick={() => openVideoOverlay(stream, true)}
+                          className="px-3 py-1 rounded-md text-xs font-medium bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+                        >
+                          Bitrate history
+                        </button>
+                      )}
                       <button 
                         className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
                           isDarkMode 
@@ -595,6 +886,39 @@ export default function Schedule() {
         </div>
         )}
 
+        {/* Schedule entry details */}
+        {selectedOccurrence && selectedSegment && (
+          <ScheduleOccurrenceDetails
+            occurrence={selectedOccurrence}
+            segment={selectedSegment}
+            canEdit={isOwnSchedule}
+            timeZone={timeZone}
+            onAddToCalendar={() => downloadOccurrence(selectedOccurrence)}
+            onEditOccurrence={() => {
+              setScheduleEditor({ type: 'occurrence', segment: selectedSegment, occurrence: selectedOccurrence });
+              setSelectedOccurrence(null);
+            }}
+            onEditSeries={() => {
+              setScheduleEditor({ type: 'series', segment: selectedSegment });
+              setSelectedOccurrence(null);
+            }}
+            onSegmentUpdated={(segment) => {
+              saveSegment(segment);
+              setSelectedOccurrence(null);
+            }}
+            onSegmentDeleted={handleSegmentDeleted}
+            onClose={() => setSelectedOccurrence(null)}
+          />
+        )}
+
+        {scheduleEditor && (
+          <ScheduleEventEditor
+            mode={scheduleEditor}
+            onSaved={handleSegmentSaved}
+            onClose={() => setScheduleEditor(null)}
+          />
+        )}
+
         {/* Video Player Overlay */}
         {showVideoOverlay && selectedStream && (
           <div 
@@ -602,7 +926,9 @@ export default function Schedule() {
             onClick={closeVideoOverlay}
           >
             <div 
-              className={`relative w-full max-w-4xl mx-4 rounded-xl overflow-hidden shadow-2xl ${
+              className={`relative w-full max-w-4xl mx-4 rounded-xl shadow-2xl ${
+                showBitrateHistory ? 'max-h-[90vh] overflow-y-auto' : 'overflow-hidden'
+              } ${
                 isDarkMode ? 'bg-gray-900' : 'bg-white'
               }`}
               onClick={(e) => e.stopPropagation()}
@@ -641,20 +967,27 @@ export default function Schedule() {
                 </button>
               </div>
 
-              {/* Video Player Placeholder */}
-              <div className="aspect-video bg-black flex items-center justify-center">
-                <div className="text-center text-white">
-                  <div className="mb-4">
-                    <svg className="w-16 h-16 mx-auto mb-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M14.828 14.828a4 4 0 01-5.656 0M9 10h1.01M15 10h1.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                    </svg>
+              {showBitrateHistory && username ? (
+                <BroadcastBitrateHistory
+                  source={{ username, streamId: selectedStream.id }}
+                  title={selectedStream.title}
+                  className="p-4"
+                />
+              ) : (
+                <div className="aspect-video bg-black flex items-center justify-center">
+                  <div className="text-center text-white">
+                    <div className="mb-4">
+                      <svg className="w-16 h-16 mx-auto mb-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M14.828 14.828a4 4 0 01-5.656 0M9 10h1.01M15 10h1.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                      </svg>
+                    </div>
+                    <h3 className="text-xl font-semibold mb-2">VoD Player Coming Soon</h3>
+                    <p className="text-gray-400">
+                      Video on Demand playback will be connected to the backend storage server
+                    </p>
                   </div>
-                  <h3 className="text-xl font-semibold mb-2">VoD Player Coming Soon</h3>
-                  <p className="text-gray-400">
-                    Video on Demand playback will be connected to the backend storage server
-                  </p>
                 </div>
-              </div>
+              )}
 
               {/* Footer */}
               <div className={`p-4 border-t ${
@@ -667,6 +1000,18 @@ export default function Schedule() {
                     Streamer: {streamerProfile?.username}
                   </div>
                   <div className="flex items-center space-x-2">
+                    {isOwnSchedule && (
+                      <button
+                        onClick={() => setShowBitrateHistory(!showBitrateHistory)}
+                        className={`px-4 py-2 rounded-lg transition-colors text-sm font-semibold ${
+                          showBitrateHistory
+                            ? 'bg-blue-600 text-white hover:bg-blue-700'
+                            : isDarkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                        }`}
+                      >
+                        Bitrate history
+                      </button>
+                    )}
                     <button
                       onClick={closeVideoOverlay}
                       className="px-4 py-2 rounded-lg bg-gray-600 text-white hover:bg-gray-700 transition-colors text-sm font-semibold"
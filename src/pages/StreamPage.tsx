@@ -3,7 +3,12 @@ import { useParams, Link, useNavigate } from 'react-router-dom';
 import { useDarkMode } from '../contexts/DarkModeContext';
 import AuthContext from '../contexts/AuthContext';
 import ChatComponent from '../components/ChatComponent';
+import PlayerStats from '../components/PlayerStats';
+import ClipEditor from '../components/ClipEditor';
+import LiveNotificationToggle from '../components/LiveNotificationToggle';
 import { getPublicStreamData, followUser, unfollowUser, checkFollowStatus, getPublicFollowerCount, getStreamTitle, getPublicUserProfile, cleanupStreamThumbnails, joinStream, leaveStream, cleanupPreviousViewerSession } from '../services/streamApi';
+import { isApiError } from '../services/apiClient';
+import { parseMasterPlaylist, parseMediaPlaylistInfo, sortVariants, isAudioOnlyVariant, getVariantName, formatVariantLabel, supportsLowLatency, getLiveHoldBack, type HlsMediaPlaylistInfo } from '../services/hlsPlaylist';
 import videojs from 'video.js';
 
 type StreamInfo = {
@@ -29,8 +34,53 @@ type QualityState = {
   available: QualityOption[];
   current: string;
   isMultibitrate: boolean;
+  // Live timing of the stream's media playlists, used for latency and LL-HLS support
+  playlistInfo: HlsMediaPlaylistInfo | null;
 };
 
+type VideoPlayer = ReturnType<typeof videojs>;
+
+// Within this many seconds of the live edge the viewer is considered live (matches video.js liveTolerance)
+const LIVE_EDGE_TOLERANCE_SECONDS = 15;
+const DVR_SEEK_STEP_SECONDS = 10;
+
+// Low-latency catch-up: speed up once this far behind the hold-back point, back to 1x once close again
+const CATCH_UP_START_SECONDS = 1.5;
+const CATCH_UP_STOP_SECONDS = 0.5;
+const CATCH_UP_RATE = 1.1;
+const CATCH_UP_FAST_RATE = 1.25;
+const CATCH_UP_FAST_SECONDS = 5;
+
+// The seekable range of a live HLS stream is the window viewers can rewind through
+const getLiveWindow = (player: VideoPlayer): { start: number; end: number } | null => {
+  const seekable = player.seekable();
+  if (!seekable || seekable.length === 0) return null;
+  return { start: seekable.start(0), end: seekable.end(seekable.length - 1) };
+};
+
+const getSecondsBehindLive = (player: VideoPlayer): number => {
+  const liveWindow = getLiveWindow(player);
+  if (!liveWindow) return 0;
+  return Math.max(0, liveWindow.end - (player.currentTime() ?? liveWindow.end));
+};
+
+// Seek to a position relative to the live edge, clamped to the DVR window
+const seekBehindLive = (player: VideoPlayer, secondsBehind: number) => {
+  const liveWindow = getLiveWindow(player);
+  if (!liveWindow) return;
+  player.currentTime(Math.max(liveWindow.start, liveWindow.end - Math.max(0, secondsBehind)));
+};
+
+// Format a DVR offset as "-02:35" or "-1:02:35"
+const formatBehindLive = (totalSeconds: number): string => {
+  const seconds = Math.floor(totalSeconds);
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = (seconds % 60).toString().padStart(2, '0');
+  return hours > 0
+    ? `-${hours}:${minutes.toString().padStart(2, '0')}:${secs}`
+    : `-${minutes.toString().padStart(2, '0')}:${secs}`;
+};
 
 export default function StreamPage() {
   const { username } = useParams<{ username: string }>();
@@ -82,9 +132,20 @@ export default function StreamPage() {
   const [qualityState, setQualityState] = useState<QualityState>({
     available: [],
     current: 'auto',
-    isMultibitrate: false
+    isMultibitrate: false,
+    playlistInfo: null
   });
   const [showSettingsMenu, setShowSettingsMenu] = useState(false);
+  const [showPlayerStats, setShowPlayerStats] = useState(false);
+  // Seconds the viewer has rewound behind the live edge (DVR)
+  const [secondsBehindLive, setSecondsBehindLive] = useState(0);
+  const [lowLatencyMode, setLowLatencyMode] = useState(() => localStorage.getItem('lowLatencyMode') === 'true');
+  // Estimated seconds between the newest media on the origin and what is playing
+  const [latencySeconds, setLatencySeconds] = useState<number | null>(null);
+  // Read by the control bar's clip button, which is created once with the player
+  const latencySecondsRef = useRef<number | null>(null);
+  // Set while the clip editor is open: wall-clock time of the frame on screen when clip was pressed
+  const [clipCapturedAt, setClipCapturedAt] = useState<Date | null>(null);
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const playerRef = useRef<ReturnType<typeof videojs> | null>(null);
   const previousUsernameRef = useRef<string | undefined>(username);
@@ -168,7 +229,8 @@ export default function StreamPage() {
       return {
         available: [{ label: "Source", value: "source", url: "index.m3u8" }],
         current: 'source',
-        isMultibitrate: false
+        isMultibitrate: false,
+        playlistInfo: null
       };
     }
 
@@ -189,23 +251,59 @@ export default function StreamPage() {
         const masterPlaylist = await masterResponse.text();
         console.log('Master playlist content:', masterPlaylist);
 
-        if (masterPlaylist.includes('#EXT-X-STREAM-INF')) {
-          // Multi-bitrate available!
-          console.log('Multi-bitrate detected!');
-          const qualities = [
-            { label: "Auto", value: "auto", url: `${baseUrl}/index.m3u8` },
-            { label: "1080p", value: "1080p", url: `${baseUrl}/1080p/index.m3u8` },
-            { label: "720p", value: "720p", url: `${baseUrl}/720p/index.m3u8` },
-            { label: "480p", value: "480p", url: `${baseUrl}/480p/index.m3u8` },
-            { label: "Audio Only", value: "audio", url: `${baseUrl}/audio/index.m3u8` }
-          ];
+        const variants = sortVariants(parseMasterPlaylist(masterPlaylist, masterPlaylistUrl));
+        console.log('Parsed HLS variants:', variants);
+
+        // Every rendition shares the same segmenting, so one media playlist tells us the live timing
+        let playlistInfo: HlsMediaPlaylistInfo | null = null;
+        try {
+          const mediaPlaylist = variants.length > 0
+            ? await fetch(variants[0].uri).then(response => response.ok ? response.text() : '')
+            : masterPlaylist;
+          playlistInfo = mediaPlaylist ? parseMediaPlaylistInfo(mediaPlaylist) : null;
+          console.log('Media playlist info:', playlistInfo);
+        } catch (error) {
+          console.log('Media playlist error:', error);
+        }
+
+        if (variants.length > 1) {
+          // Multi-bitrate available! Build the menu from the variants the channel actually has
+          const qualities: QualityOption[] = [{ label: "Auto", value: "auto", url: masterPlaylistUrl }];
+          variants.forEach(variant => {
+            const baseValue = isAudioOnlyVariant(variant) ? 'audio' : getVariantName(variant).toLowerCase();
+            const value = qualities.some(q => q.value === baseValue)
+              ? `${baseValue}-${Math.round(variant.bandwidth / 1000)}k`
+              : baseValue;
+            qualities.push({ label: formatVariantLabel(variant), value, url: variant.uri });
+          });
 
+          // Ignore a saved preference for a rendition this channel no longer offers
+          const savedQuality = localStorage.getItem(`quality_${username}`);
           return {
             available: qualities,
-            current: localStorage.getItem(`quality_${username}`) || 'auto',
-            isMultibitrate: true
+            current: savedQuality && qualities.some(q => q.value === savedQuality) ? savedQuality : 'auto',
+            isMultibitrate: true,
+            playlistInfo
           };
         }
+
+        if (variants.length === 1) {
+          // Single-rendition master playlist: nothing to switch between, but show what the source is
+          return {
+            available: [{ label: `Source (${formatVariantLabel(variants[0])})`, value: "source", url: masterPlaylistUrl }],
+            current: 'source',
+            isMultibitrate: false,
+            playlistInfo
+          };
+        }
+
+        // No variants: index.m3u8 is itself the media playlist
+        return {
+          available: [{ label: "Source", value: "source", url: masterPlaylistUrl }],
+          current: 'source',
+          isMultibitrate: false,
+          playlistInfo
+        };
       }
     } catch (error) {
       console.log('Master playlist error:', error);
@@ -218,7 +316,8 @@ export default function StreamPage() {
     return {
       available: [{ label: "Source", value: "source", url: fallbackUrl }],
       current: 'source',
-      isMultibitrate: false
+      isMultibitrate: false,
+      playlistInfo: null
     };
   };
 
@@ -242,19 +341,21 @@ export default function StreamPage() {
     // Use the full URL from the quality object
     const newUrl = quality.url;
 
-    // Remember current time
-    const currentTime = playerRef.current.currentTime();
+    // Remember how far behind live the viewer is; renditions don't share a timeline,
+    // so the offset from the live edge is what carries over, not currentTime
+    const behindLive = getSecondsBehindLive(playerRef.current);
 
     // Switch source
     playerRef.current.src({
       src: newUrl,
-      type: 'application/x-mpegURL'
+      type: 'application/x-mpegURL',
+      llhls: lowLatencyMode
     });
 
-    // Try to seek back to current time after load
+    // Restore the DVR position after load; viewers at the live edge stay live
     playerRef.current.one('loadeddata', () => {
-      if (playerRef.current && currentTime && currentTime > 0) {
-        playerRef.current.currentTime(currentTime);
+      if (playerRef.current && behindLive > LIVE_EDGE_TOLERANCE_SECONDS) {
+        seekBehindLive(playerRef.current, behindLive);
       }
     });
 
@@ -264,6 +365,42 @@ export default function StreamPage() {
     setShowSettingsMenu(false);
   };
 
+  const toggleLowLatencyMode = () => {
+    const enabled = !lowLatencyMode;
+    setLowLatencyMode(enabled);
+    localStorage.setItem('lowLatencyMode', String(enabled));
+
+    const player = playerRef.current;
+    const quality = qualityState.available.find(q => q.value === qualityState.current);
+    if (!player || !quality) return;
+
+    // VHS reads llhls when the source is set, so reload the current rendition at the live edge
+    player.playbackRate(1);
+    player.src({
+      src: quality.url,
+      type: 'application/x-mpegURL',
+      llhls: enabled
+    });
+    player.one('loadeddata', () => {
+      playerRef.current?.play()?.catch(() => {});
+    });
+  };
+
+  const jumpToLive = () => {
+    const player = playerRef.current;
+    if (!player) return;
+
+    seekBehindLive(player, 0);
+    setSecondsBehindLive(0);
+    if (player.paused()) {
+      player.play()?.catch(() => {});
+    }
+  };
+
+  const closeClipEditor = () => {
+    setClipCapturedAt(null);
+  };
+
 
 
   // Fetch stream info from API
@@ -421,18 +558,17 @@ export default function StreamPage() {
             setStreamerProfilePicture(streamData.profilePicture);
           }
         }
-      } catch (error: any) {
+      } catch (error) {
         console.error('Failed to fetch stream data:', error);
-        console.log('Error message:', error.message);
         
         // Check if this is a rate limiting error
-        if (error.message?.includes('429') || error.message?.includes('Rate limit') || error.message?.includes('Too Many Requests')) {
+        if (isApiError(error, 'rate_limited')) {
           console.log('⚠️ Rate limited, skipping this poll cycle');
           return; // Skip this cycle, don't change any state
         }
         
         // Check if this is a 404 error (streamer not found)
-        if (error.message?.includes('404') || error.message?.includes('not found') || error.message?.includes('Streamer not found')) {
+        if (isApiError(error, 'not_found')) {
           console.log('Setting streamer not found to true');
           setStreamerNotFound(true);
           return; // Exit early, don't set dummy data
@@ -558,7 +694,7 @@ export default function StreamPage() {
     } else if (stream && !stream.isLive) {
       console.log('🔴 Stream went offline');
       // Clear quality state for offline streams
-      setQualityState({ available: [], current: 'source', isMultibitrate: false });
+      setQualityState({ available: [], current: 'source', isMultibitrate: false, playlistInfo: null });
     }
   }, [stream?.isLive, stream?.id, username]);
 
@@ -591,6 +727,11 @@ export default function StreamPage() {
         preload: 'auto',
         playsinline: true,
         liveui: true,
+        // Show the DVR seek bar once at least 30 seconds can be rewound
+        liveTracker: {
+          trackingThreshold: 30,
+          liveTolerance: LIVE_EDGE_TOLERANCE_SECONDS,
+        },
         inactivityTimeout: 0,
         bigPlayButton: false,
         fill: true,
@@ -643,9 +784,11 @@ export default function StreamPage() {
             console.log('No qualities available, using stream URL:', sourceUrl);
           }
           
+          // llhls enables partial segments in VHS; the origin only serves them when the playlist advertises them
           playerRef.current.src({
             src: sourceUrl,
             type: 'application/x-mpegURL',
+            llhls: lowLatencyMode,
           });
 
           // Force controls to be visible
@@ -674,10 +817,10 @@ export default function StreamPage() {
               'pictureInPictureToggle'
             ];
             
-            // For live streams, also remove the progress control (time slider), skip buttons, and live display
+            // For live streams, also remove the skip buttons and live display; the progress control
+            // stays as the DVR seek bar and the LIVE badge overlay replaces seekToLive
             if (stream.isLive) {
               unwantedButtons.push(
-                'progressControl',
                 'skipBackward',
                 'skipForward',
                 'liveDisplay',
@@ -692,6 +835,14 @@ export default function StreamPage() {
               }
             });
             
+            // Clip button for live streams, left of settings
+            const clipButton = stream.isLive
+              ? controlBar.addChild('button', {
+                  className: 'vjs-clip-button vjs-control vjs-button',
+                  title: 'Clip'
+                })
+              : null;
+
             // Add custom settings button for quality/info controls
             const settingsButton = controlBar.addChild('button', {
               className: 'vjs-settings-button vjs-control vjs-button',
@@ -712,7 +863,8 @@ export default function StreamPage() {
               const theaterEl = theaterButton.el();
               const fullscreenEl = fullscreenButton.el();
               
-              // Insert settings first (leftmost of right side buttons)
+              // Clip, then settings (leftmost of right side buttons)
+              if (clipButton) controlBarEl.insertBefore(clipButton.el(), fullscreenEl);
               controlBarEl.insertBefore(settingsEl, fullscreenEl);
               // Insert theater between settings and fullscreen
               controlBarEl.insertBefore(theaterEl, fullscreenEl);
@@ -736,12 +888,12 @@ export default function StreamPage() {
               spacerEl.style.flex = '1';
               spacerEl.style.minWidth = '0';
               
-              // Move spacer to the correct position (after volume, before settings)
+              // Move spacer to the correct position (after volume, before clip and settings)
               if (volumeControl && settingsButton) {
                 const controlBarEl = controlBar.el();
                 const spacerElMove = spacer.el();
-                const settingsEl = settingsButton.el();
-                controlBarEl.insertBefore(spacerElMove, settingsEl);
+                const firstRightEl = clipButton ? clipButton.el() : settingsButton.el();
+                controlBarEl.insertBefore(spacerElMove, firstRightEl);
               }
             }
             
@@ -760,6 +912,28 @@ export default function StreamPage() {
             settingsButton.on('click', () => {
               setShowSettingsMenu(prev => !prev);
             });
+
+            if (clipButton) {
+              clipButton.el().innerHTML = `
+                <span class="vjs-icon-placeholder" aria-hidden="true">
+                  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="1.5" style="width: 18px; height: 18px;">
+                    <path stroke-linecap="round" stroke-linejoin="round" d="M7.848 8.25l1.536.887M7.848 8.25a3 3 0 11-5.196-3 3 3 0 015.196 3zm1.536.887a2.165 2.165 0 011.083 1.839c.005.351.054.695.14 1.024M9.384 9.137l2.077 1.199M7.848 15.75l1.536-.887m-1.536.887a3 3 0 11-5.196 3 3 3 0 015.196-3zm1.536-.887a2.165 2.165 0 001.083-1.838c.005-.352.054-.695.14-1.025m-1.223 2.863l2.077-1.199m0-3.328a4.323 4.323 0 012.068-1.379l5.325-1.628a4.5 4.5 0 012.48-.044l.803.215-7.794 4.5m-2.882-1.664A4.331 4.331 0 0010.607 12m3.736 0l7.794 4.5-.802.215a4.5 4.5 0 01-2.48-.043l-5.326-1.629a4.324 4.324 0 01-2.068-1.379M14.343 12l-2.882 1.664" />
+                  </svg>
+                </span>
+                <span class="vjs-control-text" aria-live="polite">Clip</span>
+              `;
+
+              // The clip covers what the viewer was watching, so account for latency and DVR rewind
+              clipButton.on('click', () => {
+                const player = playerRef.current;
+                const latency = latencySecondsRef.current ?? (player ? getSecondsBehindLive(player) : 0);
+                if (document.fullscreenElement) {
+                  document.exitFullscreen?.();
+                }
+                setShowSettingsMenu(false);
+                setClipCapturedAt(new Date(Date.now() - latency * 1000));
+              });
+            }
             
             // Set initial icon and text based on current state
             const updateTheaterButton = (currentTheaterMode: boolean) => {
@@ -1228,6 +1402,95 @@ export default function StreamPage() {
     };
   }, [showSettingsMenu]);
 
+  // Track how far behind the live edge the viewer is; polled so it keeps growing while paused
+  useEffect(() => {
+    if (!playerInitialized || !stream?.isLive) return;
+
+    const interval = setInterval(() => {
+      if (playerRef.current) {
+        setSecondsBehindLive(Math.round(getSecondsBehindLive(playerRef.current)));
+      }
+    }, 1000);
+
+    return () => {
+      clearInterval(interval);
+      setSecondsBehindLive(0);
+    };
+  }, [playerInitialized, stream?.isLive]);
+
+  // Latency readout and low-latency catch-up: nudge the playback rate up while drifting behind the live edge
+  useEffect(() => {
+    if (!playerInitialized || !stream?.isLive) return;
+
+    const useParts = lowLatencyMode && supportsLowLatency(qualityState.playlistInfo);
+    const holdBack = getLiveHoldBack(qualityState.playlistInfo, useParts);
+
+    const interval = setInterval(() => {
+      const player = playerRef.current;
+      if (!player || !getLiveWindow(player)) return;
+
+      const behind = getSecondsBehindLive(player);
+      latencySecondsRef.current = behind + holdBack;
+      setLatencySeconds(behind + holdBack);
+
+      // Viewers who rewound on purpose (DVR) or paused are left alone
+      if (!lowLatencyMode || player.paused() || behind > LIVE_EDGE_TOLERANCE_SECONDS) {
+        if (player.playbackRate() !== 1) player.playbackRate(1);
+        return;
+      }
+
+      const rate = player.playbackRate() ?? 1;
+      if (behind > CATCH_UP_FAST_SECONDS) {
+        if (rate !== CATCH_UP_FAST_RATE) player.playbackRate(CATCH_UP_FAST_RATE);
+      } else if (behind > CATCH_UP_START_SECONDS) {
+        if (rate !== CATCH_UP_RATE) player.playbackRate(CATCH_UP_RATE);
+      } else if (behind < CATCH_UP_STOP_SECONDS && rate !== 1) {
+        player.playbackRate(1);
+      }
+    }, 1000);
+
+    return () => {
+      clearInterval(interval);
+      latencySecondsRef.current = null;
+      setLatencySeconds(null);
+    };
+  }, [playerInitialized, stream?.isLive, lowLatencyMode, qualityState.playlistInfo]);
+
+  // Keyboard DVR seeking: arrow keys rewind/fast-forward, End jumps back to live
+  useEffect(() => {
+    if (!playerInitialized || !stream?.isLive) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const player = playerRef.current;
+      if (!player || event.altKey || event.ctrlKey || event.metaKey) return;
+
+      // Don't steal keys from chat or other inputs
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) {
+        return;
+      }
+
+      const behind = getSecondsBehindLive(player);
+      if (event.key === 'ArrowLeft') {
+        seekBehindLive(player, behind + DVR_SEEK_STEP_SECONDS);
+      } else if (event.key === 'ArrowRight') {
+        seekBehindLive(player, behind - DVR_SEEK_STEP_SECONDS);
+      } else if (event.key === 'End') {
+        seekBehindLive(player, 0);
+      } else {
+        return;
+      }
+
+      event.preventDefault();
+      setSecondsBehindLive(Math.round(getSecondsBehindLive(player)));
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [playerInitialized, stream?.isLive]);
+
   const handleFollowToggle = async () => {
     if (!user || !token || !username) {
       // Redirect to login if not authenticated
@@ -1425,10 +1688,69 @@ export default function StreamPage() {
                             </button>
                           ))}
                         </div>
+                        <div className={`px-3 py-2 border-t border-b font-medium text-sm ${
+                          isDarkMode ? 'border-gray-700 text-white' : 'border-gray-200 text-gray-900'
+                        }`}>
+                          Latency
+                        </div>
+                        <div className="py-1">
+                          <button
+                            onClick={toggleLowLatencyMode}
+                            className={`w-full px-3 py-2 text-left text-sm ${
+                              isDarkMode ? 'hover:bg-gray-800 text-gray-300' : 'hover:bg-gray-100 text-gray-700'
+                            }`}
+                          >
+                            <div className="flex items-center justify-between gap-4">
+                              <span>Low latency</span>
+                              <span className={`relative inline-flex h-4 w-7 flex-shrink-0 rounded-full transition-colors ${
+                                lowLatencyMode ? 'bg-blue-600' : (isDarkMode ? 'bg-gray-600' : 'bg-gray-300')
+                              }`}>
+                                <span className={`absolute top-0.5 h-3 w-3 rounded-full bg-white transition-transform ${
+                                  lowLatencyMode ? 'translate-x-3.5' : 'translate-x-0.5'
+                                }`} />
+                              </span>
+                            </div>
+                          </button>
+                          <div className={`px-3 py-1 text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                            <div className="flex items-center justify-between">
+                              <span>Latency to live</span>
+                              <span className="tabular-nums">
+                                {latencySeconds !== null ? `${latencySeconds.toFixed(1)}s` : '—'}
+                              </span>
+                            </div>
+                            <div className="mt-0.5">
+                              {supportsLowLatency(qualityState.playlistInfo)
+                                ? (lowLatencyMode ? 'Using LL-HLS partial segments' : 'LL-HLS available')
+                                : 'Stream does not offer LL-HLS'}
+                            </div>
+                          </div>
+                        </div>
+                        <div className={`py-1 border-t ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                          <button
+                            onClick={() => {
+                              setShowPlayerStats(prev => !prev);
+                              setShowSettingsMenu(false);
+                            }}
+                            className={`w-full px-3 py-2 text-left text-sm ${
+                              isDarkMode ? 'hover:bg-gray-800 text-gray-300' : 'hover:bg-gray-100 text-gray-700'
+                            }`}
+                          >
+                            {showPlayerStats ? 'Hide stats for nerds' : 'Stats for nerds'}
+                          </button>
+                        </div>
                       </div>
                     </div>
                   )}
 
+                  {/* Stats for nerds overlay */}
+                  {showPlayerStats && (
+                    <PlayerStats
+                      playerRef={playerRef}
+                      latencySeconds={latencySeconds}
+                      onClose={() => setShowPlayerStats(false)}
+                    />
+                  )}
+
                   {/* LIVE Indicator and Theater Mode Buttons Overlay */}
                   {stream.isLive && (
                     <div className="video-overlay-buttons">
@@ -1493,17 +1815,40 @@ export default function StreamPage() {
                         </>
                       )}
                       
-                      {/* LIVE Indicator */}
-                      <div className={`flex items-center space-x-2 px-3 py-1 rounded-full ${
-                        isDarkMode ? 'bg-red-900' : 'bg-red-100'
-                      }`}>
-                        <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse"></div>
-                        <span className={`text-sm font-medium ${
-                          isDarkMode ? 'text-red-300' : 'text-red-700'
+                      {/* LIVE Indicator - shows the DVR offset and jumps back to live when rewound */}
+                      {secondsBehindLive > LIVE_EDGE_TOLERANCE_SECONDS ? (
+                        <button
+                          type="button"
+                          onClick={jumpToLive}
+                          title="Jump to live (End)"
+                          className={`flex items-center space-x-2 px-3 py-1 rounded-full border-0 transition-colors ${
+                            isDarkMode ? 'bg-gray-800 hover:bg-gray-700' : 'bg-gray-100 hover:bg-gray-200'
+                          }`}
+                        >
+                          <div className="w-2 h-2 bg-gray-400 rounded-full"></div>
+                          <span className={`text-sm font-medium tabular-nums ${
+                            isDarkMode ? 'text-gray-300' : 'text-gray-700'
+                          }`}>
+                            {formatBehindLive(secondsBehindLive)} behind
+                          </span>
+                          <span className={`text-xs font-semibold ${
+                            isDarkMode ? 'text-red-300' : 'text-red-700'
+                          }`}>
+                            Jump to live
+                          </span>
+                        </button>
+                      ) : (
+                        <div className={`flex items-center space-x-2 px-3 py-1 rounded-full ${
+                          isDarkMode ? 'bg-red-900' : 'bg-red-100'
                         }`}>
-                          LIVE
-                        </span>
-                      </div>
+                          <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse"></div>
+                          <span className={`text-sm font-medium ${
+                            isDarkMode ? 'text-red-300' : 'text-red-700'
+                          }`}>
+                            LIVE
+                          </span>
+                        </div>
+                      )}
                     </div>
                   )}
                   </div>
@@ -1609,6 +1954,8 @@ export default function StreamPage() {
                                 </span>
                               ) : 'Follow'}
                             </button>
+
+                            {isFollowing && username && <LiveNotificationToggle username={username} />}
                             
                             <button
                               onClick={() => {
@@ -1727,11 +2074,22 @@ export default function StreamPage() {
             <ChatComponent 
               streamId={stream.id}
               streamName={username}
+              isFollowing={isFollowing}
               className="h-full"
             />
           </div>
         </div>
       </div>
+
+      {clipCapturedAt && (
+        <ClipEditor
+          streamId={stream.id}
+          username={username ?? stream.streamer}
+          capturedAt={clipCapturedAt}
+          defaultTitle={stream.title}
+          onClose={closeClipEditor}
+        />
+      )}
     </div>
   );
 }
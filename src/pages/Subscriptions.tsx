@@ -3,6 +3,7 @@ import { Link } from 'react-router-dom';
 import { useDarkMode } from '../contexts/DarkModeContext';
 import AuthContext from '../contexts/AuthContext';
 import { getUserSubscriptions } from '../services/streamApi';
+import { isApiError } from '../services/apiClient';
 
 type UserReference = {
   id: number;
@@ -34,14 +35,12 @@ export default function Subscriptions() {
         console.error('Failed to fetch subscriptions:', error);
         let errorMessage = 'Failed to load subscriptions';
         
-        if (error instanceof Error) {
-          if (error.message.includes('404') || error.message.includes('Not Found')) {
-            errorMessage = 'Subscriptions feature is not yet implemented on the server. Please check back later.';
-          } else if (error.message.includes('HTML instead of JSON')) {
-            errorMessage = 'The subscriptions API endpoint is not available. This feature may not be fully implemented yet.';
-          } else {
-            errorMessage = error.message;
-          }
+        if (isApiError(error, 'not_found')) {
+          errorMessage = 'Subscriptions feature is not yet implemented on the server. Please check back later.';
+        } else if (isApiError(error, 'invalid_response')) {
+          errorMessage = 'The subscriptions API endpoint is not available. This feature may not be fully implemented yet.';
+        } else if (error instanceof Error) {
+          errorMessage = error.message;
         }
         
         setError(errorMessage);
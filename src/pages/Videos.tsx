@@ -1,23 +1,61 @@
-import { useEffect, useState } from 'react';
-import { useParams, Link, useNavigate } from 'react-router-dom';
+import { useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { useParams, Link, useNavigate, useLocation, useSearchParams } from 'react-router-dom';
 import { useDarkMode } from '../contexts/DarkModeContext';
-import { getPublicUserProfile } from '../services/streamApi';
-
-type VideoItem = {
-  id: string;
-  title: string;
-  thumbnailUrl?: string;
-  duration: string;
-  viewCount: number;
-  createdAt: string;
-  description?: string;
-};
+import AuthContext from '../contexts/AuthContext';
+import { getPublicUserProfile, getVoDs, getClips, getClip, getVideo, getVideoMarkers, getRecentClipIds, removeRecentClips, type StreamMarker, type VideoItem, type VideoSort } from '../services/streamApi';
+import { parseTimestamp } from '../services/timestamps';
+import VodPlayer from '../components/VodPlayer';
+import ChatReplay from '../components/ChatReplay';
+import VideoChapters from '../components/VideoChapters';
+import BroadcastBitrateHistory from '../components/BroadcastBitrateHistory';
+import type videojs from 'video.js';
 
 type VideoType = 'vods' | 'clips';
 
+type VideoPlayer = ReturnType<typeof videojs>;
+
+const VIDEOS_PER_PAGE = 12;
+
+const SORT_OPTIONS: { label: string; value: VideoSort }[] = [
+  { label: 'Newest', value: 'newest' },
+  { label: 'Most viewed', value: 'most_viewed' },
+  { label: 'Longest', value: 'longest' },
+];
+
+// Thumbnail with a loading shimmer and a placeholder when missing or broken
+function VideoThumbnail({ url, title }: { url?: string; title: string }) {
+  const [status, setStatus] = useState<'loading' | 'loaded' | 'error'>(url ? 'loading' : 'error');
+
+  if (!url || status === 'error') {
+    return (
+      <div className="text-center text-white">
+        <svg className="w-12 h-12 mx-auto mb-2 opacity-50" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M14.828 14.828a4 4 0 01-5.656 0M9 10h1.01M15 10h1.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+        <p className="text-xs opacity-75">No thumbnail</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {status === 'loading' && <div className="absolute inset-0 bg-gray-600 animate-pulse" />}
+      <img
+        src={url}
+        alt={title}
+        loading="lazy"
+        onLoad={() => setStatus('loaded')}
+        onError={() => setStatus('error')}
+        className={`w-full h-full object-cover transition-opacity ${status === 'loaded' ? 'opacity-100' : 'opacity-0'}`}
+      />
+    </>
+  );
+}
+
 export default function Videos() {
   const { username } = useParams<{ username: string }>();
   const { isDarkMode } = useDarkMode();
+  const { user } = useContext(AuthContext);
   const navigate = useNavigate();
   
   const [streamerProfile, setStreamerProfile] = useState<{
@@ -27,14 +65,50 @@ export default function Videos() {
     followerCount: number;
   } | null>(null);
   const [videos, setVideos] = useState<VideoItem[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
   const [loading, setLoading] = useState(true);
+  const [videosLoading, setVideosLoading] = useState(true);
+  const [videosError, setVideosError] = useState<string>('');
+  const [reloadKey, setReloadKey] = useState(0);
+  const [page, setPage] = useState(1);
+  const [sort, setSort] = useState<VideoSort>('newest');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
   const [selectedVideo, setSelectedVideo] = useState<VideoItem | null>(null);
   const [showVideoOverlay, setShowVideoOverlay] = useState(false);
+  // Position of the overlay player, drives the chat replay
+  const [playbackTime, setPlaybackTime] = useState(0);
+  // Chapters from the streamer's markers, for the open past broadcast
+  const [chapters, setChapters] = useState<StreamMarker[]>([]);
+  const [sidebarTab, setSidebarTab] = useState<'chat' | 'chapters'>('chat');
+  const [linkCopied, setLinkCopied] = useState(false);
+  // Ingest history of the open past broadcast, for the channel owner
+  const [showBitrateHistory, setShowBitrateHistory] = useState(false);
+  const overlayPlayerRef = useRef<VideoPlayer | null>(null);
+  // Clip opened through a ?clip= share link, e.g. one just created from the stream page
+  const [linkedClip, setLinkedClip] = useState<VideoItem | null>(null);
+  // Clips made in this browser that the channel's list may not include yet
+  const [recentClips, setRecentClips] = useState<VideoItem[]>([]);
+  const [searchParams, setSearchParams] = useSearchParams();
   
   // Determine the current video type from URL path
-  const currentPath = window.location.pathname;
-  const currentType: VideoType = currentPath.includes('/clips') ? 'clips' : 'vods';
+  const location = useLocation();
+  const currentType: VideoType = location.pathname.endsWith('/clips') ? 'clips' : 'vods';
   const isVoDs = currentType === 'vods';
+  const isOwnChannel = user?.username === username;
+  // Share links: /:username/vods?video=<id>&t=<time> and /:username/clips?clip=<id>
+  const linkParam = isVoDs ? 'video' : 'clip';
+  const linkedVideoId = searchParams.get(linkParam);
+  const linkedStartTime = parseTimestamp(searchParams.get('t')) ?? 0;
+  const hasFilters = Boolean(dateFrom || dateTo);
+  const totalPages = Math.max(1, Math.ceil(totalCount / VIDEOS_PER_PAGE));
+
+  // Freshly made clips may not be listed yet, so keep them at the top of the newest clips
+  const unlistedClips = !isVoDs && page === 1 && sort === 'newest' && !hasFilters
+    ? [...(linkedClip ? [linkedClip] : []), ...recentClips].filter((clip, index, clips) =>
+      clips.findIndex(other => other.id === clip.id) === index && !videos.some(video => video.id === clip.id))
+    : [];
+  const displayedVideos = [...unlistedClips, ...videos];
 
   // Fetch streamer profile
   useEffect(() => {
@@ -65,123 +139,118 @@ export default function Videos() {
 
   // Fetch videos based on type
   useEffect(() => {
+    if (!username) return;
+    let cancelled = false;
+
     const fetchVideos = async () => {
-      if (!username) return;
-      
+      setVideosLoading(true);
+      setVideosError('');
       try {
-        // TODO: Replace with actual API calls
-        // const response = await (isVoDs ? getVoDs(username) : getClips(username));
-        
-        // Mock data for now - different data for VoDs vs Clips
-        const mockVideos: VideoItem[] = isVoDs ? [
-          {
-            id: 'vod1',
-            title: 'Epic 6-Hour Gaming Marathon - Building the Ultimate City',
-            duration: '6:23:45',
-            viewCount: 2847,
-            createdAt: '2025-01-20',
-            description: 'Join me for an incredible gaming session where we build the ultimate city from scratch!'
-          },
-          {
-            id: 'vod2',
-            title: 'Morning Coffee & Coding Session',
-            duration: '2:15:30',
-            viewCount: 1205,
-            createdAt: '2025-01-19',
-            description: 'Relaxed morning stream working on some exciting new projects'
-          },
-          {
-            id: 'vod3',
-            title: 'Community Game Night - Multiplayer Madness',
-            duration: '4:45:12',
-            viewCount: 3912,
-            createdAt: '2025-01-18',
-            description: 'Playing games with viewers and having a blast!'
-          },
-          {
-            id: 'vod4',
-            title: 'Late Night Study Stream - Learning React',
-            duration: '3:28:15',
-            viewCount: 1876,
-            createdAt: '2025-01-17',
-            description: 'Deep dive into React hooks and modern patterns'
-          }
-        ] : [
-          {
-            id: 'clip1',
-            title: 'Epic Boss Fight Victory! 🔥',
-            duration: '0:32',
-            viewCount: 15420,
-            createdAt: '2025-01-20',
-            description: 'Finally defeated the hardest boss after 50+ attempts!'
-          },
-          {
-            id: 'clip2',
-            title: 'Hilarious Chat Reaction 😂',
-            duration: '0:28',
-            viewCount: 8934,
-            createdAt: '2025-01-20',
-            description: 'Chat\'s reaction to the most unexpected plot twist'
-          },
-          {
-            id: 'clip3',
-            title: 'Perfect Speedrun Segment ⚡',
-            duration: '0:45',
-            viewCount: 12567,
-            createdAt: '2025-01-19',
-            description: 'Nailed this tricky section with a new personal best!'
-          },
-          {
-            id: 'clip4',
-            title: 'Funny Glitch Discovery 🐛',
-            duration: '0:24',
-            viewCount: 6789,
-            createdAt: '2025-01-19',
-            description: 'Found the funniest glitch in the game!'
-          },
-          {
-            id: 'clip5',
-            title: 'Insane Clutch Play 🎯',
-            duration: '0:38',
-            viewCount: 18234,
-            createdAt: '2025-01-18',
-            description: '1v5 clutch that saved the entire match!'
-          },
-          {
-            id: 'clip6',
-            title: 'Viewer Question Goes Wrong',
-            duration: '0:15',
-            viewCount: 5432,
-            createdAt: '2025-01-18',
-            description: 'When answering chat questions leads to chaos'
-          },
-          {
-            id: 'clip7',
-            title: 'Music Sync Moment 🎵',
-            duration: '0:29',
-            viewCount: 9876,
-            createdAt: '2025-01-17',
-            description: 'Perfect timing with the background music!'
-          },
-          {
-            id: 'clip8',
-            title: 'Compilation of Fails 💀',
-            duration: '0:52',
-            viewCount: 7654,
-            createdAt: '2025-01-17',
-            description: 'All the best fails from this week'
-          }
-        ];
-        
-        setVideos(mockVideos);
+        const options = { page, limit: VIDEOS_PER_PAGE, sort, from: dateFrom, to: dateTo };
+        const response = isVoDs
+          ? await getVoDs(username, options).then(data => ({ items: data.videos, totalCount: data.totalCount }))
+          : await getClips(username, options).then(data => ({ items: data.clips, totalCount: data.totalCount }));
+        if (cancelled) return;
+        setVideos(response.items);
+        setTotalCount(response.totalCount);
+        if (!isVoDs) removeRecentClips(username, response.items.map(video => video.id));
       } catch (error) {
         console.error('Failed to fetch videos:', error);
+        if (cancelled) return;
         setVideos([]);
+        setTotalCount(0);
+        setVideosError(error instanceof Error ? error.message : `Failed to load ${isVoDs ? 'past broadcasts' : 'clips'}`);
+      } finally {
+        if (!cancelled) setVideosLoading(false);
       }
     };
 
     fetchVideos();
-  }, [username, currentType]);
+    return () => {
+      cancelled = true;
+    };
+  }, [username, isVoDs, page, sort, dateFrom, dateTo, reloadKey]);
+
+  // Look up the clips made in this browser; ones that failed processing are forgotten
+  useEffect(() => {
+    setRecentClips([]);
+    if (!username || isVoDs) return;
+    const clipIds = getRecentClipIds(username);
+    if (clipIds.length === 0) return;
+    let cancelled = false;
+
+    Promise.all(clipIds.map(clipId => getClip(clipId).catch(error => {
+      console.error('Failed to fetch recent clip:', error);
+      return null;
+    })))
+      .then(clips => {
+        const failedIds = clips.flatMap(clip => (clip?.status === 'failed' ? [clip.id] : []));
+        if (failedIds.length > 0) removeRecentClips(username, failedIds);
+        if (!cancelled) setRecentClips(clips.flatMap(clip => (clip && clip.status !== 'failed' ? [clip] : [])));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [username, isVoDs]);
+
+  // Open the video from a share link
+  useEffect(() => {
+    if (!linkedVideoId) return;
+    let cancelled = false;
+
+    (isVoDs ? getVideo(linkedVideoId) : getClip(linkedVideoId))
+      .then(video => {
+        if (cancelled) return;
+        if (!isVoDs) setLinkedClip(video);
+        setSelectedVideo(video);
+        setPlaybackTime(0);
+        setShowVideoOverlay(true);
+      })
+      .catch(error => {
+        console.error('Failed to fetch linked video:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isVoDs, linkedVideoId]);
+
+  // Past broadcasts get chapters from the markers placed while live
+  const selectedVideoId = selectedVideo?.id;
+  useEffect(() => {
+    setChapters([]);
+    setSidebarTab('chat');
+    setShowBitrateHistory(false);
+    if (!isVoDs || !selectedVideoId) return;
+    let cancelled = false;
+
+    getVideoMarkers(selectedVideoId)
+      .then(markers => {
+        if (!cancelled) setChapters([...markers].sort((a, b) => a.offsetSeconds - b.offsetSeconds));
+      })
+      .catch(error => {
+        console.error('Failed to fetch chapters:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isVoDs, selectedVideoId]);
+
+  const chapterStarts = useMemo(() => chapters.map(chapter => chapter.offsetSeconds), [chapters]);
+
+  // Changing what's listed starts again from the first page
+  const updateSort = (newSort: VideoSort) => {
+    setSort(newSort);
+    setPage(1);
+  };
+
+  const updateDateRange = (from: string, to: string) => {
+    setDateFrom(from);
+    setDateTo(to);
+    setPage(1);
+  };
 
   const formatViewCount = (count: number) => {
     if (count >= 1000000) {
@@ -203,17 +272,53 @@ export default function Videos() {
   };
 
   const handleTypeChange = (newType: VideoType) => {
+    setPage(1);
     navigate(`/${username}/${newType}`);
   };
 
   const openVideoOverlay = (video: VideoItem) => {
     setSelectedVideo(video);
+    setPlaybackTime(0);
     setShowVideoOverlay(true);
   };
 
   const closeVideoOverlay = () => {
     setShowVideoOverlay(false);
     setSelectedVideo(null);
+    overlayPlayerRef.current = null;
+    if (searchParams.has(linkParam) || searchParams.has('t')) {
+      setSearchParams(params => {
+        params.delete(linkParam);
+        params.delete('t');
+        return params;
+      }, { replace: true });
+    }
+  };
+
+  const getVideoLink = (video: VideoItem, seconds?: number) => {
+    const params = new URLSearchParams({ [linkParam]: video.id });
+    if (seconds) params.set('t', Math.floor(seconds).toString());
+    return `${window.location.origin}/${username}/${currentType}?${params.toString()}`;
+  };
+
+  const seekTo = (seconds: number) => {
+    const player = overlayPlayerRef.current;
+    if (!player) return;
+    player.currentTime(seconds);
+    if (player.paused()) {
+      player.play()?.catch(() => {});
+    }
+  };
+
+  const copyVideoLink = async () => {
+    if (!selectedVideo) return;
+    try {
+      await navigator.clipboard.writeText(getVideoLink(selectedVideo, playbackTime));
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy video link:', error);
+    }
   };
 
   // Handle keyboard events for overlay
@@ -235,6 +340,18 @@ export default function Videos() {
     };
   }, [showVideoOverlay]);
 
+  const filterInputClassName = `px-3 py-2 rounded-md border text-sm ${
+    isDarkMode
+      ? 'bg-gray-800 border-gray-600 text-white'
+      : 'bg-white border-gray-300 text-gray-900'
+  } focus:outline-none focus:ring-2 focus:ring-blue-500`;
+
+  const paginationButtonClassName = `px-4 py-2 rounded-md text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+    isDarkMode
+      ? 'bg-gray-800 text-gray-300 hover:bg-gray-700 hover:text-white'
+      : 'bg-gray-100 text-gray-700 hover:bg-gray-200 hover:text-gray-900'
+  }`;
+
   if (loading) {
     return (
       <div className={`min-h-screen flex items-center justify-center ${
@@ -306,7 +423,7 @@ export default function Videos() {
                 <p className={`text-sm ${
                   isDarkMode ? 'text-gray-400' : 'text-gray-600'
                 }`}>
-                  {videos.length} {isVoDs ? 'broadcasts' : 'clips'} available
+                  {totalCount} {isVoDs ? 'broadcasts' : 'clips'} available
                 </p>
               </div>
             </div>
@@ -349,16 +466,97 @@ export default function Videos() {
         <div className={`rounded-xl p-6 shadow-lg ${
           isDarkMode ? 'bg-gray-900' : 'bg-white'
         }`}>
-          {videos.length === 0 ? (
+          {/* Sorting and date range */}
+          <div className="flex flex-wrap items-end gap-4 mb-6">
+            <label className="flex flex-col text-xs font-medium">
+              <span className={`mb-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>Sort by</span>
+              <select
+                value={sort}
+                onChange={(e) => updateSort(e.target.value as VideoSort)}
+                className={filterInputClassName}
+              >
+                {SORT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col text-xs font-medium">
+              <span className={`mb-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>From</span>
+              <input
+                type="date"
+                value={dateFrom}
+                max={dateTo || undefined}
+                onChange={(e) => updateDateRange(e.target.value, dateTo)}
+                className={filterInputClassName}
+              />
+            </label>
+            <label className="flex flex-col text-xs font-medium">
+              <span className={`mb-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>To</span>
+              <input
+                type="date"
+                value={dateTo}
+                min={dateFrom || undefined}
+                onChange={(e) => updateDateRange(dateFrom, e.target.value)}
+                className={filterInputClassName}
+              />
+            </label>
+            {hasFilters && (
+              <button
+                onClick={() => updateDateRange('', '')}
+                className={`px-3 py-2 rounded-md text-sm transition-colors ${
+                  isDarkMode
+                    ? 'text-gray-300 hover:text-white hover:bg-gray-800'
+                    : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+                }`}
+              >
+                Clear dates
+              </button>
+            )}
+          </div>
+
+          {videosLoading ? (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+              {Array.from({ length: 8 }, (_, index) => (
+                <div key={index} className={`rounded-lg overflow-hidden animate-pulse ${
+                  isDarkMode ? 'bg-gray-800' : 'bg-gray-100'
+                }`}>
+                  <div className={`aspect-video ${isDarkMode ? 'bg-gray-700' : 'bg-gray-200'}`} />
+                  <div className="p-4 space-y-2">
+                    <div className={`h-4 rounded w-3/4 ${isDarkMode ? 'bg-gray-700' : 'bg-gray-200'}`} />
+                    <div className={`h-3 rounded w-1/2 ${isDarkMode ? 'bg-gray-700' : 'bg-gray-200'}`} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : videosError ? (
+            <div className="text-center py-16">
+              <p className={`text-xl ${isDarkMode ? 'text-red-400' : 'text-red-600'}`}>
+                Couldn't load {isVoDs ? 'past broadcasts' : 'clips'}
+              </p>
+              <p className={`text-sm mt-2 ${isDarkMode ? 'text-gray-500' : 'text-gray-500'}`}>
+                {videosError}
+              </p>
+              <button
+                onClick={() => setReloadKey(key => key + 1)}
+                className="mt-4 px-4 py-2 rounded-md text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+              >
+                Try again
+              </button>
+            </div>
+          ) : displayedVideos.length === 0 ? (
             <div className="text-center py-16">
               <svg className="w-16 h-16 mx-auto mb-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
               </svg>
               <p className={`text-xl ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
-                No {isVoDs ? 'past broadcasts' : 'clips'} available
+                {hasFilters
+                  ? `No ${isVoDs ? 'past broadcasts' : 'clips'} in this date range`
+                  : `No ${isVoDs ? 'past broadcasts' : 'clips'} available`}
               </p>
               <p className={`text-sm mt-2 ${isDarkMode ? 'text-gray-500' : 'text-gray-500'}`}>
-                {isVoDs 
+                {hasFilters
+                  ? 'Try a wider date range or clear the dates'
+                  : isVoDs 
                   ? 'Past broadcasts will appear here once they are processed' 
                   : 'Clips will appear here when viewers create them during streams'
                 }
@@ -366,7 +564,7 @@ export default function Videos() {
             </div>
           ) : (
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-              {videos.map((video) => (
+              {displayedVideos.map((video) => (
                 <div
                   key={video.id}
                   className={`cursor-pointer group rounded-lg overflow-hidden transition-transform hover:scale-105 ${
@@ -376,20 +574,7 @@ export default function Videos() {
                 >
                   {/* Thumbnail */}
                   <div className="aspect-video bg-gray-700 relative flex items-center justify-center">
-                    {video.thumbnailUrl ? (
-                      <img 
-                        src={video.thumbnailUrl} 
-                        alt={video.title}
-                        className="w-full h-full object-cover"
-                      />
-                    ) : (
-                      <div className="text-center text-white">
-                        <svg className="w-12 h-12 mx-auto mb-2 opacity-50" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M14.828 14.828a4 4 0 01-5.656 0M9 10h1.01M15 10h1.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                        </svg>
-                        <p className="text-xs opacity-75">No thumbnail</p>
-                      </div>
-                    )}
+                    <VideoThumbnail url={video.thumbnailUrl} title={video.title} />
                     
                     {/* Duration Badge */}
                     <div className="absolute bottom-2 right-2 bg-black bg-opacity-75 text-white text-xs px-2 py-1 rounded">
@@ -424,6 +609,29 @@ export default function Videos() {
               ))}
             </div>
           )}
+
+          {/* Pagination */}
+          {!videosLoading && !videosError && totalPages > 1 && (
+            <div className="flex items-center justify-center gap-4 mt-8">
+              <button
+                onClick={() => setPage(prev => Math.max(1, prev - 1))}
+                disabled={page <= 1}
+                className={paginationButtonClassName}
+              >
+                Previous
+              </button>
+              <span className={`text-sm ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                Page {page} of {totalPages}
+              </span>
+              <button
+                onClick={() => setPage(prev => Math.min(totalPages, prev + 1))}
+                disabled={page >= totalPages}
+                className={paginationButtonClassName}
+              >
+                Next
+              </button>
+            </div>
+          )}
         </div>
 
         {/* Video Player Overlay */}
@@ -433,7 +641,9 @@ export default function Videos() {
             onClick={closeVideoOverlay}
           >
             <div 
-              className={`relative w-full max-w-5xl mx-4 rounded-xl overflow-hidden shadow-2xl ${
+              className={`relative w-full ${isVoDs && selectedVideo.playbackUrl ? 'max-w-7xl' : 'max-w-5xl'} mx-4 rounded-xl shadow-2xl ${
+                showBitrateHistory ? 'max-h-[90vh] overflow-y-auto' : 'overflow-hidden'
+              } ${
                 isDarkMode ? 'bg-gray-900' : 'bg-white'
               }`}
               onClick={(e) => e.stopPropagation()}
@@ -458,6 +668,34 @@ export default function Videos() {
                     <span>{formatViewCount(selectedVideo.viewCount)} views</span>
                   </div>
                 </div>
+                {isVoDs && isOwnChannel && (
+                  <button
+                    type="button"
+                    onClick={() => setShowBitrateHistory(!showBitrateHistory)}
+                    title="Ingest bitrate for this broadcast"
+                    className={`mr-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      showBitrateHistory
+                        ? 'bg-blue-600 text-white'
+                        : isDarkMode
+                          ? 'text-gray-300 hover:text-white hover:bg-gray-800'
+                          : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+                    }`}
+                  >
+                    Bitrate history
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={copyVideoLink}
+                  title="Copy a link to the current time"
+                  className={`mr-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    isDarkMode
+                      ? 'text-gray-300 hover:text-white hover:bg-gray-800'
+                      : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+                  }`}
+                >
+                  {linkCopied ? 'Copied!' : 'Share'}
+                </button>
                 <button
                   onClick={closeVideoOverlay}
                   className={`p-2 rounded-lg transition-colors ${
@@ -472,22 +710,89 @@ export default function Videos() {
                 </button>
               </div>
 
-              {/* Video Player Placeholder */}
-              <div className="aspect-video bg-black flex items-center justify-center">
-                <div className="text-center text-white">
-                  <div className="mb-4">
-                    <svg className="w-16 h-16 mx-auto mb-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M14.828 14.828a4 4 0 01-5.656 0M9 10h1.01M15 10h1.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                    </svg>
+              {/* Video Player with chat replay for past broadcasts */}
+              {selectedVideo.playbackUrl ? (
+                <div className="flex flex-col lg:flex-row">
+                  <div className="flex-1 min-w-0 bg-black">
+                    <VodPlayer
+                      src={selectedVideo.playbackUrl}
+                      startTime={selectedVideo.id === linkedVideoId ? linkedStartTime : 0}
+                      chapterStarts={chapterStarts}
+                      onTimeUpdate={setPlaybackTime}
+                      onReady={(player) => {
+                        overlayPlayerRef.current = player;
+                      }}
+                    />
                   </div>
-                  <h3 className="text-xl font-semibold mb-2">
-                    {isVoDs ? 'VoD' : 'Clip'} Player Coming Soon
-                  </h3>
-                  <p className="text-gray-400">
-                    Video playback will be connected to the backend storage server
-                  </p>
+                  {isVoDs && (
+                    <div className={`flex flex-col h-96 lg:h-auto lg:w-80 border-t lg:border-t-0 lg:border-l ${
+                      isDarkMode ? 'border-gray-700' : 'border-gray-200'
+                    }`}>
+                      {chapters.length > 0 && (
+                        <div className={`flex border-b text-sm font-medium ${
+                          isDarkMode ? 'border-gray-700' : 'border-gray-200'
+                        }`}>
+                          {(['chat', 'chapters'] as const).map(tab => (
+                            <button
+                              key={tab}
+                              type="button"
+                              onClick={() => setSidebarTab(tab)}
+                              className={`flex-1 py-2 border-b-2 transition-colors ${
+                                sidebarTab === tab
+                                  ? 'border-blue-500 text-blue-500'
+                                  : `border-transparent ${isDarkMode ? 'text-gray-400 hover:text-white' : 'text-gray-600 hover:text-gray-900'}`
+                              }`}
+                            >
+                              {tab === 'chat' ? 'Chat' : `Chapters (${chapters.length})`}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                      {sidebarTab === 'chapters' && chapters.length > 0 ? (
+                        <VideoChapters
+                          chapters={chapters}
+                          currentTime={playbackTime}
+                          onSeek={seekTo}
+                          getLink={(seconds) => getVideoLink(selectedVideo, seconds)}
+                          className="flex-1 min-h-0"
+                        />
+                      ) : (
+                        <ChatReplay
+                          videoId={selectedVideo.id}
+                          streamName={username}
+                          currentTime={playbackTime}
+                          className="flex-1 min-h-0"
+                        />
+                      )}
+                    </div>
+                  )}
                 </div>
-              </div>
+              ) : (
+                <div className="aspect-video bg-black flex items-center justify-center">
+                  <div className="text-center text-white">
+                    <div className="mb-4">
+                      <svg className="w-16 h-16 mx-auto mb-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M14.828 14.828a4 4 0 01-5.656 0M9 10h1.01M15 10h1.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                      </svg>
+                    </div>
+                    <h3 className="text-xl font-semibold mb-2">
+                      This {isVoDs ? 'broadcast' : 'clip'} is still processing
+                    </h3>
+                    <p className="text-gray-400">
+                      Playback will be available once processing finishes
+                    </p>
+                  </div>
+                </div>
+              )}
+
+              {/* Ingest bitrate history */}
+              {showBitrateHistory && isVoDs && isOwnChannel && (
+                <div className={`p-4 border-t ${
+                  isDarkMode ? 'border-gray-700' : 'border-gray-200'
+                }`}>
+                  <BroadcastBitrateHistory source={{ videoId: selectedVideo.id }} title={selectedVideo.title} />
+                </div>
+              )}
 
               {/* Description */}
               {selectedVideo.description && (
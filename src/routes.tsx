@@ -11,11 +11,13 @@ import Navbar from './components/Navbar';
 import Home from './pages/Home';
 import Profile from './pages/Account/Profile';
 import Security from './pages/Account/Security';
+import Notifications from './pages/Account/Notifications';
 import StreamPage from './pages/StreamPage';
 import ChannelPage from './pages/ChannelPage';
 import Schedule from './pages/Schedule';
 import Videos from './pages/Videos';
 import Subscriptions from './pages/Subscriptions';
+import PopoutChat from './pages/PopoutChat';
 
 import PrivateRoute from './components/PrivateRoute';
 import TokenDebugger from './components/TokenDebugger';
@@ -45,11 +47,12 @@ export default function AppRoutes() {
 
   return (
     <>
-      {/* Show Navbar on any route except some auth pages and theater mode */}
+      {/* Show Navbar on any route except some auth pages, pop-out chat and theater mode */}
       <Routes>
         <Route path="/signup" element={null} />
         <Route path="/reset-password" element={null} />
         <Route path="/2fa" element={null} />
+        <Route path="/:username/chat" element={null} />
         <Route path="/*" element={!isTheaterMode ? <Navbar /> : null} />
       </Routes>
 
@@ -66,6 +69,7 @@ export default function AppRoutes() {
         <Route element={<PrivateRoute />}>
           <Route path="/account/profile" element={<Profile />} />
           <Route path="/account/security" element={<Security />} />
+          <Route path="/account/notifications" element={<Notifications />} />
           <Route path="/subscriptions" element={<Subscriptions />} />
           <Route path="/u/:username" element={<ChannelPage />} />
         </Route>
@@ -80,6 +84,9 @@ export default function AppRoutes() {
         <Route path="/:username/vods" element={<Videos />} />
         <Route path="/:username/clips" element={<Videos />} />
 
+        {/* Pop-out chat and OBS chat overlay (public, no Navbar) */}
+        <Route path="/:username/chat" element={<PopoutChat />} />
+
         {/* Catch-all */}
         <Route path="*" element={<Navigate to="/home" replace />} />
       </Routes>
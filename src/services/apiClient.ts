@@ -0,0 +1,262 @@
+// Shared HTTP client for the REST API. Every service function goes through
+// apiRequest() so headers, body parsing and error extraction live in one place.
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'https://lb-01.distorted.live/api';
+
+export type ApiErrorCode =
+  | 'network_error'
+  | 'timeout'
+  | 'bad_request'
+  | 'unauthorized'
+  | 'session_expired'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'rate_limited'
+  | 'server_error'
+  | 'invalid_response'
+  | 'unknown';
+
+interface ApiErrorInit {
+  status: number;
+  code: ApiErrorCode;
+  message: string;
+  retryable?: boolean;
+  requestId?: string;
+  details?: unknown;
+}
+
+// Structured error thrown by apiRequest(). status is 0 when no response was received.
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: ApiErrorCode;
+  readonly retryable: boolean;
+  readonly requestId?: string;
+  readonly details?: unknown;
+
+  constructor(init: ApiErrorInit) {
+    super(init.message);
+    this.name = 'ApiError';
+    this.status = init.status;
+    this.code = init.code;
+    this.retryable = init.retryable ?? false;
+    this.requestId = init.requestId;
+    this.details = init.details;
+  }
+}
+
+export const isApiError = (error: unknown, code?: ApiErrorCode): error is ApiError =>
+  error instanceof ApiError && (code === undefined || error.code === code);
+
+// Installed by AuthProvider so the client can renew an expired access token
+export interface AuthSessionHandler {
+  // Resolves to a fresh access token, or null when the session cannot be renewed
+  refreshSession: () => Promise<string | null>;
+  onSessionExpired: () => void;
+}
+
+let authSessionHandler: AuthSessionHandler | null = null;
+
+export const setAuthSessionHandler = (handler: AuthSessionHandler | null) => {
+  authSessionHandler = handler;
+};
+
+type QueryValue = string | number | boolean | undefined | null;
+
+export interface ApiRequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  // Bearer token; omitted for public endpoints
+  token?: string | null;
+  // Plain objects are sent as JSON; FormData and URLSearchParams are sent as-is
+  body?: unknown;
+  query?: Record<string, QueryValue>;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  // Used as the error message when the server does not provide one
+  errorMessage?: string;
+  // For endpoints that check a password or code: their 401 means wrong
+  // credentials, not an expired session, so never refresh or log out
+  skipSessionRefresh?: boolean;
+}
+
+const buildUrl = (path: string, query?: Record<string, QueryValue>) => {
+  const url = /^https?:\/\//.test(path) ? path : `${API_BASE_URL}${path}`;
+  if (!query) return url;
+
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) {
+      params.append(key, String(value));
+    }
+  });
+  const search = params.toString();
+  return search ? `${url}${url.includes('?') ? '&' : '?'}${search}` : url;
+};
+
+// Absolute URL of an API path, for links the browser or other apps open directly
+export const getApiUrl = (path: string, query?: Record<string, QueryValue>) => buildUrl(path, query);
+
+const codeForStatus = (status: number, body: Record<string, unknown> | null, authenticated: boolean): ApiErrorCode => {
+  if (status === 401) return authenticated ? 'session_expired' : 'unauthorized';
+  // The backend answers 403 { error: 'Invalid token' } for expired or revoked JWTs
+  if (status === 403) return authenticated && body?.error === 'Invalid token' ? 'session_expired' : 'forbidden';
+  if (status === 404) return 'not_found';
+  if (status === 408) return 'timeout';
+  if (status === 409) return 'conflict';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'server_error';
+  if (status >= 400) return 'bad_request';
+  return 'unknown';
+};
+
+const isRetryable = (code: ApiErrorCode) =>
+  code === 'network_error' || code === 'timeout' || code === 'rate_limited' || code === 'server_error';
+
+const defaultMessageFor = (code: ApiErrorCode, status: number, statusText: string) => {
+  switch (code) {
+    case 'session_expired':
+      return 'Your session has expired. Please log in again.';
+    case 'rate_limited':
+      return 'Too many requests. Please wait a moment and try again.';
+    case 'not_found':
+      return `Not found (${status})`;
+    default:
+      return `HTTP ${status}: ${statusText}`;
+  }
+};
+
+// Read the body once and decode it as JSON when possible
+const readBody = async (response: Response): Promise<{ json: unknown; text: string }> => {
+  const text = await response.text().catch(() => '');
+  if (!text) return { json: undefined, text };
+  try {
+    return { json: JSON.parse(text), text };
+  } catch {
+    return { json: undefined, text };
+  }
+};
+
+const isHtml = (text: string) => text.includes('<!DOCTYPE') || text.includes('<html>');
+
+const sendRequest = async <T>(path: string, options: ApiRequestOptions): Promise<T> => {
+  const { method = 'GET', token, body, query, signal, errorMessage, skipSessionRefresh } = options;
+
+  const headers: Record<string, string> = { ...options.headers };
+  let requestBody: BodyInit | undefined;
+
+  if (body instanceof FormData || body instanceof URLSearchParams) {
+    requestBody = body;
+  } else if (body !== undefined) {
+    headers['Content-Type'] = 'application/json';
+    requestBody = JSON.stringify(body);
+  } else if (!headers['Content-Type']) {
+    headers['Content-Type'] = 'application/json';
+  }
+
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(buildUrl(path, query), { method, headers, body: requestBody, signal });
+  } catch (error) {
+    const aborted = error instanceof DOMException && error.name === 'AbortError';
+    throw new ApiError({
+      status: 0,
+      code: aborted ? 'timeout' : 'network_error',
+      message: aborted ? 'The request was cancelled' : 'Unable to reach the server. Check your connection and try again.',
+      retryable: !aborted,
+      details: error,
+    });
+  }
+
+  const { json, text } = await readBody(response);
+  const payload = json && typeof json === 'object' ? (json as Record<string, unknown>) : null;
+  const requestId = response.headers.get('x-request-id')
+    ?? (typeof payload?.requestId === 'string' ? payload.requestId : undefined);
+
+  if (!response.ok) {
+    const code = codeForStatus(response.status, payload, Boolean(token) && !skipSessionRefresh);
+    let message: string | undefined;
+    if (code === 'session_expired') {
+      message = defaultMessageFor(code, response.status, response.statusText);
+    } else if (typeof payload?.message === 'string' && payload.message) {
+      message = payload.message;
+    } else if (typeof payload?.error === 'string' && payload.error) {
+      message = payload.error;
+    } else if (text && isHtml(text)) {
+      message = `Server returned HTML instead of JSON. Status: ${response.status}`;
+    }
+
+    throw new ApiError({
+      status: response.status,
+      code,
+      message: message ?? errorMessage ?? defaultMessageFor(code, response.status, response.statusText),
+      retryable: isRetryable(code),
+      requestId,
+      details: payload ?? text,
+    });
+  }
+
+  if (text && json === undefined) {
+    throw new ApiError({
+      status: response.status,
+      code: 'invalid_response',
+      message: 'Server returned invalid JSON response',
+      requestId,
+      details: text,
+    });
+  }
+
+  return json as T;
+};
+
+const expireSession = () => {
+  if (authSessionHandler) {
+    authSessionHandler.onSessionExpired();
+    return;
+  }
+  // Without a provider to log out through, drop the rejected token so a reload lands on the login page
+  localStorage.removeItem('authToken');
+  sessionStorage.removeItem('authToken');
+};
+
+// Authenticated requests rejected with an expired session are retried once
+// after the session is refreshed; the user is only logged out if that fails.
+export const apiRequest = async <T>(path: string, options: ApiRequestOptions = {}): Promise<T> => {
+  try {
+    return await sendRequest<T>(path, options);
+  } catch (error) {
+    if (!isApiError(error, 'session_expired')) {
+      throw error;
+    }
+
+    const freshToken = authSessionHandler ? await authSessionHandler.refreshSession() : null;
+    if (!freshToken) {
+      expireSession();
+      throw error;
+    }
+
+    try {
+      return await sendRequest<T>(path, { ...options, token: freshToken });
+    } catch (retryError) {
+      if (isApiError(retryError, 'session_expired')) {
+        expireSession();
+      }
+      throw retryError;
+    }
+  }
+};
+
+// Several endpoints are not deployed on every backend yet; treat their 404 as an empty result
+export const fallbackOnNotFound = async <T>(request: Promise<T>, fallback: T): Promise<T> => {
+  try {
+    return await request;
+  } catch (error) {
+    if (isApiError(error, 'not_found')) {
+      return fallback;
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,77 @@
+import { apiRequest } from './apiClient';
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  email: string;
+  displayName?: string;
+  bio?: string;
+  profilePicture?: string;
+}
+
+// Issued on login, 2FA verification and refresh. refreshToken is omitted by
+// backends that do not rotate it on refresh.
+export interface AuthSessionResponse {
+  token: string;
+  refreshToken?: string;
+  tokenType?: string;
+  user: AuthUser;
+}
+
+export interface LoginResponse extends Partial<AuthSessionResponse> {
+  requires2FA?: boolean;
+  userId?: string;
+}
+
+export interface TwoFactorLoginResponse extends Partial<AuthSessionResponse> {
+  success: boolean;
+}
+
+export interface RefreshResponse {
+  token: string;
+  refreshToken?: string;
+}
+
+export const login = async (email: string, password: string, requestLongLived: boolean): Promise<LoginResponse> => {
+  return apiRequest<LoginResponse>('/auth/login', {
+    method: 'POST',
+    body: { email, password, requestLongLived },
+    errorMessage: 'Login failed',
+  });
+};
+
+export const signup = async (username: string, email: string, password: string, enable2FA?: boolean): Promise<unknown> => {
+  return apiRequest<unknown>('/auth/signup', {
+    method: 'POST',
+    body: { username, email, password, enable2FA },
+    errorMessage: 'Signup failed',
+  });
+};
+
+// Complete a 2FA login; 2FA users always get a long-lived token
+export const completeTwoFactorLogin = async (userId: string, code: string): Promise<TwoFactorLoginResponse> => {
+  return apiRequest<TwoFactorLoginResponse>('/auth/2fa/verify', {
+    method: 'POST',
+    body: { userId, code, requestLongLived: true },
+    errorMessage: '2FA verification failed',
+  });
+};
+
+// Exchange a refresh token for a new access token
+export const refreshAccessToken = async (refreshToken: string): Promise<RefreshResponse> => {
+  return apiRequest<RefreshResponse>('/auth/refresh', {
+    method: 'POST',
+    body: { refreshToken },
+    errorMessage: 'Failed to refresh session',
+  });
+};
+
+// Read the exp claim (seconds since epoch) from a JWT without verifying it
+export const getTokenExpiry = (token: string): number | null => {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1]));
+    return typeof payload.exp === 'number' ? payload.exp : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,112 @@
+import { apiRequest, fallbackOnNotFound } from './apiClient';
+
+// Chat restrictions a streamer can enable for their channel. The chat server
+// enforces them and broadcasts chat_modes_updated to the stream room on change.
+export interface ChatModes {
+  // Minimum seconds between messages from the same chatter; 0 disables slow mode
+  slowModeSeconds: number;
+  followersOnly: boolean;
+  // Minimum follow age in minutes when followersOnly is on; 0 means any follower
+  followersOnlyMinutes: number;
+  subscribersOnly: boolean;
+  emoteOnly: boolean;
+}
+
+export const DEFAULT_CHAT_MODES: ChatModes = {
+  slowModeSeconds: 0,
+  followersOnly: false,
+  followersOnlyMinutes: 0,
+  subscribersOnly: false,
+  emoteOnly: false,
+};
+
+interface ChatModesResponse {
+  modes: Partial<ChatModes>;
+}
+
+export const getChatModes = async (username: string): Promise<ChatModes> => {
+  const data = await fallbackOnNotFound(
+    apiRequest<ChatModesResponse>(`/chat/${encodeURIComponent(username)}/modes`, {
+      errorMessage: 'Failed to load chat settings',
+    }),
+    { modes: {} },
+  );
+  return { ...DEFAULT_CHAT_MODES, ...data.modes };
+};
+
+export const updateChatModes = async (token: string, modes: ChatModes): Promise<ChatModes> => {
+  const data = await apiRequest<ChatModesResponse>('/chat/modes', {
+    method: 'PUT',
+    token,
+    body: modes,
+    errorMessage: 'Failed to update chat settings',
+  });
+  return { ...DEFAULT_CHAT_MODES, ...data.modes };
+};
+
+// Display options for the chat overlay used as an OBS browser source.
+// They live in the /:username/chat URL so streamers can paste it straight into OBS.
+export interface ChatOverlayOptions {
+  fontSize: number; // px
+  // Seconds a message stays visible before fading out; 0 keeps messages on screen
+  fadeAfterSeconds: number;
+  hideInput: boolean;
+}
+
+export const DEFAULT_CHAT_OVERLAY_OPTIONS: ChatOverlayOptions = {
+  fontSize: 16,
+  fadeAfterSeconds: 30,
+  hideInput: true,
+};
+
+const readNumberParam = (params: URLSearchParams, name: string, fallback: number, min: number, max: number): number => {
+  const value = Number(params.get(name));
+  return params.has(name) && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+};
+
+export const parseChatOverlayOptions = (params: URLSearchParams): ChatOverlayOptions => ({
+  fontSize: readNumberParam(params, 'fontSize', DEFAULT_CHAT_OVERLAY_OPTIONS.fontSize, 10, 48),
+  fadeAfterSeconds: readNumberParam(params, 'fade', DEFAULT_CHAT_OVERLAY_OPTIONS.fadeAfterSeconds, 0, 600),
+  hideInput: params.has('hideInput') ? params.get('hideInput') !== '0' : DEFAULT_CHAT_OVERLAY_OPTIONS.hideInput,
+});
+
+export const buildChatOverlayUrl = (username: string, options: ChatOverlayOptions): string => {
+  const params = new URLSearchParams({
+    overlay: '1',
+    fontSize: String(options.fontSize),
+    fade: String(options.fadeAfterSeconds),
+    hideInput: options.hideInput ? '1' : '0',
+  });
+  return `${window.location.origin}/${encodeURIComponent(username)}/chat?${params}`;
+};
+
+// Chat from a past broadcast, stored with each message's offset into the stream
+export interface ChatReplayMessage {
+  id: string;
+  username: string;
+  message: string;
+  timestamp: string;
+  // Seconds since the start of the broadcast
+  offsetSeconds: number;
+  isStreamer?: boolean;
+  isModerator?: boolean;
+  isSystem?: boolean;
+  isDeleted?: boolean;
+  replyTo?: { id: string; username: string; message: string };
+}
+
+interface ChatReplayResponse {
+  messages: ChatReplayMessage[];
+}
+
+// Messages with startSeconds <= offset < endSeconds, oldest first
+export const getChatReplay = async (videoId: string, startSeconds: number, endSeconds: number): Promise<ChatReplayMessage[]> => {
+  const data = await fallbackOnNotFound(
+    apiRequest<ChatReplayResponse>(`/videos/${encodeURIComponent(videoId)}/chat`, {
+      query: { start: startSeconds, end: endSeconds },
+      errorMessage: 'Failed to load chat replay',
+    }),
+    { messages: [] },
+  );
+  return data.messages;
+};
@@ -0,0 +1,116 @@
+import { apiRequest, fallbackOnNotFound } from './apiClient';
+
+export interface Emote {
+  id: string;
+  // Case-sensitive code typed in chat, e.g. "distortedHype"
+  code: string;
+  url: string;
+  // Channel username that owns the emote; omitted for global emotes
+  channel?: string;
+  animated?: boolean;
+}
+
+interface EmotesResponse {
+  emotes: Emote[];
+}
+
+interface UploadEmoteResponse {
+  success: boolean;
+  emote: Emote;
+}
+
+export const EMOTE_CODE_PATTERN = /^[A-Za-z0-9_]{2,25}$/;
+export const MAX_EMOTE_FILE_SIZE = 1024 * 1024; // 1MB
+export const EMOTE_FILE_TYPES = ['image/png', 'image/gif', 'image/webp'];
+
+export const getGlobalEmotes = async (): Promise<Emote[]> => {
+  const data = await fallbackOnNotFound(
+    apiRequest<EmotesResponse>('/emotes/global', { errorMessage: 'Failed to load emotes' }),
+    { emotes: [] },
+  );
+  return data.emotes;
+};
+
+export const getChannelEmotes = async (username: string): Promise<Emote[]> => {
+  const data = await fallbackOnNotFound(
+    apiRequest<EmotesResponse>(`/emotes/channel/${encodeURIComponent(username)}`, { errorMessage: 'Failed to load channel emotes' }),
+    { emotes: [] },
+  );
+  return data.emotes;
+};
+
+export const uploadEmote = async (token: string, code: string, file: File): Promise<Emote> => {
+  const formData = new FormData();
+  formData.append('code', code);
+  formData.append('image', file);
+
+  const data = await apiRequest<UploadEmoteResponse>('/emotes', {
+    method: 'POST',
+    token,
+    body: formData,
+    errorMessage: 'Failed to upload emote',
+  });
+  return data.emote;
+};
+
+export const deleteEmote = async (token: string, emoteId: string): Promise<void> => {
+  await apiRequest<unknown>(`/emotes/${encodeURIComponent(emoteId)}`, {
+    method: 'DELETE',
+    token,
+    errorMessage: 'Failed to delete emote',
+  });
+};
+
+// Channel emotes win over global ones with the same code
+export const buildEmoteMap = (globalEmotes: Emote[], channelEmotes: Emote[]): Map<string, Emote> => {
+  const map = new Map<string, Emote>();
+  [...globalEmotes, ...channelEmotes].forEach(emote => map.set(emote.code, emote));
+  return map;
+};
+
+export type MessageToken =
+  | { type: 'text'; text: string }
+  | { type: 'emote'; emote: Emote };
+
+// Split a chat message into text and emote tokens. Emotes match either as
+// :code: or as a bare word equal to the code; whitespace is kept in text tokens.
+export const tokenizeEmotes = (text: string, emotes: Map<string, Emote>): MessageToken[] => {
+  if (emotes.size === 0) return [{ type: 'text', text }];
+
+  const tokens: MessageToken[] = [];
+  let buffer = '';
+
+  text.split(/(\s+)/).forEach(part => {
+    const code = /^:[A-Za-z0-9_]+:$/.test(part) ? part.slice(1, -1) : part;
+    const emote = emotes.get(code);
+    if (emote) {
+      if (buffer) tokens.push({ type: 'text', text: buffer });
+      tokens.push({ type: 'emote', emote });
+      buffer = '';
+    } else {
+      buffer += part;
+    }
+  });
+
+  if (buffer) tokens.push({ type: 'text', text: buffer });
+  return tokens;
+};
+
+// Recently used emote codes for the picker, most recent first
+const RECENT_EMOTES_KEY = 'recentEmotes';
+const MAX_RECENT_EMOTES = 16;
+
+export const getRecentEmoteCodes = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RECENT_EMOTES_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter((code): code is string => typeof code === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const addRecentEmoteCode = (code: string): string[] => {
+  const recent = [code, ...getRecentEmoteCodes().filter(existing => existing !== code)].slice(0, MAX_RECENT_EMOTES);
+  localStorage.setItem(RECENT_EMOTES_KEY, JSON.stringify(recent));
+  return recent;
+};
@@ -0,0 +1,167 @@
+// Minimal HLS playlist parser. Only the parts the player needs are read: the
+// #EXT-X-STREAM-INF variants of a master playlist and the live timing tags of a media playlist.
+
+export interface HlsVariant {
+  // Absolute URL of the variant's media playlist
+  uri: string;
+  bandwidth: number;
+  averageBandwidth?: number;
+  width?: number;
+  height?: number;
+  frameRate?: number;
+  codecs: string[];
+}
+
+// Codec prefixes that carry audio only (AAC, AC-3, E-AC-3, Opus, MP3)
+const AUDIO_CODEC_PREFIXES = ['mp4a', 'ac-3', 'ec-3', 'opus', 'mp3'];
+
+// Split an attribute list (KEY=VALUE,KEY="quoted,value") into a map
+export const parseAttributeList = (input: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const pattern = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(input)) !== null) {
+    const [, key, rawValue] = match;
+    attributes[key] = rawValue.startsWith('"') ? rawValue.slice(1, -1) : rawValue;
+  }
+
+  return attributes;
+};
+
+const parseNumber = (value: string | undefined): number | undefined => {
+  if (value === undefined) return undefined;
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const resolveUri = (uri: string, playlistUrl: string): string => {
+  try {
+    return new URL(uri, playlistUrl).toString();
+  } catch {
+    return uri;
+  }
+};
+
+// Returns the variants of a master playlist, or an empty list for media playlists
+export const parseMasterPlaylist = (content: string, playlistUrl: string): HlsVariant[] => {
+  // Some packagers prepend a UTF-8 BOM or blank lines before the header
+  const lines = content.replace(/^\uFEFF/, '').trim().split(/\r?\n/).map(line => line.trim());
+  if (lines[0] !== '#EXTM3U') {
+    return [];
+  }
+
+  const variants: HlsVariant[] = [];
+  let pending: Record<string, string> | null = null;
+
+  for (const line of lines) {
+    if (!line) continue;
+
+    if (line.startsWith('#EXT-X-STREAM-INF:')) {
+      pending = parseAttributeList(line.slice('#EXT-X-STREAM-INF:'.length));
+      continue;
+    }
+
+    // Other tags and comments between the STREAM-INF tag and its URI are ignored
+    if (line.startsWith('#') || !pending) continue;
+
+    const bandwidth = parseNumber(pending['BANDWIDTH']);
+    if (bandwidth !== undefined) {
+      const [width, height] = (pending['RESOLUTION'] || '').split('x').map(value => parseInt(value, 10));
+      variants.push({
+        uri: resolveUri(line, playlistUrl),
+        bandwidth,
+        averageBandwidth: parseNumber(pending['AVERAGE-BANDWIDTH']),
+        width: Number.isFinite(width) ? width : undefined,
+        height: Number.isFinite(height) ? height : undefined,
+        frameRate: parseNumber(pending['FRAME-RATE']),
+        codecs: (pending['CODECS'] || '').split(',').map(codec => codec.trim()).filter(Boolean),
+      });
+    } else {
+      console.log('Skipping HLS variant without BANDWIDTH:', line);
+    }
+    pending = null;
+  }
+
+  return variants;
+};
+
+export const isAudioOnlyVariant = (variant: HlsVariant): boolean =>
+  variant.height === undefined
+  && variant.codecs.length > 0
+  && variant.codecs.every(codec => AUDIO_CODEC_PREFIXES.some(prefix => codec.toLowerCase().startsWith(prefix)));
+
+export const formatBandwidth = (bitsPerSecond: number): string => {
+  if (bitsPerSecond >= 1_000_000) {
+    return `${(bitsPerSecond / 1_000_000).toFixed(1)} Mbps`;
+  }
+  return `${Math.round(bitsPerSecond / 1000)} kbps`;
+};
+
+// Short rendition name such as "720p60", "1080p" or "Audio Only"
+export const getVariantName = (variant: HlsVariant): string => {
+  if (isAudioOnlyVariant(variant)) return 'Audio Only';
+  if (variant.height === undefined) return formatBandwidth(variant.bandwidth);
+
+  // Only high frame rates are called out, matching the usual "720p60" convention
+  const frameRate = variant.frameRate ? Math.round(variant.frameRate) : 0;
+  return `${variant.height}p${frameRate > 30 ? frameRate : ''}`;
+};
+
+// Menu label such as "720p60 · 3.2 Mbps"
+export const formatVariantLabel = (variant: HlsVariant): string => {
+  const name = getVariantName(variant);
+  if (variant.height === undefined && !isAudioOnlyVariant(variant)) return name;
+  return `${name} · ${formatBandwidth(variant.averageBandwidth ?? variant.bandwidth)}`;
+};
+
+// Highest resolution first, then highest bitrate; audio-only renditions last
+export const sortVariants = (variants: HlsVariant[]): HlsVariant[] =>
+  [...variants].sort((a, b) =>
+    Number(isAudioOnlyVariant(a)) - Number(isAudioOnlyVariant(b))
+    || (b.height ?? 0) - (a.height ?? 0)
+    || b.bandwidth - a.bandwidth
+  );
+
+// Live timing details of a media playlist, including the LL-HLS tags
+// (#EXT-X-PART-INF, #EXT-X-SERVER-CONTROL) when the origin advertises them
+export interface HlsMediaPlaylistInfo {
+  targetDuration?: number;
+  partTarget?: number;
+  partHoldBack?: number;
+  holdBack?: number;
+  canBlockReload: boolean;
+}
+
+export const parseMediaPlaylistInfo = (content: string): HlsMediaPlaylistInfo => {
+  const info: HlsMediaPlaylistInfo = { canBlockReload: false };
+
+  content.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    if (line.startsWith('#EXT-X-TARGETDURATION:')) {
+      info.targetDuration = parseNumber(line.slice('#EXT-X-TARGETDURATION:'.length));
+    } else if (line.startsWith('#EXT-X-PART-INF:')) {
+      info.partTarget = parseNumber(parseAttributeList(line.slice('#EXT-X-PART-INF:'.length))['PART-TARGET']);
+    } else if (line.startsWith('#EXT-X-SERVER-CONTROL:')) {
+      const attributes = parseAttributeList(line.slice('#EXT-X-SERVER-CONTROL:'.length));
+      info.partHoldBack = parseNumber(attributes['PART-HOLD-BACK']);
+      info.holdBack = parseNumber(attributes['HOLD-BACK']);
+      info.canBlockReload = attributes['CAN-BLOCK-RELOAD'] === 'YES';
+    }
+  });
+
+  return info;
+};
+
+export const supportsLowLatency = (info: HlsMediaPlaylistInfo | null): boolean =>
+  Boolean(info && info.partTarget !== undefined);
+
+// Distance the player keeps from the end of the playlist, per the HLS spec defaults:
+// PART-HOLD-BACK (3 part targets) with partial segments, HOLD-BACK (3 target durations) without
+export const getLiveHoldBack = (info: HlsMediaPlaylistInfo | null, useParts: boolean): number => {
+  if (!info) return 0;
+  if (useParts && info.partTarget !== undefined) {
+    return info.partHoldBack ?? info.partTarget * 3;
+  }
+  return info.holdBack ?? (info.targetDuration ?? 0) * 3;
+};
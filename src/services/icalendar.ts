@@ -0,0 +1,298 @@
+// iCalendar (RFC 5545) export of a channel's schedule, for importing single
+// streams or the whole schedule into calendar apps.
+import type { ScheduleOccurrence, ScheduleSegment } from './scheduleApi';
+import { downloadFile } from './download';
+import { getTimeZoneOffsetMinutes, getTimeZoneTransitions, getZonedDateTime, zonedTimeToDate, type TimeZoneTransition } from './timeZones';
+
+const PRODUCT_ID = '-//Distorted//Stream Schedule//EN';
+const UID_DOMAIN = 'distorted.live';
+const ICS_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_YEAR = 366 * 24 * 60 * MS_PER_MINUTE;
+// Offset changes are listed this far around the exported events
+const TIME_ZONE_MARGIN_YEARS = 1;
+// Open-ended series are covered this far ahead
+const OPEN_ENDED_YEARS = 2;
+
+export interface CalendarExportOptions {
+  username: string;
+  // Link back to the channel, added to every event
+  channelUrl: string;
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// UTC instant as 20250102T030405Z
+const formatUtc = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+// Wall-clock time in the zone as 20250102T030405, for use with TZID
+const formatZoned = (date: Date, timeZone: string) => {
+  const zoned = getZonedDateTime(date, timeZone);
+  return `${zoned.year}${pad(zoned.month)}${pad(zoned.day)}T${pad(zoned.hour)}${pad(zoned.minute)}${pad(zoned.second)}`;
+};
+
+const formatOffset = (minutes: number) => {
+  const sign = minutes < 0 ? '-' : '+';
+  const absolute = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(absolute / 60))}${pad(absolute % 60)}`;
+};
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets continue on the next line after a space
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      chunks.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+};
+
+// Wall-clock time just before an offset change
+const getLocalStart = (transition: TimeZoneTransition) =>
+  new Date(transition.at.getTime() + transition.offsetBefore * MS_PER_MINUTE);
+
+// Yearly rule placing a change on the same weekday of its month, e.g. the second
+// Sunday of March (BYDAY=2SU) or the last Sunday of October (BYDAY=-1SU)
+const getYearlyRule = (transition: TimeZoneTransition) => {
+  const local = getLocalStart(transition);
+  const day = local.getUTCDate();
+  const daysInMonth = new Date(Date.UTC(local.getUTCFullYear(), local.getUTCMonth() + 1, 0)).getUTCDate();
+  const week = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+  return `FREQ=YEARLY;BYMONTH=${local.getUTCMonth() + 1};BYDAY=${week}${ICS_WEEKDAYS[local.getUTCDay()]}`;
+};
+
+const isSameYearlyChange = (earlier: TimeZoneTransition, later: TimeZoneTransition) =>
+  earlier.offsetBefore === later.offsetBefore
+  && earlier.offsetAfter === later.offsetAfter
+  && getYearlyRule(earlier) === getYearlyRule(later)
+  && formatUtc(getLocalStart(earlier)).slice(8) === formatUtc(getLocalStart(later)).slice(8);
+
+// Number of changes at the end of the list that repeat every year by rule (the
+// zone's current DST pair), or 0 when the zone no longer changes or follows no
+// weekday rule. Calendar apps keep the last listed offset forever otherwise.
+const countRecurringTransitions = (transitions: TimeZoneTransition[], windowEnd: Date) => {
+  if (transitions.length < 4) return 0;
+  const recent = transitions.slice(-2);
+  const previous = transitions.slice(-4, -2);
+  const stillChanging = windowEnd.getTime() - recent[1].at.getTime() < MS_PER_YEAR;
+  return stillChanging && recent.every((transition, index) => isSameYearlyChange(previous[index], transition)) ? 2 : 0;
+};
+
+const buildTimeZone = (timeZone: string, from: Date, to: Date): string[] => {
+  const windowStart = new Date(from);
+  windowStart.setUTCFullYear(windowStart.getUTCFullYear() - TIME_ZONE_MARGIN_YEARS);
+  const windowEnd = new Date(to);
+  windowEnd.setUTCFullYear(windowEnd.getUTCFullYear() + TIME_ZONE_MARGIN_YEARS);
+  const transitions = getTimeZoneTransitions(timeZone, windowStart, windowEnd);
+  const recurringCount = countRecurringTransitions(transitions, windowEnd);
+
+  const observance = (offsetFrom: number, offsetTo: number, localStart: string, isDaylight: boolean, rrule?: string) => [
+    `BEGIN:${isDaylight ? 'DAYLIGHT' : 'STANDARD'}`,
+    `DTSTART:${localStart}`,
+    ...(rrule ? [`RRULE:${rrule}`] : []),
+    `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+    `TZOFFSETTO:${formatOffset(offsetTo)}`,
+    `END:${isDaylight ? 'DAYLIGHT' : 'STANDARD'}`,
+  ];
+
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+  if (transitions.length === 0) {
+    const offset = getTimeZoneOffsetMinutes(windowStart, timeZone);
+    lines.push(...observance(offset, offset, '19700101T000000', false));
+  } else {
+    // The offset in force before the first listed change
+    const first = transitions[0];
+    lines.push(...observance(first.offsetBefore, first.offsetBefore, '19700101T000000', first.offsetBefore > first.offsetAfter));
+    transitions.forEach((transition, index) => {
+      // DTSTART is the wall-clock time just before the change; the zone's
+      // current DST pair repeats yearly from its last listed date
+      const localStart = formatUtc(getLocalStart(transition)).slice(0, -1);
+      const rrule = index >= transitions.length - recurringCount ? getYearlyRule(transition) : undefined;
+      lines.push(...observance(transition.offsetBefore, transition.offsetAfter, localStart, transition.offsetAfter > transition.offsetBefore, rrule));
+    });
+  }
+  lines.push('END:VTIMEZONE');
+  return lines;
+};
+
+type CalendarEvent = {
+  uid: string;
+  // IANA zone the event times are written in
+  timeZone: string;
+  start: Date;
+  end: Date;
+  title: string;
+  category: string;
+  cancelled: boolean;
+  sequence: number;
+  rrule?: string;
+  exdates?: Date[];
+  recurrenceId?: Date;
+};
+
+const buildEvent = (event: CalendarEvent, options: CalendarExportOptions, stamp: string): string[] => {
+  const { timeZone } = event;
+  const tzid = `TZID=${timeZone}`;
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTART;${tzid}:${formatZoned(event.start, timeZone)}`,
+    `DTEND;${tzid}:${formatZoned(event.end, timeZone)}`,
+  ];
+  if (event.recurrenceId) lines.push(`RECURRENCE-ID;${tzid}:${formatZoned(event.recurrenceId, timeZone)}`);
+  if (event.rrule) lines.push(`RRULE:${event.rrule}`);
+  if (event.exdates?.length) {
+    lines.push(`EXDATE;${tzid}:${event.exdates.map(date => formatZoned(date, timeZone)).join(',')}`);
+  }
+  lines.push(`SUMMARY:${escapeText(event.title)}`);
+  if (event.category) lines.push(`CATEGORIES:${escapeText(event.category)}`);
+  lines.push(
+    `DESCRIPTION:${escapeText(`${options.username} streaming${event.category ? ` ${event.category}` : ''}\n${options.channelUrl}`)}`,
+    `URL:${options.channelUrl}`,
+    `STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    'END:VEVENT',
+  );
+  return lines;
+};
+
+// Calendar apps replace an event when its SEQUENCE goes up
+const getSequence = (segment: ScheduleSegment) =>
+  segment.updatedAt ? Math.floor(new Date(segment.updatedAt).getTime() / 1000) : 0;
+
+const getSegmentEvents = (segment: ScheduleSegment): CalendarEvent[] => {
+  const { timeZone } = segment;
+  const uid = `schedule-${segment.id}@${UID_DOMAIN}`;
+  const sequence = getSequence(segment);
+  const start = new Date(segment.startTime);
+  const exceptions = new Map(segment.exceptions.map(exception => [new Date(exception.originalStart).getTime(), exception]));
+
+  const withException = (originalStart: Date) => {
+    const exception = exceptions.get(originalStart.getTime());
+    const eventStart = exception?.startTime ? new Date(exception.startTime) : originalStart;
+    return {
+      start: eventStart,
+      end: new Date(eventStart.getTime() + (exception?.durationMinutes ?? segment.durationMinutes) * MS_PER_MINUTE),
+      title: exception?.title ?? segment.title,
+      category: exception?.category ?? segment.category,
+      cancelled: exception?.cancelled ?? false,
+    };
+  };
+
+  if (segment.recurrence.frequency === 'none') {
+    return [{ uid, timeZone, sequence, ...withException(start) }];
+  }
+
+  const zonedStart = getZonedDateTime(start, timeZone);
+  const weekdays = segment.recurrence.weekdays.length > 0 ? segment.recurrence.weekdays : [zonedStart.weekday];
+  // DTSTART always counts as an instance, so it has to be the first day the series actually runs on
+  let firstStart = start;
+  for (let offset = 1; offset < 7 && !weekdays.includes(getZonedDateTime(firstStart, timeZone).weekday); offset++) {
+    firstStart = zonedTimeToDate({ ...zonedStart, day: zonedStart.day + offset }, timeZone);
+  }
+  let rrule = `FREQ=WEEKLY;BYDAY=${weekdays.map(day => ICS_WEEKDAYS[day]).join(',')}`;
+  if (segment.recurrence.until) {
+    // UNTIL is inclusive and has to be in UTC when DTSTART carries a TZID
+    const [year, month, day] = segment.recurrence.until.split('-').map(Number);
+    rrule += `;UNTIL=${formatUtc(zonedTimeToDate({ year, month, day, hour: 23, minute: 59, second: 59 }, timeZone))}`;
+  }
+
+  const master: CalendarEvent = {
+    uid,
+    timeZone,
+    sequence,
+    start: firstStart,
+    end: new Date(firstStart.getTime() + segment.durationMinutes * MS_PER_MINUTE),
+    title: segment.title,
+    category: segment.category,
+    cancelled: false,
+    rrule,
+    exdates: segment.exceptions.filter(exception => exception.cancelled).map(exception => new Date(exception.originalStart)),
+  };
+
+  // Moved or retitled occurrences override the series instance they replace
+  const overrides = segment.exceptions
+    .filter(exception => !exception.cancelled)
+    .map(exception => {
+      const originalStart = new Date(exception.originalStart);
+      return { uid, timeZone, sequence, recurrenceId: originalStart, ...withException(originalStart) };
+    });
+
+  return [master, ...overrides];
+};
+
+const buildCalendar = (events: CalendarEvent[], options: CalendarExportOptions, extraHeaders: string[]): string => {
+  const stamp = formatUtc(new Date());
+  const times = events.flatMap(event => [event.start.getTime(), event.end.getTime()]);
+  const from = new Date(times.length > 0 ? Math.min(...times) : Date.now());
+  const to = new Date(Math.max(Date.now(), ...times));
+  if (events.some(event => event.rrule && !event.rrule.includes('UNTIL='))) {
+    to.setUTCFullYear(to.getUTCFullYear() + OPEN_ENDED_YEARS);
+  }
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...extraHeaders,
+    ...[...new Set(events.map(event => event.timeZone))].flatMap(timeZone => buildTimeZone(timeZone, from, to)),
+    ...events.flatMap(event => buildEvent(event, options, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// The whole schedule: one event per one-off stream and one recurring event per series
+export const buildScheduleCalendar = (segments: ScheduleSegment[], options: CalendarExportOptions): string => {
+  const timeZones = new Set(segments.map(segment => segment.timeZone));
+  return buildCalendar(
+    segments.flatMap(getSegmentEvents),
+    options,
+    [
+      `X-WR-CALNAME:${escapeText(`${options.username}'s stream schedule`)}`,
+      // Only meaningful when the streamer schedules everything in one zone
+      ...(timeZones.size === 1 ? [`X-WR-TIMEZONE:${[...timeZones][0]}`] : []),
+      'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+      'X-PUBLISHED-TTL:PT1H',
+    ],
+  );
+};
+
+// A single stream, as a standalone event
+export const buildOccurrenceCalendar = (occurrence: ScheduleOccurrence, options: CalendarExportOptions): string =>
+  buildCalendar(
+    [{
+      uid: `schedule-${occurrence.segmentId}-${formatUtc(new Date(occurrence.originalStart))}@${UID_DOMAIN}`,
+      timeZone: occurrence.timeZone,
+      start: occurrence.start,
+      end: occurrence.end,
+      title: occurrence.title,
+      category: occurrence.category,
+      cancelled: occurrence.cancelled,
+      sequence: 0,
+    }],
+    options,
+    [],
+  );
+
+export const downloadCalendarFile = (filename: string, content: string) =>
+  downloadFile(filename, content, 'text/calendar;charset=utf-8');
@@ -0,0 +1,104 @@
+// Ingest health alerts for streamers: per-channel bitrate thresholds, the
+// incidents raised against them during the current broadcast, and the alert tone.
+import { apiRequest, fallbackOnNotFound } from './apiClient';
+
+export interface IngestHealthSettings {
+  // Average bitrate (kbps) at or above which quality counts as good
+  goodKbps: number;
+  // Average bitrate (kbps) below which quality counts as poor
+  minimumKbps: number;
+  // How long bitrate has to stay at zero before raising a no-signal alert
+  zeroBitrateSeconds: number;
+  soundEnabled: boolean;
+}
+
+export const DEFAULT_INGEST_HEALTH_SETTINGS: IngestHealthSettings = {
+  goodKbps: 3000,
+  minimumKbps: 1500,
+  zeroBitrateSeconds: 10,
+  soundEnabled: false,
+};
+
+export type IngestIncidentKind = 'poor_quality' | 'no_signal';
+
+export interface IngestIncident {
+  id: string;
+  kind: IngestIncidentKind;
+  startedAt: number;
+  // Missing while the incident is ongoing
+  endedAt?: number;
+  // Lowest bitrate (kbps) seen during the incident
+  lowestKbps: number;
+}
+
+interface IngestHealthSettingsResponse {
+  settings: Partial<IngestHealthSettings>;
+}
+
+export const getIngestHealthSettings = async (token: string): Promise<IngestHealthSettings> => {
+  const data = await fallbackOnNotFound(
+    apiRequest<IngestHealthSettingsResponse>('/stream/ingest-health/settings', {
+      token,
+      errorMessage: 'Failed to load alert settings',
+    }),
+    { settings: {} },
+  );
+  return { ...DEFAULT_INGEST_HEALTH_SETTINGS, ...data.settings };
+};
+
+export const updateIngestHealthSettings = async (token: string, settings: IngestHealthSettings): Promise<IngestHealthSettings> => {
+  const data = await apiRequest<IngestHealthSettingsResponse>('/stream/ingest-health/settings', {
+    method: 'PUT',
+    token,
+    body: settings,
+    errorMessage: 'Failed to save alert settings',
+  });
+  return { ...DEFAULT_INGEST_HEALTH_SETTINGS, ...data.settings };
+};
+
+// The incident log lasts for the broadcast, across tab switches and reloads
+export interface IngestIncidentLog {
+  // Stream the incidents belong to, when the readings carry one
+  streamId?: number;
+  incidents: IngestIncident[];
+}
+
+const INCIDENTS_KEY_PREFIX = 'ingestIncidents_';
+
+export const loadIngestIncidents = (username: string): IngestIncidentLog => {
+  try {
+    const stored = sessionStorage.getItem(`${INCIDENTS_KEY_PREFIX}${username}`);
+    return stored ? JSON.parse(stored) : { incidents: [] };
+  } catch {
+    return { incidents: [] };
+  }
+};
+
+export const saveIngestIncidents = (username: string, log: IngestIncidentLog) => {
+  sessionStorage.setItem(`${INCIDENTS_KEY_PREFIX}${username}`, JSON.stringify(log));
+};
+
+export const clearIngestIncidents = (username: string) => {
+  sessionStorage.removeItem(`${INCIDENTS_KEY_PREFIX}${username}`);
+};
+
+// Two short descending beeps
+export const playIngestAlertSound = () => {
+  try {
+    const context = new AudioContext();
+    [0, 0.25].forEach((offset, index) => {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.type = 'sine';
+      oscillator.frequency.value = index === 0 ? 880 : 660;
+      gain.gain.setValueAtTime(0.2, context.currentTime + offset);
+      gain.gain.exponentialRampToValueAtTime(0.001, context.currentTime + offset + 0.2);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(context.currentTime + offset);
+      oscillator.stop(context.currentTime + offset + 0.2);
+    });
+    setTimeout(() => context.close(), 1000);
+  } catch (error) {
+    console.warn('⚠️ Could not play alert sound:', error);
+  }
+};
@@ -0,0 +1,304 @@
+// Encoder telemetry reported alongside bitrate in bitrate_update events and
+// the bitrate history endpoints, and the checks run against it.
+import type { ChartOptions } from 'chart.js';
+import { apiRequest } from './apiClient';
+
+export interface TelemetryPoint {
+  timestamp: number;
+  // Video bitrate (kbps)
+  bitrate: number;
+  audioBitrate?: number; // kbps
+  fps?: number;
+  keyframeInterval?: number; // seconds
+  width?: number;
+  height?: number;
+  // Frames dropped since the previous reading
+  droppedFrames?: number;
+  streamId?: number;
+  username?: string;
+}
+
+export type TelemetryMetric = 'bitrate' | 'audioBitrate' | 'fps' | 'keyframeInterval' | 'droppedFrames';
+
+interface TelemetryMetricInfo {
+  label: string;
+  // Shown on the metric's axis
+  unit: string;
+  color: string;
+}
+
+export const TELEMETRY_METRICS: Record<TelemetryMetric, TelemetryMetricInfo> = {
+  bitrate: { label: 'Video bitrate', unit: 'kbps', color: '#3b82f6' },
+  audioBitrate: { label: 'Audio bitrate', unit: 'kbps', color: '#8b5cf6' },
+  fps: { label: 'FPS', unit: 'fps', color: '#10b981' },
+  keyframeInterval: { label: 'Keyframe interval', unit: 's', color: '#f59e0b' },
+  droppedFrames: { label: 'Dropped frames', unit: 'frames', color: '#ef4444' },
+};
+
+export const TELEMETRY_METRIC_ORDER: TelemetryMetric[] = ['bitrate', 'audioBitrate', 'fps', 'keyframeInterval', 'droppedFrames'];
+
+// Most platforms reject or struggle with keyframes further apart than this
+export const MAX_KEYFRAME_INTERVAL_SECONDS = 4;
+const MIN_FPS = 24;
+const MIN_AUDIO_KBPS = 96;
+const MAX_DROPPED_FRAME_RATIO = 0.01;
+const MAX_RESOLUTION_CHANGES = 3;
+// Warnings look at roughly the last minute of readings (5-second interval)
+const WARNING_WINDOW_POINTS = 12;
+
+const toNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+// Keeps the known fields of a socket or API reading, tolerating older servers that only send bitrate
+export const toTelemetryPoint = (data: Partial<TelemetryPoint> & { timestamp: number }): TelemetryPoint => ({
+  timestamp: data.timestamp,
+  bitrate: toNumber(data.bitrate) ?? 0,
+  audioBitrate: toNumber(data.audioBitrate),
+  fps: toNumber(data.fps),
+  keyframeInterval: toNumber(data.keyframeInterval),
+  width: toNumber(data.width),
+  height: toNumber(data.height),
+  droppedFrames: toNumber(data.droppedFrames),
+  streamId: data.streamId,
+  username: data.username,
+});
+
+export const hasTelemetryMetric = (points: TelemetryPoint[], metric: TelemetryMetric): boolean =>
+  points.some(point => point[metric] !== undefined);
+
+export const formatResolution = (point: TelemetryPoint): string | null =>
+  point.width && point.height ? `${point.width}x${point.height}` : null;
+
+export const formatBitrate = (bitrate: number): string => {
+  if (bitrate >= 1000) {
+    return `${Math.round(bitrate / 1000 * 10) / 10}M`;
+  }
+  return `${Math.round(bitrate)}k`;
+};
+
+export const formatTelemetryValue = (metric: TelemetryMetric, value: number): string => {
+  switch (metric) {
+    case 'bitrate':
+    case 'audioBitrate':
+      return formatBitrate(value);
+    case 'fps':
+      return `${Math.round(value * 10) / 10}`;
+    case 'keyframeInterval':
+      return `${Math.round(value * 10) / 10}s`;
+    case 'droppedFrames':
+      return `${Math.round(value)}`;
+  }
+};
+
+export const formatTelemetryTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString('en-US', { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+// Adds or removes a series from a metric selector, keeping at least one plotted
+export const toggleTelemetryMetric = (selected: TelemetryMetric[], metric: TelemetryMetric): TelemetryMetric[] => {
+  if (selected.includes(metric)) {
+    return selected.length > 1 ? selected.filter(item => item !== metric) : selected;
+  }
+  return TELEMETRY_METRIC_ORDER.filter(item => item === metric || selected.includes(item));
+};
+
+// One y axis per plotted series, keyed `y-${metric}` and alternating sides
+export const buildTelemetryScales = (
+  metrics: TelemetryMetric[],
+  { isDarkMode, compact = false }: { isDarkMode: boolean; compact?: boolean },
+): NonNullable<ChartOptions<'line'>['scales']> => {
+  const scales: NonNullable<ChartOptions<'line'>['scales']> = {};
+  metrics.forEach((metric, index) => {
+    const { label, unit, color } = TELEMETRY_METRICS[metric];
+    scales[`y-${metric}`] = {
+      display: !compact,
+      position: index % 2 === 0 ? 'left' : 'right',
+      beginAtZero: true,
+      // Keep the recommended maximum in view so long intervals stand out
+      suggestedMax: metric === 'keyframeInterval' ? MAX_KEYFRAME_INTERVAL_SECONDS + 1 : undefined,
+      title: {
+        display: metrics.length > 1,
+        text: `${label} (${unit})`,
+        color,
+      },
+      grid: {
+        color: isDarkMode ? '#374151' : '#e5e7eb',
+        // Only the first axis draws grid lines across the chart
+        drawOnChartArea: index === 0,
+      },
+      ticks: {
+        color: metrics.length > 1 ? color : isDarkMode ? '#9ca3af' : '#6b7280',
+        font: {
+          size: compact ? 10 : 12,
+        },
+        callback: function(value) {
+          return formatTelemetryValue(metric, Number(value));
+        },
+        maxTicksLimit: compact ? 3 : 5,
+      },
+    };
+  });
+  return scales;
+};
+
+export interface ResolutionChange {
+  timestamp: number;
+  // Index of the reading in the series it was found in
+  index: number;
+  from: string;
+  to: string;
+}
+
+export const getResolutionChanges = (points: TelemetryPoint[]): ResolutionChange[] => {
+  const changes: ResolutionChange[] = [];
+  let previous: string | null = null;
+  points.forEach((point, index) => {
+    const resolution = formatResolution(point);
+    if (!resolution) return;
+    if (previous && resolution !== previous) {
+      changes.push({ timestamp: point.timestamp, index, from: previous, to: resolution });
+    }
+    previous = resolution;
+  });
+  return changes;
+};
+
+export interface TelemetryWarning {
+  id: string;
+  message: string;
+}
+
+const latestValue = (points: TelemetryPoint[], metric: TelemetryMetric) => {
+  for (let i = points.length - 1; i >= 0; i--) {
+    const value = points[i][metric];
+    if (value !== undefined) return value;
+  }
+  return undefined;
+};
+
+// Common encoder misconfigurations visible in the recent readings
+export const getTelemetryWarnings = (points: TelemetryPoint[]): TelemetryWarning[] => {
+  const recent = points.slice(-WARNING_WINDOW_POINTS);
+  if (recent.length === 0) return [];
+  const warnings: TelemetryWarning[] = [];
+
+  const keyframeInterval = latestValue(recent, 'keyframeInterval');
+  if (keyframeInterval !== undefined && keyframeInterval > MAX_KEYFRAME_INTERVAL_SECONDS) {
+    warnings.push({
+      id: 'keyframe_interval',
+      message: `Keyframe interval is ${keyframeInterval}s. Set it to 2s (at most ${MAX_KEYFRAME_INTERVAL_SECONDS}s) in your encoder so viewers can start watching and switch quality quickly.`,
+    });
+  }
+
+  const fps = latestValue(recent, 'fps');
+  if (fps !== undefined && fps > 0 && fps < MIN_FPS) {
+    warnings.push({
+      id: 'low_fps',
+      message: `Encoder is sending ${Math.round(fps)} FPS. Check that your encoder isn't overloaded and its output is set to 30 or 60 FPS.`,
+    });
+  }
+
+  const audioBitrate = latestValue(recent, 'audioBitrate');
+  if (audioBitrate !== undefined && recent[recent.length - 1].bitrate > 0) {
+    if (audioBitrate === 0) {
+      warnings.push({ id: 'no_audio', message: 'No audio is being received. Check your encoder\'s audio source and that it isn\'t muted.' });
+    } else if (audioBitrate < MIN_AUDIO_KBPS) {
+      warnings.push({
+        id: 'low_audio',
+        message: `Audio bitrate is ${Math.round(audioBitrate)} kbps. Use at least ${MIN_AUDIO_KBPS} kbps (160 kbps recommended) for clear audio.`,
+      });
+    }
+  }
+
+  const dropped = recent.reduce((sum, point) => sum + (point.droppedFrames ?? 0), 0);
+  const sent = recent.reduce((sum, point, index) => {
+    if (index === 0 || point.fps === undefined) return sum;
+    return sum + point.fps * ((point.timestamp - recent[index - 1].timestamp) / 1000);
+  }, 0);
+  if (dropped > 0 && sent > 0 && dropped / sent > MAX_DROPPED_FRAME_RATIO) {
+    warnings.push({
+      id: 'dropped_frames',
+      message: `${Math.round((dropped / sent) * 1000) / 10}% of frames dropped in the last minute. Lower your bitrate or check your upload connection.`,
+    });
+  }
+
+  if (getResolutionChanges(points).length > MAX_RESOLUTION_CHANGES) {
+    warnings.push({
+      id: 'resolution_changes',
+      message: 'Resolution keeps changing. Turn off dynamic resolution or bitrate scaling in your encoder; viewers see the picture jump.',
+    });
+  }
+
+  return warnings;
+};
+
+// Full ingest history of one past broadcast, found either through its past
+// broadcast video or the stream entry on the schedule page
+export type BroadcastTelemetrySource = { videoId: string } | { username: string; streamId: string };
+
+interface BroadcastTelemetryResponse {
+  history: (Partial<TelemetryPoint> & { timestamp: number })[];
+}
+
+export const getBroadcastTelemetry = async (token: string, source: BroadcastTelemetrySource): Promise<TelemetryPoint[]> => {
+  const path = 'videoId' in source
+    ? `/videos/${encodeURIComponent(source.videoId)}/bitrate/history`
+    : `/streams/${encodeURIComponent(source.username)}/past-streams/${encodeURIComponent(source.streamId)}/bitrate/history`;
+  const data = await apiRequest<BroadcastTelemetryResponse>(path, {
+    token,
+    errorMessage: 'Failed to load bitrate history',
+  });
+  return data.history.map(toTelemetryPoint).sort((a, b) => a.timestamp - b.timestamp);
+};
+
+const combineKnown = (values: (number | undefined)[], worse: (a: number, b: number) => number) => {
+  const known = values.filter((value): value is number => value !== undefined);
+  return known.length > 0 ? known.reduce((worst, value) => worse(worst, value)) : undefined;
+};
+
+// Thins long series for charting. Each metric keeps its worst value in the
+// bucket (lowest bitrate and FPS, longest keyframe interval) and dropped frames
+// are summed, so drops and spikes in every series stay visible when zoomed out
+export const downsampleTelemetry = (points: TelemetryPoint[], maxPoints: number): TelemetryPoint[] => {
+  if (points.length <= maxPoints) return points;
+  const bucketSize = points.length / maxPoints;
+  const sampled: TelemetryPoint[] = [];
+  for (let bucket = 0; bucket < maxPoints; bucket++) {
+    const slice = points.slice(Math.floor(bucket * bucketSize), Math.floor((bucket + 1) * bucketSize));
+    if (slice.length === 0) continue;
+    const last = slice[slice.length - 1];
+    const dropped = slice.map(point => point.droppedFrames);
+    sampled.push({
+      timestamp: slice[0].timestamp,
+      bitrate: Math.min(...slice.map(point => point.bitrate)),
+      audioBitrate: combineKnown(slice.map(point => point.audioBitrate), Math.min),
+      fps: combineKnown(slice.map(point => point.fps), Math.min),
+      keyframeInterval: combineKnown(slice.map(point => point.keyframeInterval), Math.max),
+      droppedFrames: combineKnown(dropped, (a, b) => a + b),
+      width: last.width,
+      height: last.height,
+      streamId: last.streamId,
+      username: last.username,
+    });
+  }
+  return sampled;
+};
+
+const CSV_COLUMNS: (keyof TelemetryPoint)[] = [
+  'timestamp', 'bitrate', 'audioBitrate', 'fps', 'keyframeInterval', 'width', 'height', 'droppedFrames',
+];
+
+// One row per reading; timestamps as ISO 8601 UTC so spreadsheets and vendors read them alike
+export const buildTelemetryCsv = (points: TelemetryPoint[]): string => {
+  const header = ['time', ...CSV_COLUMNS.slice(1)].join(',');
+  const rows = points.map(point => CSV_COLUMNS.map(column => {
+    if (column === 'timestamp') return new Date(point.timestamp).toISOString();
+    return point[column] ?? '';
+  }).join(','));
+  return [header, ...rows].join('\r\n');
+};
+
+export const buildTelemetryJson = (points: TelemetryPoint[]): string =>
+  JSON.stringify(points.map(point => ({
+    time: new Date(point.timestamp).toISOString(),
+    ...Object.fromEntries(CSV_COLUMNS.slice(1).filter(column => point[column] !== undefined).map(column => [column, point[column]])),
+  })), null, 2);
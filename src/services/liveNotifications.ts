@@ -0,0 +1,84 @@
+// Browser side of go-live notifications. public/notification-worker.js shows
+// notifications the server pushes while the site is closed; while it is open,
+// the Home poll reports channels that just went live through the same worker.
+// Both use a per-channel tag, so one notification replaces the other.
+import { deletePushSubscription, getPushPublicKey, savePushSubscription } from './notificationsApi';
+
+const WORKER_URL = '/notification-worker.js';
+// Set once the user opts in on this browser
+const OPT_IN_KEY = 'liveNotificationsEnabled';
+
+export type LiveNotificationStatus = 'unsupported' | 'denied' | 'disabled' | 'enabled';
+
+export interface LiveNotification {
+  username: string;
+  title?: string;
+  profilePicture?: string;
+}
+
+export const isLiveNotificationSupported = (): boolean =>
+  typeof window !== 'undefined' && 'Notification' in window && 'serviceWorker' in navigator;
+
+export const getLiveNotificationStatus = (): LiveNotificationStatus => {
+  if (!isLiveNotificationSupported()) return 'unsupported';
+  if (Notification.permission === 'denied') return 'denied';
+  return Notification.permission === 'granted' && localStorage.getItem(OPT_IN_KEY) === 'true' ? 'enabled' : 'disabled';
+};
+
+const getWorkerRegistration = async (): Promise<ServiceWorkerRegistration> => {
+  await navigator.serviceWorker.register(WORKER_URL);
+  return navigator.serviceWorker.ready;
+};
+
+// PushManager takes the VAPID key as bytes rather than base64url
+const decodeBase64Url = (value: string) => {
+  const base64 = (value + '='.repeat((4 - (value.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+};
+
+// Asks for permission and subscribes this browser to pushes. When the server
+// doesn't offer web push, notifications still arrive while the site is open.
+export const enableLiveNotifications = async (token: string): Promise<LiveNotificationStatus> => {
+  if (!isLiveNotificationSupported()) return 'unsupported';
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') return permission === 'denied' ? 'denied' : 'disabled';
+
+  const registration = await getWorkerRegistration();
+  const publicKey = 'PushManager' in window ? await getPushPublicKey() : null;
+  if (publicKey) {
+    const subscription = await registration.pushManager.getSubscription()
+      ?? await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: decodeBase64Url(publicKey),
+      });
+    await savePushSubscription(token, subscription.toJSON());
+  }
+
+  localStorage.setItem(OPT_IN_KEY, 'true');
+  console.log(`🔔 Live notifications enabled ${publicKey ? 'with push' : 'while the site is open'}`);
+  return 'enabled';
+};
+
+export const disableLiveNotifications = async (token: string): Promise<void> => {
+  localStorage.removeItem(OPT_IN_KEY);
+  if (!isLiveNotificationSupported()) return;
+
+  const registration = await navigator.serviceWorker.getRegistration(WORKER_URL);
+  const subscription = await registration?.pushManager.getSubscription();
+  if (subscription) {
+    await deletePushSubscription(token, subscription.endpoint);
+    await subscription.unsubscribe();
+  }
+  console.log('🔕 Live notifications disabled');
+};
+
+export const showLiveNotification = async ({ username, title, profilePicture }: LiveNotification): Promise<void> => {
+  if (getLiveNotificationStatus() !== 'enabled') return;
+  const registration = await getWorkerRegistration();
+  await registration.showNotification(`${username} is live`, {
+    body: title || 'Started streaming',
+    icon: profilePicture || '/favicon.ico',
+    tag: `live-${username}`,
+    data: { url: `/${encodeURIComponent(username)}` },
+  });
+};
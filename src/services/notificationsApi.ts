@@ -0,0 +1,159 @@
+import { apiRequest, fallbackOnNotFound } from './apiClient';
+import { getActivityFeed, type ActivityItem } from './streamApi';
+
+// A followed channel and whether the viewer wants to hear when it goes live
+export interface LiveNotificationChannel {
+  username: string;
+  profilePicture?: string;
+  enabled: boolean;
+}
+
+interface LiveNotificationChannelsResponse {
+  channels: LiveNotificationChannel[];
+}
+
+interface LiveNotificationChannelResponse {
+  channel: LiveNotificationChannel;
+}
+
+interface PushPublicKeyResponse {
+  publicKey: string;
+}
+
+// Every followed channel with its go-live notification preference
+export const getLiveNotificationChannels = async (token: string): Promise<LiveNotificationChannel[]> => {
+  const data = await fallbackOnNotFound(
+    apiRequest<LiveNotificationChannelsResponse>('/notifications/live', {
+      token,
+      errorMessage: 'Failed to load notification settings',
+    }),
+    { channels: [] },
+  );
+  return data.channels;
+};
+
+export const setLiveNotificationChannel = async (token: string, username: string, enabled: boolean): Promise<LiveNotificationChannel> => {
+  const data = await apiRequest<LiveNotificationChannelResponse>(`/notifications/live/${encodeURIComponent(username)}`, {
+    method: 'PUT',
+    token,
+    body: { enabled },
+    errorMessage: 'Failed to update notification settings',
+  });
+  return data.channel;
+};
+
+// VAPID key push subscriptions are created with; null when the server doesn't send web push
+export const getPushPublicKey = async (): Promise<string | null> => {
+  const data = await fallbackOnNotFound(
+    apiRequest<PushPublicKeyResponse | null>('/notifications/push/public-key', {
+      errorMessage: 'Failed to load push settings',
+    }),
+    null,
+  );
+  return data?.publicKey ?? null;
+};
+
+// Registers this browser to receive go-live pushes for the user
+export const savePushSubscription = async (token: string, subscription: PushSubscriptionJSON): Promise<void> => {
+  await apiRequest<unknown>('/notifications/push/subscriptions', {
+    method: 'POST',
+    token,
+    body: subscription,
+    errorMessage: 'Failed to enable notifications',
+  });
+};
+
+export const deletePushSubscription = async (token: string, endpoint: string): Promise<void> => {
+  await fallbackOnNotFound(
+    apiRequest<unknown>('/notifications/push/subscriptions', {
+      method: 'DELETE',
+      token,
+      body: { endpoint },
+      errorMessage: 'Failed to disable notifications',
+    }),
+    null,
+  );
+};
+
+// Notification center entries shown under the Navbar bell
+export type NotificationType = 'stream_live' | 'follow' | 'subscribe' | 'mention' | 'clip_created';
+
+// Realtime notification pushed on the profile socket
+export interface NotificationEvent {
+  id?: string;
+  type: NotificationType;
+  // Channel that went live, the new follower or subscriber, or whoever mentioned you or clipped your stream
+  username: string;
+  // Channel the mention or clip belongs to
+  channel?: string;
+  clipId?: string;
+  // Stream title, message excerpt or clip title
+  text?: string;
+  createdAt?: string;
+}
+
+export interface AppNotification extends NotificationEvent {
+  id: string;
+  createdAt: string;
+}
+
+const fromActivity = (activity: ActivityItem): AppNotification => ({
+  id: `activity-${activity.id}`,
+  type: activity.type === 'subscribe' ? 'subscribe' : 'follow',
+  username: activity.username,
+  createdAt: activity.timestamp,
+});
+
+// New followers and subscribers from the channel activity feed, newest first
+export const getRecentNotifications = async (token: string, limit: number = 20): Promise<AppNotification[]> => {
+  const { activities } = await getActivityFeed(token, limit);
+  return activities
+    .filter(activity => activity.type !== 'unfollow')
+    .map(fromActivity)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+};
+
+export const toAppNotification = (event: NotificationEvent): AppNotification => {
+  const createdAt = event.createdAt ?? new Date().toISOString();
+  return { ...event, id: event.id ?? `${event.type}-${event.username}-${createdAt}`, createdAt };
+};
+
+// Read state is kept per user in this browser; the activity feed has no read flag
+export interface NotificationReadState {
+  readIds: string[];
+  // Everything created up to this time counts as read
+  readAllAt?: string;
+}
+
+const READ_STATE_KEY_PREFIX = 'notificationReadState_';
+const MAX_READ_IDS = 200;
+
+export const getNotificationReadState = (username: string): NotificationReadState => {
+  try {
+    const stored = localStorage.getItem(`${READ_STATE_KEY_PREFIX}${username}`);
+    return stored ? JSON.parse(stored) : { readIds: [] };
+  } catch {
+    return { readIds: [] };
+  }
+};
+
+const saveNotificationReadState = (username: string, state: NotificationReadState) => {
+  localStorage.setItem(`${READ_STATE_KEY_PREFIX}${username}`, JSON.stringify(state));
+  return state;
+};
+
+export const isNotificationRead = (notification: AppNotification, state: NotificationReadState): boolean =>
+  state.readIds.includes(notification.id)
+  || (!!state.readAllAt && new Date(notification.createdAt).getTime() <= new Date(state.readAllAt).getTime());
+
+export const markNotificationRead = (username: string, notificationId: string): NotificationReadState => {
+  const state = getNotificationReadState(username);
+  if (state.readIds.includes(notificationId)) return state;
+  return saveNotificationReadState(username, {
+    ...state,
+    readIds: [notificationId, ...state.readIds].slice(0, MAX_READ_IDS),
+  });
+};
+
+export const markAllNotificationsRead = (username: string): NotificationReadState =>
+  saveNotificationReadState(username, { readIds: [], readAllAt: new Date().toISOString() });
@@ -0,0 +1,182 @@
+import { apiRequest, fallbackOnNotFound, getApiUrl } from './apiClient';
+import { getZonedDateTime, zonedTimeToDate } from './timeZones';
+
+// Upcoming broadcasts a streamer publishes on their schedule. A segment is
+// either a one-off event or a weekly series; individual occurrences of a
+// series can be moved, retitled or cancelled through exceptions.
+export type ScheduleRecurrence =
+  | { frequency: 'none' }
+  | {
+      frequency: 'weekly';
+      // 0 = Sunday ... 6 = Saturday, in the segment's time zone
+      weekdays: number[];
+      // Last date (YYYY-MM-DD) an occurrence may fall on in the segment's time zone; open-ended when missing
+      until?: string;
+    };
+
+// Change to one occurrence of a series, keyed by the start it would have had
+export interface ScheduleException {
+  originalStart: string;
+  cancelled?: boolean;
+  title?: string;
+  category?: string;
+  startTime?: string;
+  durationMinutes?: number;
+}
+
+export interface ScheduleSegment {
+  id: string;
+  title: string;
+  category: string;
+  // Start of the first occurrence (ISO); later occurrences keep its wall-clock
+  // time of day in timeZone, across daylight saving changes
+  startTime: string;
+  // IANA zone the streamer scheduled in, e.g. "Europe/Berlin"
+  timeZone: string;
+  durationMinutes: number;
+  recurrence: ScheduleRecurrence;
+  exceptions: ScheduleException[];
+  // Last change to the segment or its exceptions (ISO)
+  updatedAt?: string;
+}
+
+export type ScheduleSegmentInput = Omit<ScheduleSegment, 'id' | 'exceptions' | 'updatedAt'>;
+
+// One concrete slot on the calendar
+export interface ScheduleOccurrence {
+  segmentId: string;
+  // Start before any exception; identifies the occurrence within its series
+  originalStart: string;
+  start: Date;
+  end: Date;
+  title: string;
+  category: string;
+  durationMinutes: number;
+  cancelled: boolean;
+  isRecurring: boolean;
+  // The segment's zone
+  timeZone: string;
+}
+
+interface ScheduleResponse {
+  segments: ScheduleSegment[];
+}
+
+interface ScheduleSegmentResponse {
+  segment: ScheduleSegment;
+}
+
+export const getSchedule = async (username: string): Promise<ScheduleSegment[]> => {
+  const data = await fallbackOnNotFound(
+    apiRequest<ScheduleResponse>(`/user/${encodeURIComponent(username)}/schedule`, {
+      errorMessage: 'Failed to load schedule',
+    }),
+    { segments: [] },
+  );
+  return data.segments;
+};
+
+export const createScheduleSegment = async (token: string, segment: ScheduleSegmentInput): Promise<ScheduleSegment> => {
+  const data = await apiRequest<ScheduleSegmentResponse>('/schedule', {
+    method: 'POST',
+    token,
+    body: segment,
+    errorMessage: 'Failed to add to schedule',
+  });
+  return data.segment;
+};
+
+export const updateScheduleSegment = async (token: string, segmentId: string, segment: ScheduleSegmentInput): Promise<ScheduleSegment> => {
+  const data = await apiRequest<ScheduleSegmentResponse>(`/schedule/${segmentId}`, {
+    method: 'PUT',
+    token,
+    body: segment,
+    errorMessage: 'Failed to update schedule',
+  });
+  return data.segment;
+};
+
+export const deleteScheduleSegment = async (token: string, segmentId: string): Promise<void> => {
+  await apiRequest<unknown>(`/schedule/${segmentId}`, {
+    method: 'DELETE',
+    token,
+    errorMessage: 'Failed to remove from schedule',
+  });
+};
+
+// Saves the exception for one occurrence, replacing any earlier one for the same originalStart
+export const updateScheduleOccurrence = async (token: string, segmentId: string, exception: ScheduleException): Promise<ScheduleSegment> => {
+  const data = await apiRequest<ScheduleSegmentResponse>(`/schedule/${segmentId}/exceptions`, {
+    method: 'PUT',
+    token,
+    body: exception,
+    errorMessage: 'Failed to update occurrence',
+  });
+  return data.segment;
+};
+
+// Subscribable iCalendar feed of the channel's schedule, served by the API
+export const getScheduleFeedUrl = (username: string): string =>
+  getApiUrl(`/user/${encodeURIComponent(username)}/schedule.ics`);
+
+const MS_PER_MINUTE = 60 * 1000;
+
+// Original starts of a segment's occurrences that begin before rangeEnd
+const getOriginalStarts = (segment: ScheduleSegment, rangeEnd: Date): Date[] => {
+  const first = new Date(segment.startTime);
+  if (segment.recurrence.frequency === 'none') return [first];
+
+  // Step through calendar days in the streamer's zone so every occurrence
+  // starts at the same local time, whatever the offset is that day
+  const zonedFirst = getZonedDateTime(first, segment.timeZone);
+  const weekdays = segment.recurrence.weekdays.length > 0 ? segment.recurrence.weekdays : [zonedFirst.weekday];
+  const until = segment.recurrence.until;
+  const starts: Date[] = [];
+  for (let offset = 0; ; offset++) {
+    const day = new Date(Date.UTC(zonedFirst.year, zonedFirst.month - 1, zonedFirst.day + offset));
+    if (until && day.toISOString().slice(0, 10) > until) break;
+    const start = zonedTimeToDate({
+      year: day.getUTCFullYear(),
+      month: day.getUTCMonth() + 1,
+      day: day.getUTCDate(),
+      hour: zonedFirst.hour,
+      minute: zonedFirst.minute,
+      second: zonedFirst.second,
+    }, segment.timeZone);
+    if (start >= rangeEnd) break;
+    if (weekdays.includes(day.getUTCDay())) starts.push(start);
+  }
+  return starts;
+};
+
+// Occurrences overlapping [rangeStart, rangeEnd), with exceptions applied, sorted by start
+export const expandSchedule = (segments: ScheduleSegment[], rangeStart: Date, rangeEnd: Date): ScheduleOccurrence[] => {
+  const occurrences: ScheduleOccurrence[] = [];
+
+  segments.forEach(segment => {
+    const exceptions = new Map(segment.exceptions.map(exception => [new Date(exception.originalStart).getTime(), exception]));
+
+    getOriginalStarts(segment, rangeEnd).forEach(originalStart => {
+      const exception = exceptions.get(originalStart.getTime());
+      const start = exception?.startTime ? new Date(exception.startTime) : originalStart;
+      const durationMinutes = exception?.durationMinutes ?? segment.durationMinutes;
+      const end = new Date(start.getTime() + durationMinutes * MS_PER_MINUTE);
+      if (end <= rangeStart || start >= rangeEnd) return;
+
+      occurrences.push({
+        segmentId: segment.id,
+        originalStart: originalStart.toISOString(),
+        start,
+        end,
+        title: exception?.title ?? segment.title,
+        category: exception?.category ?? segment.category,
+        durationMinutes,
+        cancelled: exception?.cancelled ?? false,
+        isRecurring: segment.recurrence.frequency !== 'none',
+        timeZone: segment.timeZone,
+      });
+    });
+  });
+
+  return occurrences.sort((a, b) => a.start.getTime() - b.start.getTime());
+};
@@ -0,0 +1,155 @@
+import { apiRequest, isApiError } from './apiClient';
+
+export type SessionTokenType = 'standard' | 'remember-me' | 'long-lived';
+
+export interface ActiveSession {
+  id: string;
+  device: string;
+  browser: string;
+  ipRegion?: string;
+  lastSeen: string;
+  createdAt: string;
+  tokenType: SessionTokenType;
+  // True for the session making the request
+  current: boolean;
+}
+
+interface SessionsResponse {
+  sessions: ActiveSession[];
+}
+
+interface RevokeSessionsResponse {
+  success: boolean;
+  revokedCount: number;
+}
+
+// Local stand-in for the sessions endpoints, used in development while the
+// backend does not serve them. Sessions live in localStorage so revoking sticks.
+const LOCAL_SESSIONS_KEY = 'devActiveSessions';
+
+const describeUserAgent = (userAgent: string): { device: string; browser: string } => {
+  let browser = 'Unknown browser';
+  if (userAgent.includes('Edg/')) browser = 'Edge';
+  else if (userAgent.includes('Firefox/')) browser = 'Firefox';
+  else if (userAgent.includes('Chrome/')) browser = 'Chrome';
+  else if (userAgent.includes('Safari/')) browser = 'Safari';
+
+  let device = 'Unknown device';
+  if (userAgent.includes('iPhone')) device = 'iPhone';
+  else if (userAgent.includes('iPad')) device = 'iPad';
+  else if (userAgent.includes('Android')) device = 'Android';
+  else if (userAgent.includes('Windows')) device = 'Windows PC';
+  else if (userAgent.includes('Mac OS X')) device = 'Mac';
+  else if (userAgent.includes('Linux')) device = 'Linux PC';
+
+  return { device, browser };
+};
+
+const readLocalSessions = (): ActiveSession[] => {
+  const now = Date.now();
+  const currentTokenType = (localStorage.getItem('authTokenType') as SessionTokenType | null) || 'standard';
+  const current: ActiveSession = {
+    id: 'current',
+    ...describeUserAgent(navigator.userAgent),
+    ipRegion: 'Local development',
+    lastSeen: new Date(now).toISOString(),
+    createdAt: new Date(now - 2 * 60 * 60 * 1000).toISOString(),
+    tokenType: currentTokenType,
+    current: true,
+  };
+
+  let others: ActiveSession[];
+  try {
+    const stored = localStorage.getItem(LOCAL_SESSIONS_KEY);
+    others = stored ? JSON.parse(stored) : [
+      {
+        id: 'dev-session-1',
+        device: 'iPhone',
+        browser: 'Safari',
+        ipRegion: 'Amsterdam, NL',
+        lastSeen: new Date(now - 3 * 60 * 60 * 1000).toISOString(),
+        createdAt: new Date(now - 12 * 24 * 60 * 60 * 1000).toISOString(),
+        tokenType: 'remember-me',
+        current: false,
+      },
+      {
+        id: 'dev-session-2',
+        device: 'Windows PC',
+        browser: 'Firefox',
+        ipRegion: 'Chicago, US',
+        lastSeen: new Date(now - 4 * 24 * 60 * 60 * 1000).toISOString(),
+        createdAt: new Date(now - 40 * 24 * 60 * 60 * 1000).toISOString(),
+        tokenType: 'long-lived',
+        current: false,
+      },
+    ];
+  } catch {
+    others = [];
+  }
+
+  return [current, ...others];
+};
+
+const writeLocalSessions = (sessions: ActiveSession[]) => {
+  localStorage.setItem(LOCAL_SESSIONS_KEY, JSON.stringify(sessions.filter(session => !session.current)));
+};
+
+// Fall back to the local stand-in only in development and only when the sessions
+// list itself is missing; a 404 for one session id means that session is gone
+let sessionsEndpointMissing = false;
+
+const shouldUseLocalStandIn = (error: unknown) => import.meta.env.DEV && isApiError(error, 'not_found');
+
+export const getActiveSessions = async (token: string): Promise<ActiveSession[]> => {
+  try {
+    const data = await apiRequest<SessionsResponse>('/user/sessions', {
+      token,
+      errorMessage: 'Failed to load active sessions',
+    });
+    sessionsEndpointMissing = false;
+    return data.sessions;
+  } catch (error) {
+    if (shouldUseLocalStandIn(error)) {
+      sessionsEndpointMissing = true;
+      console.log('Sessions endpoint not available, using local stand-in');
+      return readLocalSessions();
+    }
+    throw error;
+  }
+};
+
+export const revokeSession = async (token: string, sessionId: string): Promise<RevokeSessionsResponse> => {
+  try {
+    return await apiRequest<RevokeSessionsResponse>(`/user/sessions/${encodeURIComponent(sessionId)}`, {
+      method: 'DELETE',
+      token,
+      errorMessage: 'Failed to revoke session',
+    });
+  } catch (error) {
+    if (sessionsEndpointMissing && shouldUseLocalStandIn(error)) {
+      const sessions = readLocalSessions();
+      const remaining = sessions.filter(session => session.current || session.id !== sessionId);
+      writeLocalSessions(remaining);
+      return { success: true, revokedCount: sessions.length - remaining.length };
+    }
+    throw error;
+  }
+};
+
+// Sign out every session except the one making the request
+export const revokeOtherSessions = async (token: string): Promise<RevokeSessionsResponse> => {
+  try {
+    return await apiRequest<RevokeSessionsResponse>('/user/sessions/revoke-others', {
+      method: 'POST',
+      token,
+      errorMessage: 'Failed to sign out other sessions',
+    });
+  } catch (error) {
+    if (sessionsEndpointMissing && shouldUseLocalStandIn(error)) {
+      const sessions = readLocalSessions();
+      writeLocalSessions([]);
+      return { success: true, revokedCount: sessions.length - 1 };
+    }
+    throw error;
+  }
+};
@@ -1,3 +1,5 @@
+import { apiRequest, fallbackOnNotFound, isApiError } from './apiClient';
+
 interface StreamKeyData {
   streamKey: string;
   rtmpUrl: string;
@@ -17,104 +19,33 @@ interface RegenerateStreamKeyResponse {
   status: 'live' | 'offline' | 'online'; // Support both 'live' and 'online' for backend compatibility
 }
 
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
-
 export const getStreamKey = async (token: string): Promise<StreamKeyData> => {
-  console.log('🔑 Getting stream key, token provided:', !!token, 'length:', token?.length);
-  console.log('🔑 Token preview (first 20 chars):', token?.substring(0, 20));
-  
-  const response = await fetch(`${API_BASE_URL}/user/stream-key`, {
-    method: 'GET',
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
+  const data = await apiRequest<StreamKeyData>('/user/stream-key', {
+    token,
+    errorMessage: 'Failed to fetch stream key',
   });
-
-  if (!response.ok) {
-    console.log('❌ Stream key API error:', response.status, response.statusText);
-    
-    // Try to get error details from response
-    let errorDetails;
-    try {
-      errorDetails = await response.json();
-      console.log('❌ Error details:', errorDetails);
-    } catch (e) {
-      console.log('❌ Could not parse error response');
-    }
-    
-    // Handle invalid token specifically
-    if (response.status === 403 && errorDetails?.error === 'Invalid token') {
-      console.log('🚨 TOKEN EXPIRED - Analyzing token details:');
-      const token = localStorage.getItem('authToken');
-      const tokenType = localStorage.getItem('authTokenType');
-      
-      if (token) {
-        try {
-          const payload = JSON.parse(atob(token.split('.')[1]));
-          console.log('📊 Token details:');
-          console.log('  - Token type stored:', tokenType);
-          console.log('  - Token issued at (iat):', payload.iat ? new Date(payload.iat * 1000) : 'N/A');
-          console.log('  - Token expires at (exp):', payload.exp ? new Date(payload.exp * 1000) : 'N/A');
-          console.log('  - Current time:', new Date());
-          if (payload.exp) {
-            const timeLeft = new Date(payload.exp * 1000).getTime() - new Date().getTime();
-            if (timeLeft > 0) {
-              const days = Math.floor(timeLeft / (1000 * 60 * 60 * 24));
-              const hours = Math.floor((timeLeft % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
-              const minutes = Math.floor((timeLeft % (1000 * 60 * 60)) / (1000 * 60));
-              const timeDisplay = days > 0 ? `${days}d ${hours}h ${minutes}m` : `${hours}h ${minutes}m`;
-              console.log('  - Time until expiry:', timeDisplay);
-            } else {
-              console.log('  - Time until expiry: EXPIRED');
-            }
-          }
-        } catch (e) {
-          console.log('❌ Failed to decode token for analysis');
-        }
-      }
-      
-      // Clear the invalid token from storage
-      localStorage.removeItem('authToken');
-      sessionStorage.removeItem('authToken');
-      throw new Error('Your session has expired. Please log in again.');
-    }
-    
-    throw new Error(errorDetails?.message || errorDetails?.error || 'Failed to fetch stream key');
-  }
-
-  const data = await response.json();
   console.log('Stream key data fetched successfully (not logging sensitive data)');
   return data;
 };
 
 export const regenerateStreamKey = async (token: string): Promise<RegenerateStreamKeyResponse> => {
-  const response = await fetch(`${API_BASE_URL}/user/regenerate-stream-key`, {
+  return apiRequest<RegenerateStreamKeyResponse>('/user/regenerate-stream-key', {
     method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
+    token,
+    errorMessage: 'Failed to regenerate stream key',
   });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.message || 'Failed to regenerate stream key');
-  }
-
-  return await response.json();
 };
 
 export const testRTMPAuth = async (streamKey: string): Promise<boolean> => {
-  const response = await fetch(`${API_BASE_URL}/auth/rtmp`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body: `name=${encodeURIComponent(streamKey)}`,
-  });
-
-  return response.ok;
+  try {
+    await apiRequest<unknown>('/auth/rtmp', {
+      method: 'POST',
+      body: new URLSearchParams({ name: streamKey }),
+    });
+    return true;
+  } catch {
+    return false;
+  }
 };
 
 interface PublicStreamData {
@@ -138,58 +69,27 @@ interface PublicStreamData {
 }
 
 export const getPublicStreamData = async (username: string): Promise<PublicStreamData> => {
-  const response = await fetch(`${API_BASE_URL}/user/${username}/stream`, {
-    method: 'GET',
-    headers: {
-      'Content-Type': 'application/json',
-    },
+  return apiRequest<PublicStreamData>(`/user/${username}/stream`, {
+    errorMessage: 'Failed to fetch stream data',
   });
-
-  if (!response.ok) {
-    if (response.status === 404) {
-      throw new Error('Streamer not found (404)');
-    }
-    const error = await response.json().catch(() => ({}));
-    throw new Error(error.message || `Failed to fetch stream data (${response.status})`);
-  }
-
-  return await response.json();
 };
 
 // Get follower count for a specific user (public endpoint)
 export const getPublicFollowerCount = async (username: string): Promise<{ followerCount: number }> => {
   // First try the dedicated count endpoint
   try {
-    const response = await fetch(`${API_BASE_URL}/user/${username}/followers/count`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (response.ok) {
-      return await response.json();
-    }
-  } catch (error) {
+    return await apiRequest<{ followerCount: number }>(`/user/${username}/followers/count`);
+  } catch {
     console.log('Dedicated count endpoint not available, trying alternative approach');
   }
 
   // Fallback: Try to get the count from the channel/stream endpoint
   try {
-    const streamResponse = await fetch(`${API_BASE_URL}/user/${username}/stream`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (streamResponse.ok) {
-      const streamData = await streamResponse.json();
-      if (streamData.followerCount !== undefined) {
-        return { followerCount: streamData.followerCount };
-      }
+    const streamData = await getPublicStreamData(username);
+    if (streamData.followerCount !== undefined) {
+      return { followerCount: streamData.followerCount };
     }
-  } catch (error) {
+  } catch {
     console.log('Could not get follower count from stream endpoint');
   }
 
@@ -214,24 +114,14 @@ interface SearchResponse {
 }
 
 export const searchUsers = async (query: string): Promise<SearchResponse> => {
-  const response = await fetch(`${API_BASE_URL}/search/users?q=${encodeURIComponent(query)}`, {
-    method: 'GET',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    // If search endpoint doesn't exist, return empty results
-    if (response.status === 404) {
-      console.log('User search endpoint not available');
-      return { users: [], totalCount: 0 };
-    }
-    const error = await response.json();
-    throw new Error(error.message || 'Failed to search users');
-  }
-
-  return await response.json();
+  // If search endpoint doesn't exist, return empty results
+  return fallbackOnNotFound(
+    apiRequest<SearchResponse>('/search/users', {
+      query: { q: query },
+      errorMessage: 'Failed to search users',
+    }),
+    { users: [], totalCount: 0 },
+  );
 };
 
 interface UserProfile {
@@ -259,38 +149,19 @@ interface UpdateProfileResponse {
 }
 
 export const getUserProfile = async (token: string): Promise<UserProfile> => {
-  const response = await fetch(`${API_BASE_URL}/user/profile`, {
-    method: 'GET',
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
+  return apiRequest<UserProfile>('/user/profile', {
+    token,
+    errorMessage: 'Failed to fetch user profile',
   });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.message || 'Failed to fetch user profile');
-  }
-
-  return await response.json();
 };
 
 export const updateUserProfile = async (token: string, profileData: UpdateProfileData): Promise<UpdateProfileResponse> => {
-  const response = await fetch(`${API_BASE_URL}/user/profile`, {
+  return apiRequest<UpdateProfileResponse>('/user/profile', {
     method: 'PUT',
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(profileData),
+    token,
+    body: profileData,
+    errorMessage: 'Failed to update profile',
   });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.message || 'Failed to update profile');
-  }
-
-  return await response.json();
 };
 
 // Follow/Unfollow functionality
@@ -301,54 +172,27 @@ interface FollowResponse {
 }
 
 export const followUser = async (token: string, username: string): Promise<FollowResponse> => {
-  const response = await fetch(`${API_BASE_URL}/user/${username}/follow`, {
+  return apiRequest<FollowResponse>(`/user/${username}/follow`, {
     method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
+    token,
+    errorMessage: 'Failed to follow user',
   });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.message || 'Failed to follow user');
-  }
-
-  return await response.json();
 };
 
 export const unfollowUser = async (token: string, username: string): Promise<FollowResponse> => {
-  const response = await fetch(`${API_BASE_URL}/user/${username}/unfollow`, {
+  return apiRequest<FollowResponse>(`/user/${username}/unfollow`, {
     method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
+    token,
+    errorMessage: 'Failed to unfollow user',
   });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.message || 'Failed to unfollow user');
-  }
-
-  return await response.json();
 };
 
-export const checkFollowStatus = async (token: string, username: string): Promise<{ isFollowing: boolean }> => {
-  const response = await fetch(`${API_BASE_URL}/user/${username}/follow-status`, {
-    method: 'GET',
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
+// followedAt is included when following, for follow-age checks like followers-only chat
+export const checkFollowStatus = async (token: string, username: string): Promise<{ isFollowing: boolean; followedAt?: string }> => {
+  return apiRequest<{ isFollowing: boolean; followedAt?: string }>(`/user/${username}/follow-status`, {
+    token,
+    errorMessage: 'Failed to check follow status',
   });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.message || 'Failed to check follow status');
-  }
-
-  return await response.json();
 };
 
 // Followers and Subscribers functionality
@@ -377,119 +221,19 @@ interface UserSubscriptionsResponse {
 }
 
 export const getMyFollowers = async (token: string): Promise<FollowersResponse> => {
-  const response = await fetch(`${API_BASE_URL}/user/followers`, {
-    method: 'GET',
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-    try {
-      const contentType = response.headers.get('content-type');
-      if (contentType && contentType.includes('application/json')) {
-        const error = await response.json();
-        errorMessage = error.message || error.error || errorMessage;
-      } else {
-        const text = await response.text();
-        if (text.includes('<!DOCTYPE') || text.includes('<html>')) {
-          errorMessage = `Server returned HTML instead of JSON. Status: ${response.status}`;
-        } else {
-          errorMessage = text || errorMessage;
-        }
-      }
-    } catch (parseError) {
-      // Keep the original error message if we can't parse the response
-    }
-    throw new Error(errorMessage);
-  }
-
-  try {
-    return await response.json();
-  } catch (parseError) {
-    throw new Error('Server returned invalid JSON response');
-  }
+  return apiRequest<FollowersResponse>('/user/followers', { token });
 };
 
 export const getMySubscribers = async (token: string): Promise<SubscribersResponse> => {
-  const response = await fetch(`${API_BASE_URL}/user/subscribers`, {
-    method: 'GET',
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-    try {
-      const contentType = response.headers.get('content-type');
-      if (contentType && contentType.includes('application/json')) {
-        const error = await response.json();
-        errorMessage = error.message || error.error || errorMessage;
-      } else {
-        const text = await response.text();
-        if (text.includes('<!DOCTYPE') || text.includes('<html>')) {
-          errorMessage = `Server returned HTML instead of JSON. Status: ${response.status}`;
-        } else {
-          errorMessage = text || errorMessage;
-        }
-      }
-    } catch (parseError) {
-      // Keep the original error message if we can't parse the response
-    }
-    throw new Error(errorMessage);
-  }
-
-  try {
-    return await response.json();
-  } catch (parseError) {
-    throw new Error('Server returned invalid JSON response');
-  }
+  return apiRequest<SubscribersResponse>('/user/subscribers', { token });
 };
 
 export const getUserSubscriptions = async (token: string): Promise<UserSubscriptionsResponse> => {
-  const response = await fetch(`${API_BASE_URL}/user/subscriptions`, {
-    method: 'GET',
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-    try {
-      const contentType = response.headers.get('content-type');
-      if (contentType && contentType.includes('application/json')) {
-        const error = await response.json();
-        errorMessage = error.message || error.error || errorMessage;
-      } else {
-        // If it's not JSON, it might be an HTML error page
-        const text = await response.text();
-        if (text.includes('<!DOCTYPE') || text.includes('<html>')) {
-          errorMessage = `Server returned HTML instead of JSON. Status: ${response.status}`;
-        } else {
-          errorMessage = text || errorMessage;
-        }
-      }
-    } catch (parseError) {
-      // Keep the original error message if we can't parse the response
-    }
-    throw new Error(errorMessage);
-  }
-
-  try {
-    return await response.json();
-  } catch (parseError) {
-    throw new Error('Server returned invalid JSON response');
-  }
+  return apiRequest<UserSubscriptionsResponse>('/user/subscriptions', { token });
 };
 
 // Activity Feed functionality
-interface ActivityItem {
+export interface ActivityItem {
   id: number;
   type: 'follow' | 'unfollow' | 'subscribe';
   username: string;
@@ -503,70 +247,11 @@ interface ActivityFeedResponse {
 }
 
 export const getActivityFeed = async (token: string, limit: number = 10): Promise<ActivityFeedResponse> => {
-  const url = `${API_BASE_URL}/user/activity?limit=${limit}`;
-  console.log('🌐 ACTIVITY API - Making request to:', url);
-  console.log('🌐 ACTIVITY API - Token (first 20 chars):', token?.substring(0, 20) + '...');
-  console.log('🌐 ACTIVITY API - API_BASE_URL:', API_BASE_URL);
-  
-  const headers = {
-    'Authorization': `Bearer ${token}`,
-    'Content-Type': 'application/json',
-  };
-  console.log('🌐 ACTIVITY API - Request headers:', headers);
-  
-  const response = await fetch(url, {
-    method: 'GET',
-    headers,
-  });
-
-  console.log('🌐 ACTIVITY API - Response status:', response.status);
-  console.log('🌐 ACTIVITY API - Response statusText:', response.statusText);
-  console.log('🌐 ACTIVITY API - Response headers:', Object.fromEntries(response.headers.entries()));
-
-  if (!response.ok) {
-    console.error('🌐 ACTIVITY API - Request failed with status:', response.status);
-    
-    // If the endpoint doesn't exist yet, return empty data
-    if (response.status === 404) {
-      console.log('⚠️ Activity feed endpoint not available yet (404)');
-      return { activities: [], totalCount: 0 };
-    }
-    
-    // Check for authentication issues
-    if (response.status === 401) {
-      console.error('🌐 ACTIVITY API - Authentication failed! Token may be invalid or expired');
-      console.error('🌐 ACTIVITY API - Current token:', token);
-    }
-    
-    let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-    try {
-      const contentType = response.headers.get('content-type');
-      if (contentType && contentType.includes('application/json')) {
-        const error = await response.json();
-        console.log('🌐 ACTIVITY API - Error response body:', error);
-        errorMessage = error.message || error.error || errorMessage;
-      } else {
-        const text = await response.text();
-        console.log('🌐 ACTIVITY API - Non-JSON error response:', text);
-      }
-    } catch (parseError) {
-      console.log('🌐 ACTIVITY API - Failed to parse error response:', parseError);
-    }
-    throw new Error(errorMessage);
-  }
-
-  try {
-    const jsonData = await response.json();
-    console.log('🌐 ACTIVITY API - Success response body:', jsonData);
-    console.log('🌐 ACTIVITY API - Activities count:', jsonData.activities?.length || 0);
-    console.log('🌐 ACTIVITY API - Total count:', jsonData.totalCount);
-    return jsonData;
-  } catch (parseError) {
-    console.error('🌐 ACTIVITY API - Failed to parse JSON response:', parseError);
-    const textResponse = await response.text();
-    console.error('🌐 ACTIVITY API - Raw response text:', textResponse);
-    throw new Error('Server returned invalid JSON response');
-  }
+  // If the endpoint doesn't exist yet, return empty data
+  return fallbackOnNotFound(
+    apiRequest<ActivityFeedResponse>('/user/activity', { token, query: { limit } }),
+    { activities: [], totalCount: 0 },
+  );
 };
 
 // Stream Title Management
@@ -576,50 +261,31 @@ interface UpdateStreamTitleResponse {
   title: string;
 }
 
+// Stream titles fall back to localStorage, keyed by the user id in the token
+const getStreamTitleStorageKey = (token: string): string | null => {
+  const payload = JSON.parse(atob(token.split('.')[1]));
+  const userId = payload.sub || payload.id || payload.userId;
+  return userId ? `streamTitle_${userId}` : null;
+};
+
 // Stream title management - attempts backend API first, falls back to localStorage
 export const updateStreamTitle = async (token: string, title: string): Promise<UpdateStreamTitleResponse> => {
   try {
-    // Try backend API first
-    const response = await fetch(`${API_BASE_URL}/user/stream-title`, {
+    const data = await apiRequest<UpdateStreamTitleResponse>('/user/stream-title', {
       method: 'PUT',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ title }),
+      token,
+      body: { title },
     });
-
-    if (response.ok) {
-      const data = await response.json();
-      console.log('Stream title updated via backend API:', title);
-      return data;
-    } else {
-      console.log('Backend API not available, using localStorage fallback');
-      // Fallback to localStorage
-      const payload = JSON.parse(atob(token.split('.')[1]));
-      const userId = payload.sub || payload.id || payload.userId;
-      
-      if (userId) {
-        localStorage.setItem(`streamTitle_${userId}`, title);
-      }
-      
-      return {
-        success: true,
-        message: 'Stream title updated successfully (stored locally)',
-        title: title
-      };
-    }
+    console.log('Stream title updated via backend API:', title);
+    return data;
   } catch (error) {
-    console.error('API error, falling back to localStorage:', error);
-    // Fallback to localStorage
+    console.log('Backend API not available, using localStorage fallback:', error);
     try {
-      const payload = JSON.parse(atob(token.split('.')[1]));
-      const userId = payload.sub || payload.id || payload.userId;
-      
-      if (userId) {
-        localStorage.setItem(`streamTitle_${userId}`, title);
+      const storageKey = getStreamTitleStorageKey(token);
+      if (storageKey) {
+        localStorage.setItem(storageKey, title);
       }
-      
+
       return {
         success: true,
         message: 'Stream title updated successfully (stored locally)',
@@ -634,45 +300,14 @@ export const updateStreamTitle = async (token: string, title: string): Promise<U
 
 export const getStreamTitle = async (token: string): Promise<{ title: string }> => {
   try {
-    // Try backend API first
-    const response = await fetch(`${API_BASE_URL}/user/stream-title`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (response.ok) {
-      const data = await response.json();
-      console.log('Stream title retrieved from backend API:', data.title);
-      return data;
-    } else {
-      console.log('Backend API not available, using localStorage fallback');
-      // Fallback to localStorage
-      const payload = JSON.parse(atob(token.split('.')[1]));
-      const userId = payload.sub || payload.id || payload.userId;
-      
-      let title = '';
-      if (userId) {
-        title = localStorage.getItem(`streamTitle_${userId}`) || '';
-      }
-      
-      return { title };
-    }
+    const data = await apiRequest<{ title: string }>('/user/stream-title', { token });
+    console.log('Stream title retrieved from backend API:', data.title);
+    return data;
   } catch (error) {
-    console.error('API error, falling back to localStorage:', error);
-    // Fallback to localStorage
+    console.log('Backend API not available, using localStorage fallback:', error);
     try {
-      const payload = JSON.parse(atob(token.split('.')[1]));
-      const userId = payload.sub || payload.id || payload.userId;
-      
-      let title = '';
-      if (userId) {
-        title = localStorage.getItem(`streamTitle_${userId}`) || '';
-      }
-      
-      return { title };
+      const storageKey = getStreamTitleStorageKey(token);
+      return { title: (storageKey && localStorage.getItem(storageKey)) || '' };
     } catch (fallbackError) {
       console.error('Both API and localStorage failed:', fallbackError);
       return { title: '' };
@@ -691,20 +326,12 @@ export const uploadProfilePicture = async (token: string, file: File): Promise<P
   const formData = new FormData();
   formData.append('profilePicture', file);
 
-  const response = await fetch(`${API_BASE_URL}/user/profile-picture`, {
+  return apiRequest<ProfilePictureUploadResponse>('/user/profile-picture', {
     method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${token}`,
-    },
+    token,
     body: formData,
+    errorMessage: 'Failed to upload profile picture',
   });
-
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ message: 'Failed to upload profile picture' }));
-    throw new Error(error.message || 'Failed to upload profile picture');
-  }
-
-  return await response.json();
 };
 
 // Long-term cache for profile data (localStorage-backed for persistence)
@@ -747,29 +374,10 @@ export const getPublicUserProfile = async (username: string): Promise<{ profileP
 
   // Only make API call if we don't have recent cached data
   try {
-    const response = await fetch(`${API_BASE_URL}/user/${username}/profile`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-  
-    if (!response.ok) {
-      // If rate limited or error, return cached data if available (even if expired)
-      if (cached) {
-        console.log(`API error for ${username}, using cached data`);
-        return cached.data;
-      }
-      
-      // If no cached data, return empty result and cache it briefly
-      const emptyResult = { profilePicture: undefined, bio: undefined, username: undefined, followerCount: undefined };
-      profileCache.set(username, { data: emptyResult, timestamp: Date.now() });
-      saveCacheToStorage();
-      return emptyResult;
-    }
+    const data = await apiRequest<{ profilePicture?: string; bio?: string; username?: string; followerCount?: number }>(
+      `/user/${username}/profile`,
+    );
 
-    const data = await response.json();
-    
     const result = { 
       profilePicture: data.profilePicture,
       bio: data.bio,
@@ -783,15 +391,23 @@ export const getPublicUserProfile = async (username: string): Promise<{ profileP
     
     return result;
   } catch (error) {
-    console.error(`Error fetching profile for ${username}:`, error);
-    
-    // On network errors, use cached data if available (even if expired)
+    // If rate limited or error, return cached data if available (even if expired)
     if (cached) {
+      console.log(`API error for ${username}, using cached data`);
       return cached.data;
     }
-    
-    // If no cached data available, return empty result
-    return { profilePicture: undefined, bio: undefined, username: undefined, followerCount: undefined };
+
+    const emptyResult = { profilePicture: undefined, bio: undefined, username: undefined, followerCount: undefined };
+
+    // The server answered but had nothing usable - cache the empty result briefly
+    if (isApiError(error) && error.status > 0) {
+      profileCache.set(username, { data: emptyResult, timestamp: Date.now() });
+      saveCacheToStorage();
+    } else {
+      console.error(`Error fetching profile for ${username}:`, error);
+    }
+
+    return emptyResult;
   }
 };
 
@@ -835,28 +451,17 @@ interface PastStreamsResponse {
 }
 
 export const getPastStreams = async (username: string): Promise<PastStreamsResponse> => {
-  const response = await fetch(`${API_BASE_URL}/user/${username}/past-streams`, {
-    method: 'GET',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    // If past streams endpoint doesn't exist, return empty results
-    if (response.status === 404) {
-      console.log('Past streams endpoint not available');
-      return { streams: [], totalCount: 0 };
-    }
-    const error = await response.json();
-    throw new Error(error.message || 'Failed to fetch past streams');
-  }
-
-  return await response.json();
+  // If past streams endpoint doesn't exist, return empty results
+  return fallbackOnNotFound(
+    apiRequest<PastStreamsResponse>(`/user/${username}/past-streams`, {
+      errorMessage: 'Failed to fetch past streams',
+    }),
+    { streams: [], totalCount: 0 },
+  );
 };
 
 // VoDs and Clips functionality
-interface VideoItem {
+export interface VideoItem {
   id: string;
   title: string;
   thumbnailUrl?: string;
@@ -864,6 +469,19 @@ interface VideoItem {
   viewCount: number;
   createdAt: string;
   description?: string;
+  // HLS or MP4 URL; missing while the video is still processing
+  playbackUrl?: string;
+}
+
+export type VideoSort = 'newest' | 'most_viewed' | 'longest';
+
+export interface VideoListOptions {
+  page?: number; // 1-based
+  limit?: number;
+  sort?: VideoSort;
+  // Inclusive date range as YYYY-MM-DD
+  from?: string;
+  to?: string;
 }
 
 interface VoDsResponse {
@@ -876,141 +494,207 @@ interface ClipsResponse {
   totalCount: number;
 }
 
-export const getVoDs = async (username: string): Promise<VoDsResponse> => {
-  const response = await fetch(`${API_BASE_URL}/user/${username}/vods`, {
-    method: 'GET',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-  });
+const videoListQuery = (options: VideoListOptions) => ({
+  page: options.page,
+  limit: options.limit,
+  sort: options.sort,
+  from: options.from || undefined,
+  to: options.to || undefined,
+});
+
+export const getVoDs = async (username: string, options: VideoListOptions = {}): Promise<VoDsResponse> => {
+  // If VoDs endpoint doesn't exist, return empty results
+  return fallbackOnNotFound(
+    apiRequest<VoDsResponse>(`/user/${username}/vods`, {
+      query: videoListQuery(options),
+      errorMessage: 'Failed to fetch VoDs',
+    }),
+    { videos: [], totalCount: 0 },
+  );
+};
 
-  if (!response.ok) {
-    // If VoDs endpoint doesn't exist, return empty results
-    if (response.status === 404) {
-      console.log('VoDs endpoint not available');
-      return { videos: [], totalCount: 0 };
-    }
-    const error = await response.json();
-    throw new Error(error.message || 'Failed to fetch VoDs');
-  }
+export const getClips = async (username: string, options: VideoListOptions = {}): Promise<ClipsResponse> => {
+  // If clips endpoint doesn't exist, return empty results
+  return fallbackOnNotFound(
+    apiRequest<ClipsResponse>(`/user/${username}/clips`, {
+      query: videoListQuery(options),
+      errorMessage: 'Failed to fetch clips',
+    }),
+    { clips: [], totalCount: 0 },
+  );
+};
 
-  return await response.json();
+export const getVideo = async (videoId: string): Promise<VideoItem> => {
+  const data = await apiRequest<{ video: VideoItem }>(`/videos/${videoId}`, {
+    errorMessage: 'Failed to fetch video',
+  });
+  return data.video;
 };
 
-export const getClips = async (username: string): Promise<ClipsResponse> => {
-  const response = await fetch(`${API_BASE_URL}/user/${username}/clips`, {
-    method: 'GET',
-    headers: {
-      'Content-Type': 'application/json',
+// Stream markers: moments the streamer marks during a broadcast, shown as
+// chapters on the past broadcast
+export interface StreamMarker {
+  id: string;
+  label: string;
+  // Seconds from the start of the broadcast
+  offsetSeconds: number;
+  createdAt: string;
+}
+
+// Marks the current moment of the streamer's live broadcast
+export const createStreamMarker = async (token: string, label?: string): Promise<StreamMarker> => {
+  const data = await apiRequest<{ marker: StreamMarker }>('/stream/markers', {
+    method: 'POST',
+    token,
+    body: {
+      label: label?.trim() || undefined,
     },
+    errorMessage: 'Failed to place marker',
   });
+  return data.marker;
+};
 
-  if (!response.ok) {
-    // If clips endpoint doesn't exist, return empty results
-    if (response.status === 404) {
-      console.log('Clips endpoint not available');
-      return { clips: [], totalCount: 0 };
-    }
-    const error = await response.json();
-    throw new Error(error.message || 'Failed to fetch clips');
-  }
+// Markers placed so far in the streamer's current broadcast
+export const getCurrentStreamMarkers = async (token: string): Promise<StreamMarker[]> => {
+  const data = await fallbackOnNotFound(
+    apiRequest<{ markers: StreamMarker[] }>('/stream/markers', {
+      token,
+      errorMessage: 'Failed to fetch markers',
+    }),
+    { markers: [] },
+  );
+  return data.markers;
+};
 
-  return await response.json();
+export const getVideoMarkers = async (videoId: string): Promise<StreamMarker[]> => {
+  const data = await fallbackOnNotFound(
+    apiRequest<{ markers: StreamMarker[] }>(`/videos/${videoId}/markers`, {
+      errorMessage: 'Failed to fetch chapters',
+    }),
+    { markers: [] },
+  );
+  return data.markers;
 };
 
-// Create clip functionality (for future clip button implementation)
+// Clip creation: the viewer picks a range within the last few seconds of the
+// stream they were watching, and the backend cuts it from the live recording
+export type ClipStatus = 'processing' | 'ready' | 'failed';
+
+export interface ClipRange {
+  // Wall-clock time of the frame on screen when the viewer pressed clip
+  capturedAt: string;
+  // Clip start and end, in seconds before capturedAt
+  startSecondsBefore: number;
+  endSecondsBefore: number;
+}
+
 interface CreateClipResponse {
   success: boolean;
   message: string;
   clipId?: string;
   clipUrl?: string;
+  status?: ClipStatus;
 }
 
-export const createClip = async (token: string, streamId: string, title?: string): Promise<CreateClipResponse> => {
-  const response = await fetch(`${API_BASE_URL}/stream/${streamId}/clip`, {
+export const createClip = async (token: string, streamId: string, title?: string, range?: ClipRange): Promise<CreateClipResponse> => {
+  return apiRequest<CreateClipResponse>(`/stream/${streamId}/clip`, {
     method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
+    token,
+    body: {
       title: title || 'Untitled Clip',
-      // Backend will handle capturing the last 30 seconds
-    }),
+      // Without a range the backend captures the last 30 seconds
+      ...range,
+    },
+    errorMessage: 'Failed to create clip',
+  });
+};
+
+export interface ClipDetails extends VideoItem {
+  status: ClipStatus;
+  // Processing progress from 0 to 100, when the backend reports it
+  progress?: number;
+}
+
+export const getClip = async (clipId: string): Promise<ClipDetails> => {
+  const data = await apiRequest<{ clip: ClipDetails }>(`/clips/${clipId}`, {
+    errorMessage: 'Failed to fetch clip',
   });
+  return data.clip;
+};
+
+// Clips made in this browser, shown on the channel's clips page until the
+// clip list includes them; dropped after a day in case it never does
+interface RecentClip {
+  id: string;
+  createdAt: number;
+}
 
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.message || 'Failed to create clip');
+const RECENT_CLIPS_KEY_PREFIX = 'recentClips_';
+const RECENT_CLIP_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+const loadRecentClips = (username: string): RecentClip[] => {
+  try {
+    const stored: RecentClip[] = JSON.parse(localStorage.getItem(`${RECENT_CLIPS_KEY_PREFIX}${username}`) || '[]');
+    return stored.filter(clip => Date.now() - clip.createdAt < RECENT_CLIP_MAX_AGE_MS);
+  } catch {
+    return [];
   }
+};
 
-  return await response.json();
+const saveRecentClips = (username: string, clips: RecentClip[]) => {
+  if (clips.length === 0) {
+    localStorage.removeItem(`${RECENT_CLIPS_KEY_PREFIX}${username}`);
+  } else {
+    localStorage.setItem(`${RECENT_CLIPS_KEY_PREFIX}${username}`, JSON.stringify(clips));
+  }
+};
+
+export const getRecentClipIds = (username: string): string[] =>
+  loadRecentClips(username).map(clip => clip.id);
+
+export const addRecentClip = (username: string, clipId: string) => {
+  saveRecentClips(username, [{ id: clipId, createdAt: Date.now() }, ...loadRecentClips(username)]);
+};
+
+export const removeRecentClips = (username: string, clipIds: string[]) => {
+  saveRecentClips(username, loadRecentClips(username).filter(clip => !clipIds.includes(clip.id)));
 };
 
 // Password management functionality
 export const changePassword = async (token: string, currentPassword: string, newPassword: string): Promise<{ message: string }> => {
-  const response = await fetch(`${API_BASE_URL}/user/change-password`, {
+  return apiRequest<{ message: string }>('/user/change-password', {
     method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
+    token,
+    body: {
       currentPassword,
       newPassword,
-    }),
+    },
+    skipSessionRefresh: true,
+    errorMessage: 'Failed to change password',
   });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.message || 'Failed to change password');
-  }
-
-  const data = await response.json();
-  return data;
 };
 
 export const requestPasswordReset = async (email: string): Promise<{ message: string }> => {
-  const response = await fetch(`${API_BASE_URL}/auth/request-password-reset`, {
+  return apiRequest<{ message: string }>('/auth/request-password-reset', {
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({ email }),
+    body: { email },
+    errorMessage: 'Failed to request password reset',
   });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.message || 'Failed to request password reset');
-  }
-
-  const data = await response.json();
-  return data;
 };
 
 // Thumbnail cleanup function
 export const cleanupStreamThumbnails = async (token: string, streamId: string) => {
   try {
-    const response = await fetch(`${API_BASE_URL}/stream/${streamId}/cleanup-thumbnails`, {
-      method: 'DELETE',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      // Don't throw error if cleanup endpoint doesn't exist yet
-      if (response.status === 404) {
-        return;
-      }
-      const error = await response.json().catch(() => ({ message: 'Failed to cleanup thumbnails' }));
-      throw new Error(error.message || 'Failed to cleanup thumbnails');
-    }
-
-    const result = await response.json().catch(() => ({}));
-    return result;
-  } catch (error) {
+    // Don't fail if cleanup endpoint doesn't exist yet
+    return await fallbackOnNotFound(
+      apiRequest<unknown>(`/stream/${streamId}/cleanup-thumbnails`, {
+        method: 'DELETE',
+        token,
+        errorMessage: 'Failed to cleanup thumbnails',
+      }),
+      undefined,
+    );
+  } catch {
     // Don't throw - thumbnail cleanup should be non-blocking
   }
 };
@@ -1052,25 +736,16 @@ export const joinStream = async (streamId: string): Promise<ViewerTrackingRespon
     const viewerId = getViewerId();
     console.log(`🔗 Joining stream ${streamId} with viewerId: ${viewerId}`);
     
-    const response = await fetch(`${API_BASE_URL}/streams/${streamId}/join`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ viewerId }),
-    });
-
-    if (!response.ok) {
-      // If endpoint doesn't exist yet, return mock success
-      if (response.status === 404) {
-        console.log('Stream join endpoint not available yet');
-        return { success: true, viewerCount: 1 };
-      }
-      const error = await response.json().catch(() => ({ message: 'Failed to join stream' }));
-      throw new Error(error.message || 'Failed to join stream');
-    }
+    // If endpoint doesn't exist yet, return mock success
+    const result = await fallbackOnNotFound(
+      apiRequest<ViewerTrackingResponse>(`/streams/${streamId}/join`, {
+        method: 'POST',
+        body: { viewerId },
+        errorMessage: 'Failed to join stream',
+      }),
+      { success: true, viewerCount: 1 },
+    );
 
-    const result = await response.json();
     console.log(`✅ Successfully joined stream ${streamId}, viewer count: ${result.viewerCount}`);
     return result;
   } catch (error) {
@@ -1085,25 +760,16 @@ export const leaveStream = async (streamId: string): Promise<ViewerTrackingRespo
     const viewerId = getViewerId();
     console.log(`🔗 Leaving stream ${streamId} with viewerId: ${viewerId}`);
     
-    const response = await fetch(`${API_BASE_URL}/streams/${streamId}/leave`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ viewerId }),
-    });
+    // If endpoint doesn't exist yet, return mock success
+    const result = await fallbackOnNotFound(
+      apiRequest<ViewerTrackingResponse>(`/streams/${streamId}/leave`, {
+        method: 'POST',
+        body: { viewerId },
+        errorMessage: 'Failed to leave stream',
+      }),
+      { success: true, viewerCount: 0 },
+    );
 
-    if (!response.ok) {
-      // If endpoint doesn't exist yet, return mock success
-      if (response.status === 404) {
-        console.log('Stream leave endpoint not available yet');
-        return { success: true, viewerCount: 0 };
-      }
-      const error = await response.json().catch(() => ({ message: 'Failed to leave stream' }));
-      throw new Error(error.message || 'Failed to leave stream');
-    }
-
-    const result = await response.json();
     console.log(`✅ Successfully left stream ${streamId}, viewer count: ${result.viewerCount}`);
     return result;
   } catch (error) {
@@ -1120,7 +786,7 @@ export const cleanupPreviousViewerSession = async (streamId: string): Promise<vo
     
     // Always try to leave in case we were previously viewing this stream
     await leaveStream(streamId);
-  } catch (error) {
+  } catch {
     // Silently ignore cleanup errors
     console.log('Previous session cleanup completed (errors ignored)');
   }
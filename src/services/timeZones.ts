@@ -0,0 +1,128 @@
+// IANA time zone helpers built on Intl, for schedule times that have to be
+// expressed in a zone other than the browser's.
+
+export interface ZonedDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const getBrowserTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// Wall-clock fields of an instant in the given zone
+export const getZonedDateTime = (date: Date, timeZone: string): ZonedDateTime => {
+  const parts: Record<string, string> = {};
+  getFormatter(timeZone).formatToParts(date).forEach(part => {
+    parts[part.type] = part.value;
+  });
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    hour: parseInt(parts.hour, 10),
+    minute: parseInt(parts.minute, 10),
+    second: parseInt(parts.second, 10),
+    weekday: WEEKDAY_INDEX[parts.weekday] ?? 0,
+  };
+};
+
+// Calendar date of an instant in the given zone, as YYYY-MM-DD
+export const getZonedDateKey = (date: Date, timeZone: string): string => {
+  const zoned = getZonedDateTime(date, timeZone);
+  return `${zoned.year}-${zoned.month.toString().padStart(2, '0')}-${zoned.day.toString().padStart(2, '0')}`;
+};
+
+// Short label for the zone at the given instant, e.g. "EST" or "GMT+2"
+export const getTimeZoneAbbreviation = (date: Date, timeZone: string): string => {
+  const part = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(date)
+    .find(item => item.type === 'timeZoneName');
+  return part?.value ?? timeZone;
+};
+
+// Minutes the zone is ahead of UTC at the given instant (e.g. -300 for New York in winter)
+export const getTimeZoneOffsetMinutes = (date: Date, timeZone: string): number => {
+  const zoned = getZonedDateTime(date, timeZone);
+  const asUtc = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute, zoned.second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+};
+
+// Instant at which the zone's wall clock shows the given time. Times skipped when
+// DST starts are pushed forward by the gap; times repeated when it ends use the first.
+export const zonedTimeToDate = (
+  { year, month, day, hour = 0, minute = 0, second = 0 }: Omit<ZonedDateTime, 'hour' | 'minute' | 'second' | 'weekday'> & Partial<ZonedDateTime>,
+  timeZone: string,
+): Date => {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  const firstGuess = wallClock - getTimeZoneOffsetMinutes(new Date(wallClock), timeZone) * 60000;
+  const secondGuess = wallClock - getTimeZoneOffsetMinutes(new Date(firstGuess), timeZone) * 60000;
+  if (firstGuess === secondGuess) return new Date(firstGuess);
+  // Ambiguous or skipped: take the earlier instant that maps to the requested wall time, else the later one
+  const earlier = Math.min(firstGuess, secondGuess);
+  const zoned = getZonedDateTime(new Date(earlier), timeZone);
+  return zoned.hour === hour && zoned.minute === minute ? new Date(earlier) : new Date(Math.max(firstGuess, secondGuess));
+};
+
+export interface TimeZoneTransition {
+  // Instant the offset changes
+  at: Date;
+  offsetBefore: number; // minutes
+  offsetAfter: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Offset changes (DST starts and ends) between two instants
+export const getTimeZoneTransitions = (timeZone: string, from: Date, to: Date): TimeZoneTransition[] => {
+  const transitions: TimeZoneTransition[] = [];
+  // Zones change offset at most a few times a year, so sampling every 6 hours finds every change
+  const step = 6 * HOUR_MS;
+  let previousTime = Math.floor(from.getTime() / 60000) * 60000;
+  let previousOffset = getTimeZoneOffsetMinutes(new Date(previousTime), timeZone);
+
+  for (let time = previousTime + step; time <= to.getTime() + step; time += step) {
+    const offset = getTimeZoneOffsetMinutes(new Date(time), timeZone);
+    if (offset !== previousOffset) {
+      // Narrow down to the minute of the change
+      let low = previousTime;
+      let high = time;
+      while (high - low > 60000) {
+        const mid = low + Math.floor((high - low) / 120000) * 60000;
+        if (getTimeZoneOffsetMinutes(new Date(mid), timeZone) === previousOffset) low = mid;
+        else high = mid;
+      }
+      transitions.push({ at: new Date(high), offsetBefore: previousOffset, offsetAfter: offset });
+    }
+    previousTime = time;
+    previousOffset = offset;
+  }
+
+  return transitions.filter(transition => transition.at >= from && transition.at <= to);
+};
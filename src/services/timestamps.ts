@@ -0,0 +1,30 @@
+// Helpers for positions within a video, as shown in chapter lists and ?t= links.
+
+// Seconds as "m:ss", or "h:mm:ss" past the first hour
+export const formatTimestamp = (totalSeconds: number): string => {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = (seconds % 60).toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+};
+
+// Parses a ?t= value: plain seconds ("754"), "1h2m34s" or "1:02:34".
+// Returns null when the value isn't a timestamp.
+export const parseTimestamp = (value: string | null): number | null => {
+  if (!value) return null;
+  const trimmed = value.trim().toLowerCase();
+
+  if (/^\d+$/.test(trimmed)) return parseInt(trimmed, 10);
+
+  const units = trimmed.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (units && (units[1] || units[2] || units[3])) {
+    return (parseInt(units[1] || '0', 10) * 3600) + (parseInt(units[2] || '0', 10) * 60) + parseInt(units[3] || '0', 10);
+  }
+
+  if (/^\d+(:\d{1,2}){1,2}$/.test(trimmed)) {
+    return trimmed.split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+  }
+
+  return null;
+};
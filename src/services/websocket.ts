@@ -1,5 +1,6 @@
 import { io, Socket } from 'socket.io-client';
 import { handleProfilePictureUpdate } from './streamApi';
+import type { NotificationEvent } from './notificationsApi';
 
 let profileSocket: Socket | null = null; // Separate socket for profile updates
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL;
@@ -87,5 +88,22 @@ export const removeProfileUpdateListener = (callback: (data: { username: string;
   }
 };
 
+// Receive the signed-in user's notification center events. The socket joins the
+// user's room with their token, and again after every reconnect.
+export const subscribeToNotifications = (token: string, callback: (event: NotificationEvent) => void) => {
+  const socket = initializeWebSocket();
+  const join = () => socket.emit('join_notifications', { token });
+
+  join();
+  socket.on('connect', join);
+  socket.on('notification', callback);
+
+  return () => {
+    socket.emit('leave_notifications');
+    socket.off('connect', join);
+    socket.off('notification', callback);
+  };
+};
+
 // Re-export the profile update handler for convenience
 export { handleProfilePictureUpdate } from './streamApi';
\ No newline at end of file